@@ -1,20 +1,39 @@
 import { BehaviorSubject } from 'rxjs';
+import { DeepPath, DeepTracker } from './deep';
 
 export type ArrayChange<T> = {
   type: 'add' | 'remove' | 'update' | 'init' | 'reset';
   index?: number;
   items: T[];
+  /**
+   * For a change of a nested value (deep signals), its full path. `index` is
+   * then the index of the item containing it, and `items` the nested value.
+   */
+  path?: DeepPath;
 };
 
+export interface ArraySubjectOptions {
+  /**
+   * Also notify the changes of the nested plain objects and arrays
+   */
+  deep?: boolean;
+}
+
 /**
  * ArraySubject extends BehaviorSubject to monitor and notify about specific array modifications.
  * It distinguishes between additions, removals, and updates to array elements.
  */
 export class ArraySubject<T> extends BehaviorSubject<ArrayChange<T>> {
   private _items: T[] = [];
+  private deep?: DeepTracker;
 
-  constructor(items: T[] = []) {
+  constructor(items: T[] = [], options: ArraySubjectOptions = {}) {
     super({ type: 'init', items }); // Initial dummy emission
+    if (options.deep) {
+      this.deep = new DeepTracker(({ type, path, value }) => {
+        this.next({ type, index: path[0] as number, items: type === 'remove' ? [] : [value], path });
+      });
+    }
     this.createProxy(items);
   }
 
@@ -24,6 +43,9 @@ export class ArraySubject<T> extends BehaviorSubject<ArrayChange<T>> {
         const origMethod = target[prop];
         if (typeof origMethod === 'function') {
           return (...args) => {
+            if (this.deep) {
+              args = args.map((arg) => this.deep!.unwrap(arg));
+            }
             let changeType: 'add' | 'remove' | 'update' = 'update';
             let index: number | undefined = undefined;
             let isMutateFn = false;
@@ -83,10 +105,17 @@ export class ArraySubject<T> extends BehaviorSubject<ArrayChange<T>> {
           };
         }
         // Return property value for direct access
-        return Reflect.get(target, prop, receiver);
+        const value = Reflect.get(target, prop, receiver);
+        if (this.deep && typeof prop === 'string' && Number.isInteger(Number(prop))) {
+          return this.deep.wrap(value, [Number(prop)]);
+        }
+        return value;
       },
       set: (target, prop, value) => {
         const index = !isNaN(Number(prop)) ? Number(prop) : undefined;
+        if (this.deep) {
+          value = this.deep.unwrap(value);
+        }
         target[prop] = value;
         this.next({ type: 'update', index, items: [value] });
         return true; // Indicate success
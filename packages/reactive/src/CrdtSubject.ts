@@ -0,0 +1,46 @@
+import { BehaviorSubject } from 'rxjs';
+import { CrdtState, RgaSequence } from './rga';
+
+export interface CrdtChange<T> {
+  type: 'init' | 'change';
+  /**
+   * The entries of the elements inserted or deleted, by element id. Sending
+   * them to the other replicas, in any order, merges the change.
+   */
+  entries?: CrdtState<T>;
+  /**
+   * True for the changes made on this replica, false for merged ones
+   */
+  local?: boolean;
+}
+
+/**
+ * CrdtSubject extends BehaviorSubject to notify about the entries of a CRDT
+ * sequence changed by local edits or merges.
+ */
+export class CrdtSubject<T> extends BehaviorSubject<CrdtChange<T>> {
+  readonly _crdt: RgaSequence<T>;
+
+  constructor(sequence: RgaSequence<T>) {
+    super({ type: 'init' });
+    this._crdt = sequence;
+  }
+
+  /**
+   * Emits the changed entries, if any
+   * @returns {boolean} True if something changed
+   */
+  emitChange(entries: CrdtState<T>, local: boolean): boolean {
+    if (Object.keys(entries).length === 0) return false;
+    this.next({ type: 'change', entries, local });
+    return true;
+  }
+}
+
+/**
+ * Checks if a subject is the subject of a CRDT signal (`listSignal()` or
+ * `textSignal()`)
+ */
+export const isCrdtSubject = (value: any): value is CrdtSubject<any> => {
+  return !!value && '_crdt' in value;
+};
@@ -0,0 +1,74 @@
+import { BehaviorSubject } from 'rxjs';
+
+export interface MapChange<K, V> {
+  type: 'add' | 'remove' | 'update' | 'clear' | 'init' | 'reset';
+  key?: K;
+  /**
+   * The value set or removed. For `init` and `reset`, the whole map; for
+   * `clear`, a map of the removed entries.
+   */
+  value?: any;
+  /** For `reset`, the map that was replaced */
+  previous?: Map<K, V>;
+}
+
+/**
+ * MapSubject extends BehaviorSubject to notify about the entries set, deleted
+ * or cleared in a Map.
+ */
+export class MapSubject<K, V> extends BehaviorSubject<MapChange<K, V>> {
+  private _map: Map<K, V>;
+
+  constructor(map: Map<K, V> = new Map()) {
+    super({ type: 'init', value: map });
+    this.createProxy(map);
+  }
+
+  private createProxy(map: Map<K, V>) {
+    this._map = new Proxy(map, {
+      get: (target, prop) => {
+        switch (prop) {
+          case 'set':
+            return (key: K, value: V) => {
+              const changeType = target.has(key) ? 'update' : 'add';
+              target.set(key, value);
+              this.next({ type: changeType, key, value });
+              return this._map;
+            };
+          case 'delete':
+            return (key: K) => {
+              if (!target.has(key)) return false;
+              const value = target.get(key);
+              target.delete(key);
+              this.next({ type: 'remove', key, value });
+              return true;
+            };
+          case 'clear':
+            return () => {
+              if (target.size === 0) return;
+              const removed = new Map(target);
+              target.clear();
+              this.next({ type: 'clear', value: removed });
+            };
+        }
+        // Map methods and accessors only work on the Map itself, not on the proxy
+        const value = Reflect.get(target, prop, target);
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+    });
+  }
+
+  get map(): Map<K, V> {
+    return this._map;
+  }
+
+  set map(newMap: Map<K, V>) {
+    const previous = this._map;
+    this.createProxy(newMap);
+    this.next({ type: 'reset', value: newMap, previous });
+  }
+}
+
+export const isMapSubject = (value: any): boolean => {
+  return '_map' in value;
+}
@@ -1,29 +1,49 @@
 import { BehaviorSubject } from 'rxjs';
+import { DeepPath, DeepTracker } from './deep';
 
 export interface ObjectChange<T> {
   type: 'add' | 'remove' | 'update' | 'init' | 'reset';
   key?: keyof T;
   value?: any;
+  /**
+   * For a change of a nested value (deep signals), its full path. `key` is then
+   * the top-level key containing it.
+   */
+  path?: DeepPath;
+}
+
+export interface ObjectSubjectOptions {
+  /**
+   * Also notify the changes of the nested plain objects and arrays
+   */
+  deep?: boolean;
 }
 
 export class ObjectSubject<T extends Record<string, any>> extends BehaviorSubject<ObjectChange<T>> {
   private _obj: T;
+  private deep?: DeepTracker;
 
-  constructor(obj: T = {} as T) {
+  constructor(obj: T = {} as T, options: ObjectSubjectOptions = {}) {
     super({ type: 'init', value: obj });
+    if (options.deep) {
+      this.deep = new DeepTracker(({ type, path, value }) => {
+        this.next({ type, key: path[0] as keyof T, value, path });
+      });
+    }
     this.createProxy(obj);
   }
 
   private createProxy(obj: T) {
     this._obj = new Proxy(obj, {
       get: (target, prop, receiver) => {
-        return Reflect.get(target, prop, receiver);
+        const value = Reflect.get(target, prop, receiver);
+        return this.deep && typeof prop === 'string' ? this.deep.wrap(value, [prop]) : value;
       },
       set: (target, prop, value, receiver) => {
         const key = prop as keyof T;
         const changeType = key in target ? 'update' : 'add';
 
-        target[key] = value;
+        target[key] = this.deep ? this.deep.unwrap(value) : value;
         this.next({ type: changeType, key, value });
         return true; 
       },
@@ -0,0 +1,72 @@
+import { BehaviorSubject } from 'rxjs';
+
+export interface SetChange<T> {
+  type: 'add' | 'remove' | 'clear' | 'init' | 'reset';
+  /**
+   * The value added or removed. For `init` and `reset`, the whole set; for
+   * `clear`, a set of the removed values.
+   */
+  value?: any;
+  /** For `reset`, the set that was replaced */
+  previous?: Set<T>;
+}
+
+/**
+ * SetSubject extends BehaviorSubject to notify about the values added, deleted
+ * or cleared in a Set.
+ */
+export class SetSubject<T> extends BehaviorSubject<SetChange<T>> {
+  private _set: Set<T>;
+
+  constructor(set: Set<T> = new Set()) {
+    super({ type: 'init', value: set });
+    this.createProxy(set);
+  }
+
+  private createProxy(set: Set<T>) {
+    this._set = new Proxy(set, {
+      get: (target, prop) => {
+        switch (prop) {
+          case 'add':
+            return (value: T) => {
+              if (!target.has(value)) {
+                target.add(value);
+                this.next({ type: 'add', value });
+              }
+              return this._set;
+            };
+          case 'delete':
+            return (value: T) => {
+              if (!target.delete(value)) return false;
+              this.next({ type: 'remove', value });
+              return true;
+            };
+          case 'clear':
+            return () => {
+              if (target.size === 0) return;
+              const removed = new Set(target);
+              target.clear();
+              this.next({ type: 'clear', value: removed });
+            };
+        }
+        // Set methods and accessors only work on the Set itself, not on the proxy
+        const value = Reflect.get(target, prop, target);
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+    });
+  }
+
+  get set(): Set<T> {
+    return this._set;
+  }
+
+  set set(newSet: Set<T>) {
+    const previous = this._set;
+    this.createProxy(newSet);
+    this.next({ type: 'reset', value: newSet, previous });
+  }
+}
+
+export const isSetSubject = (value: any): boolean => {
+  return '_set' in value;
+}
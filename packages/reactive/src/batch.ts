@@ -0,0 +1,156 @@
+import { MonoTypeOperatorFunction, Observable } from "rxjs";
+import { traceEvent } from "./debug";
+import { reactiveStore } from "./store";
+
+interface BatchState {
+    depth: number;
+    queue: Map<object, () => void>;
+    endCallbacks: Set<() => void>;
+}
+
+// Kept in the global store so that every copy of the library shares the same batch
+const getBatchState = (): BatchState => {
+    if (!reactiveStore.batchState) {
+        reactiveStore.batchState = {
+            depth: 0,
+            queue: new Map(),
+            endCallbacks: new Set(),
+        };
+    }
+    return reactiveStore.batchState;
+};
+
+/**
+ * Runs `fn` and defers the notifications of the signals it writes until the
+ * outermost batch exits. Each subscriber is then notified once with the final
+ * value, so a computed depending on several of these signals recomputes once.
+ *
+ * Values are written immediately: reading a signal or a computed signal inside
+ * the batch returns the new value, while subscribers and effects are notified
+ * when the batch ends. If `fn` throws, the writes made before the error are
+ * kept and notified, then the error is rethrown.
+ *
+ * @template T
+ * @param {() => T} fn - The function writing the signals.
+ * @returns {T} The return value of `fn`.
+ *
+ * @example
+ * const x = signal(0);
+ * const y = signal(0);
+ * const position = computed(() => ({ x: x(), y: y() }));
+ *
+ * batch(() => {
+ *   x.set(10);
+ *   y.set(20);
+ * }); // `position` recomputes once
+ */
+export function batch<T>(fn: () => T): T {
+    const state = getBatchState();
+    state.depth++;
+    try {
+        return fn();
+    } finally {
+        try {
+            if (state.depth === 1) {
+                flushBatch(state);
+            }
+        } finally {
+            state.depth--;
+        }
+    }
+}
+
+/**
+ * Checks if the current code runs inside `batch()`, including while the
+ * deferred notifications are being delivered.
+ * @returns {boolean} True if notifications are currently deferred
+ */
+export function isBatching(): boolean {
+    return getBatchState().depth > 0;
+}
+
+/**
+ * Registers a callback called once after the outermost batch has delivered its
+ * notifications. Registering the same callback several times during a batch
+ * calls it only once. Outside a batch, the callback is called immediately.
+ * @param {() => void} callback - The function to call
+ */
+export function onBatchEnd(callback: () => void): void {
+    const state = getBatchState();
+    if (state.depth === 0) {
+        callback();
+        return;
+    }
+    state.endCallbacks.add(callback);
+}
+
+/**
+ * Defers the values emitted inside a batch until the batch ends.
+ * With `latest`, only the last value is delivered to each subscriber; with
+ * `all`, every value is delivered in order (used for change events of array
+ * and object signals). Values emitted synchronously while subscribing are
+ * never deferred. The deliveries are recorded in the debug trace of `node`.
+ * @internal
+ */
+export function batchable<T>(mode: 'latest' | 'all' = 'latest', node?: object): MonoTypeOperatorFunction<T> {
+    return (source) => new Observable<T>((subscriber) => {
+        const key = {};
+        let subscribing = true;
+        const deliver = (value: T) => {
+            if (node) traceEvent('notify', node);
+            subscriber.next(value);
+        };
+        const subscription = source.subscribe({
+            next: (value) => {
+                const state = getBatchState();
+                if (subscribing || state.depth === 0) {
+                    deliver(value);
+                    return;
+                }
+                state.queue.set(mode === 'latest' ? key : {}, () => deliver(value));
+            },
+            error: (error) => subscriber.error(error),
+            complete: () => subscriber.complete(),
+        });
+        subscribing = false;
+        return subscription;
+    });
+}
+
+/**
+ * Queues a notification for the current batch. Notifications queued with the
+ * same key before the flush reaches them run once.
+ * @internal
+ */
+export function queueBatchNotification(key: object, notify: () => void): void {
+    getBatchState().queue.set(key, notify);
+}
+
+function flushBatch(state: BatchState) {
+    let firstError: unknown;
+    let hasError = false;
+    // Notifications can write other signals (computed, effects): they join the flush
+    while (state.queue.size > 0 || state.endCallbacks.size > 0) {
+        const notifications = state.queue.size > 0
+            ? Array.from(state.queue.values())
+            : Array.from(state.endCallbacks);
+        if (state.queue.size > 0) {
+            state.queue.clear();
+        } else {
+            state.endCallbacks.clear();
+        }
+        for (const notify of notifications) {
+            try {
+                notify();
+            } catch (error) {
+                if (!hasError) {
+                    hasError = true;
+                    firstError = error;
+                }
+            }
+        }
+    }
+    if (hasError) {
+        throw firstError;
+    }
+}
@@ -0,0 +1,156 @@
+import { CrdtSubject } from "./CrdtSubject";
+import { batchable } from "./batch";
+import { initSourceNode, notifyChange } from "./graph";
+import { CrdtState, RgaSequence } from "./rga";
+import { reactiveStore } from "./store";
+import type { WritableListSignal, WritableTextSignal } from "./types";
+
+/**
+ * Options for creating a list or text signal
+ */
+export interface CrdtSignalOptions {
+    /**
+     * Id of this replica in the element ids. Must be unique among the replicas
+     * editing the sequence, and cannot be "0" or contain "." or "@". Random by
+     * default.
+     */
+    replicaId?: string;
+    /**
+     * Name of the signal in the debug graph and trace (see `enableReactiveDebug`)
+     */
+    debugName?: string;
+}
+
+function createCrdtSignal<T, V>(
+    initialValues: T[],
+    read: (sequence: RgaSequence<T>) => V,
+    options: CrdtSignalOptions = {}
+) {
+    const sequence = new RgaSequence<T>(options.replicaId, initialValues);
+    const subject = new CrdtSubject<T>(sequence);
+    let value = read(sequence);
+
+    const fn: any = function () {
+        reactiveStore.currentDependencyTracker?.(fn);
+        return value;
+    };
+
+    const apply = (entries: CrdtState<T>, local: boolean) => {
+        value = read(sequence);
+        return subject.emitChange(entries, local);
+    };
+
+    fn.replicaId = sequence.replicaId;
+    fn._insert = (index: number, values: T[]) => {
+        apply(sequence.insert(index, values), true);
+    };
+    fn.delete = (index: number, count = 1) => {
+        apply(sequence.delete(index, count), true);
+    };
+    // Replaces the values that differ only, so that concurrent edits of the rest are kept
+    fn._replace = (values: T[]) => {
+        const current = sequence.values();
+        let start = 0;
+        while (start < current.length && start < values.length && current[start] === values[start]) {
+            start++;
+        }
+        let end = 0;
+        while (
+            end < current.length - start && end < values.length - start &&
+            current[current.length - 1 - end] === values[values.length - 1 - end]
+        ) {
+            end++;
+        }
+        const entries = {
+            ...sequence.delete(start, current.length - start - end),
+            ...sequence.insert(start, values.slice(start, values.length - end)),
+        };
+        apply(entries, true);
+    };
+    fn.merge = (entries: CrdtState<T>) => apply(sequence.merge(entries), false);
+    fn.getState = () => sequence.getState();
+
+    initSourceNode(fn, 'signal', options.debugName);
+    let subscribed = false;
+    subject.subscribe(() => {
+        // Skip the initial value replayed on subscription
+        if (subscribed) {
+            notifyChange(fn);
+        }
+    });
+    subscribed = true;
+
+    fn.observable = subject.asObservable().pipe(batchable('all', fn));
+    fn._subject = subject;
+
+    return fn;
+}
+
+/**
+ * Creates a list signal backed by a CRDT (Replicated Growable Array): several
+ * replicas can edit copies of the list at the same time and converge to the
+ * same values once they merged the changes of each other, whatever their order.
+ *
+ * Each edit emits the entries of the elements inserted or deleted, which are
+ * sent to the other replicas and merged with `merge()`. `@signe/sync` syncs
+ * and persists these entries instead of the values by index.
+ *
+ * The initial values get the same element ids on every replica, so the
+ * replicas of a sequence must be created with the same initial values.
+ *
+ * @template T The type of the values
+ * @param {T[]} [initialValues] The initial values
+ * @param {CrdtSignalOptions} [options] Optional configuration for the signal
+ * @returns {WritableListSignal<T>} A list signal
+ *
+ * @example
+ * const a = listSignal(['milk']);
+ * const b = listSignal<string>([]);
+ * b.merge(a.getState());
+ *
+ * a.push('eggs');
+ * b.insert(0, 'bread');
+ * a.merge(b.getState());
+ * b.merge(a.getState());
+ * a(); // ['bread', 'milk', 'eggs'], like b()
+ */
+export function listSignal<T = any>(initialValues: T[] = [], options?: CrdtSignalOptions): WritableListSignal<T> {
+    const fn = createCrdtSignal<T, T[]>(initialValues, (sequence) => sequence.values(), options);
+    fn.insert = (index: number, ...values: T[]) => fn._insert(index, values);
+    fn.push = (...values: T[]) => fn._insert(fn().length, values);
+    fn.set = (values: T[]) => fn._replace(values);
+    return fn;
+}
+
+/**
+ * Creates a text signal backed by a CRDT, for collaborative editing: like
+ * `listSignal()`, each character is an element of the sequence, so concurrent
+ * insertions and deletions are all kept and merged in the same order on every
+ * replica. Indexes are string indexes.
+ *
+ * @param {string} [initialText] The initial text
+ * @param {CrdtSignalOptions} [options] Optional configuration for the signal
+ * @returns {WritableTextSignal} A text signal
+ *
+ * @example
+ * const notes = textSignal('Hello');
+ * notes.insert(5, ' world');
+ * notes.delete(0, 1);
+ * notes(); // 'ello world'
+ */
+export function textSignal(initialText = '', options?: CrdtSignalOptions): WritableTextSignal {
+    const fn = createCrdtSignal<string, string>(initialText.split(''), (sequence) => sequence.values().join(''), options);
+    fn.insert = (index: number, text: string) => fn._insert(index, text.split(''));
+    fn.append = (text: string) => fn._insert(fn().length, text.split(''));
+    fn.set = (text: string) => fn._replace(text.split(''));
+    return fn;
+}
+
+/**
+ * Checks if a value is a list or text signal
+ * @param {any} value The value to check
+ * @returns {boolean} True if the value is a CRDT signal, false otherwise
+ */
+export function isCrdtSignal(value: any): boolean {
+    return !!(value && value.observable && value._subject && '_crdt' in value._subject);
+}
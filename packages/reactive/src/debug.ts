@@ -0,0 +1,283 @@
+import { reactiveStore } from "./store";
+
+/*
+ * Debug mode of the reactive graph.
+ *
+ * Every signal, computed signal, linked signal and effect gets a numeric id
+ * when it is created. While the debug mode is enabled, the created nodes are
+ * registered so that the graph can be inspected, and the writes,
+ * recomputations and subscriber notifications are recorded in a trace. The
+ * state lives in the global reactive store, so a devtools script can read
+ * `globalThis.__REACTIVE_STORE__.debug` directly.
+ */
+
+export type ReactiveNodeKind = 'signal' | 'computed' | 'linkedSignal' | 'effect';
+
+/**
+ * Node of the serialized reactive graph
+ */
+export interface ReactiveGraphNode {
+    id: number;
+    name?: string;
+    kind: ReactiveNodeKind;
+    /** Incremented each time the value changes */
+    version: number;
+    /** Ids of the nodes read by the last computation */
+    sources: number[];
+    /** Ids of the computed signals and effects reading this node */
+    observers: number[];
+}
+
+/**
+ * Event of the reactive trace
+ */
+export interface ReactiveTraceEvent {
+    /** Order of the event since the debug mode was enabled */
+    seq: number;
+    /**
+     * - `write`: the value of a signal changed (or a linked signal was set)
+     * - `recompute`: a computed signal or an effect ran again
+     * - `notify`: a subscriber of the observable of the node received a value
+     */
+    type: 'write' | 'recompute' | 'notify';
+    id: number;
+    name?: string;
+    kind: ReactiveNodeKind;
+    version: number;
+    /** For `recompute`, the ids of the sources whose change caused it */
+    causes?: number[];
+    /** For `write`, the stack of the write, if `captureStack` is enabled */
+    stack?: string;
+}
+
+/**
+ * Serializable dump of the reactive graph and trace
+ */
+export interface ReactiveDebugSnapshot {
+    nodes: ReactiveGraphNode[];
+    trace: ReactiveTraceEvent[];
+}
+
+export interface ReactiveDebugOptions {
+    /**
+     * Maximum number of trace events kept, the oldest are dropped first
+     * @default 1000
+     */
+    traceLimit?: number;
+    /**
+     * Record the stack trace of each write, to find the code causing it
+     * @default false
+     */
+    captureStack?: boolean;
+}
+
+// ES2021 classes, missing from the `lib` of the build
+declare const WeakRef: (new <T extends object>(target: T) => { deref(): T | undefined }) | undefined;
+declare const FinalizationRegistry:
+    | (new <T>(cleanup: (held: T) => void) => { register(target: object, held: T): void })
+    | undefined;
+
+interface DebugState {
+    enabled: boolean;
+    nextId: number;
+    seq: number;
+    /**
+     * Registered nodes by id, held weakly so that the nodes dropped by their
+     * owner can be garbage collected while the debug mode is enabled
+     */
+    nodes: Map<number, { deref(): any }>;
+    trace: ReactiveTraceEvent[];
+    traceLimit: number;
+    captureStack: boolean;
+}
+
+// Kept in the global store so that every copy of the library shares the same ids and trace
+const getDebugState = (): DebugState => {
+    const state = reactiveStore.debug;
+    if (state?.trace) {
+        return state;
+    }
+    // A devtools script may set `{ enabled: true }` before the library is loaded
+    reactiveStore.debug = {
+        enabled: false,
+        nextId: 1,
+        seq: 0,
+        nodes: new Map(),
+        trace: [],
+        traceLimit: 1000,
+        captureStack: false,
+        ...state,
+    };
+    return reactiveStore.debug;
+};
+
+/**
+ * Enables the debug mode: the nodes created from now on are registered, and
+ * the trace records the writes, recomputations and notifications.
+ * @param {ReactiveDebugOptions} [options] - Trace options
+ *
+ * @example
+ * enableReactiveDebug({ captureStack: true });
+ * const count = signal(0, { debugName: 'count' });
+ * count.set(1);
+ * console.log(JSON.stringify(getReactiveDebugSnapshot()));
+ */
+export function enableReactiveDebug(options: ReactiveDebugOptions = {}): void {
+    const state = getDebugState();
+    state.enabled = true;
+    state.traceLimit = options.traceLimit ?? state.traceLimit;
+    state.captureStack = options.captureStack ?? state.captureStack;
+}
+
+/**
+ * Disables the debug mode, and forgets the registered nodes and the trace.
+ */
+export function disableReactiveDebug(): void {
+    const state = getDebugState();
+    state.enabled = false;
+    state.nodes.clear();
+    state.trace = [];
+}
+
+/**
+ * Checks if the debug mode is enabled
+ * @returns {boolean} True if the debug mode is enabled
+ */
+export function isReactiveDebugEnabled(): boolean {
+    return getDebugState().enabled;
+}
+
+/**
+ * Gives a name to a signal, computed signal, linked signal or effect, shown in
+ * the graph and the trace.
+ * @param {T} node - The node to name
+ * @param {string} name - The debug name
+ * @returns {T} The node
+ *
+ * @example
+ * const total = setDebugName(computed(() => a() + b()), 'total');
+ */
+export function setDebugName<T>(node: T, name: string): T {
+    (node as any)._debugName = name;
+    return node;
+}
+
+/**
+ * Returns the id given to a node when it was created
+ * @param {any} node - A signal, computed signal, linked signal or effect
+ * @returns {number | undefined} The id, or undefined if `node` is not a reactive node
+ */
+export function getDebugId(node: any): number | undefined {
+    return node?._debugId;
+}
+
+/**
+ * Returns the reactive graph formed by the nodes created while the debug mode
+ * is enabled, and not disposed since.
+ * @returns {ReactiveGraphNode[]} The nodes, in creation order
+ */
+export function getReactiveGraph(): ReactiveGraphNode[] {
+    const registry = getDebugState().nodes;
+    const nodes: any[] = [];
+    for (const [id, ref] of registry) {
+        const node = ref.deref();
+        // The finalization callbacks may run late: drop the collected nodes here as well
+        if (node) nodes.push(node);
+        else registry.delete(id);
+    }
+    return nodes.map((node) => ({
+        id: node._debugId,
+        ...(node._debugName !== undefined && { name: node._debugName }),
+        kind: node._debugKind,
+        version: node._version,
+        sources: node._sources ? Array.from(node._sources.keys(), (source: any) => source._debugId) : [],
+        observers: Array.from(node._observers, (observer: any) => observer._debugId),
+    }));
+}
+
+/**
+ * Returns the recorded trace events, oldest first
+ * @returns {ReactiveTraceEvent[]} The events
+ */
+export function getReactiveTrace(): ReactiveTraceEvent[] {
+    return getDebugState().trace.slice();
+}
+
+/**
+ * Removes the recorded trace events
+ */
+export function clearReactiveTrace(): void {
+    getDebugState().trace = [];
+}
+
+/**
+ * Returns the graph and the trace as plain data, which can be dumped as JSON.
+ * @returns {ReactiveDebugSnapshot} The snapshot
+ */
+export function getReactiveDebugSnapshot(): ReactiveDebugSnapshot {
+    return {
+        nodes: getReactiveGraph(),
+        trace: getReactiveTrace(),
+    };
+}
+
+// Removes the entries of the collected nodes from the registry
+let collectedNodes: { register(target: object, held: number): void } | undefined;
+
+const weakRef = (node: any): { deref(): any } => {
+    if (typeof WeakRef === 'undefined' || typeof FinalizationRegistry === 'undefined') {
+        return { deref: () => node };
+    }
+    collectedNodes ??= new FinalizationRegistry<number>((id) => getDebugState().nodes.delete(id));
+    collectedNodes.register(node, node._debugId);
+    return new WeakRef(node);
+};
+
+/** @internal */
+export function registerDebugNode(node: any, kind: ReactiveNodeKind, name?: string) {
+    const state = getDebugState();
+    node._debugId = state.nextId++;
+    node._debugKind = kind;
+    if (name !== undefined) {
+        node._debugName = name;
+    }
+    if (state.enabled) {
+        state.nodes.set(node._debugId, weakRef(node));
+    }
+}
+
+/** @internal */
+export function unregisterDebugNode(node: any) {
+    getDebugState().nodes.delete(node._debugId);
+}
+
+/** @internal */
+export function traceEvent(
+    type: ReactiveTraceEvent['type'],
+    node: any,
+    details?: Pick<ReactiveTraceEvent, 'causes'>
+) {
+    const state = getDebugState();
+    if (!state.enabled) return;
+    const event: ReactiveTraceEvent = {
+        seq: ++state.seq,
+        type,
+        id: node._debugId,
+        ...(node._debugName !== undefined && { name: node._debugName }),
+        kind: node._debugKind,
+        version: node._version,
+        ...details,
+    };
+    if (type === 'write' && state.captureStack) {
+        // The write goes through the internals of rxjs: keep more frames than the default 10
+        const stackTraceLimit = (Error as any).stackTraceLimit;
+        (Error as any).stackTraceLimit = 50;
+        // Without the first lines: the error message and this function
+        event.stack = new Error().stack?.split('\n').slice(2).join('\n');
+        (Error as any).stackTraceLimit = stackTraceLimit;
+    }
+    state.trace.push(event);
+    if (state.trace.length > state.traceLimit) {
+        state.trace.splice(0, state.trace.length - state.traceLimit);
+    }
+}
@@ -0,0 +1,139 @@
+/**
+ * Path of a nested value, from the value held by the signal.
+ */
+export type DeepPath = (string | number)[];
+
+/**
+ * Change of a nested value of a deep signal.
+ */
+export interface DeepChange {
+  type: 'add' | 'remove' | 'update';
+  path: DeepPath;
+  value?: any;
+}
+
+// Array methods that move the other items: the whole array is reported as updated
+const REORDERING_METHODS = ['shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'copyWithin'];
+
+/**
+ * Checks if a value is a plain object or an array, which deep signals track.
+ * Class instances are not tracked: they hold their own signals.
+ */
+export function isDeepTrackable(value: any): boolean {
+  if (Array.isArray(value)) return true;
+  if (!value || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Lazily wraps the nested objects and arrays of a signal value in proxies
+ * reporting their changes with their path.
+ * @internal
+ */
+export class DeepTracker {
+  // Proxy of each nested value, with the path it was created for
+  private proxies = new WeakMap<object, { key: string; proxy: any }>();
+  private targets = new WeakMap<object, object>();
+
+  constructor(private emit: (change: DeepChange) => void) {}
+
+  /**
+   * Returns the proxy tracking `value`, found at `path`, or `value` itself if it
+   * is not trackable.
+   */
+  wrap(value: any, path: DeepPath): any {
+    if (!isDeepTrackable(value)) return value;
+    const key = path.join('.');
+    const cached = this.proxies.get(value);
+    if (cached?.key === key) return cached.proxy;
+    const proxy = Array.isArray(value) ? this.wrapArray(value, path) : this.wrapObject(value, path);
+    this.proxies.set(value, { key, proxy });
+    this.targets.set(proxy, value);
+    return proxy;
+  }
+
+  /**
+   * Returns the value wrapped by a proxy, so that proxies are never stored.
+   */
+  unwrap<T>(value: T): T {
+    return value && typeof value === 'object' ? (this.targets.get(value as any) as T) ?? value : value;
+  }
+
+  private wrapObject(object: Record<string, any>, path: DeepPath) {
+    return new Proxy(object, {
+      get: (target, prop, receiver) => {
+        const value = Reflect.get(target, prop, receiver);
+        return typeof prop === 'string' ? this.wrap(value, [...path, prop]) : value;
+      },
+      set: (target, prop, value) => {
+        if (typeof prop !== 'string') {
+          target[prop as any] = value;
+          return true;
+        }
+        const type = prop in target ? 'update' : 'add';
+        target[prop] = this.unwrap(value);
+        this.emit({ type, path: [...path, prop], value: target[prop] });
+        return true;
+      },
+      deleteProperty: (target, prop) => {
+        if (typeof prop !== 'string' || !(prop in target)) {
+          return Reflect.deleteProperty(target, prop);
+        }
+        const value = target[prop];
+        delete target[prop];
+        this.emit({ type: 'remove', path: [...path, prop], value });
+        return true;
+      },
+    });
+  }
+
+  private wrapArray(array: any[], path: DeepPath) {
+    return new Proxy(array, {
+      get: (target, prop, receiver) => {
+        const value = Reflect.get(target, prop, receiver);
+        if (prop === 'push') {
+          return (...items: any[]) => {
+            const index = target.length;
+            const result = target.push(...items.map((item) => this.unwrap(item)));
+            items.forEach((_, offset) => {
+              this.emit({ type: 'add', path: [...path, index + offset], value: target[index + offset] });
+            });
+            return result;
+          };
+        }
+        if (prop === 'pop') {
+          return () => {
+            if (target.length === 0) return undefined;
+            const index = target.length - 1;
+            const result = target.pop();
+            this.emit({ type: 'remove', path: [...path, index], value: result });
+            return result;
+          };
+        }
+        if (typeof prop === 'string' && REORDERING_METHODS.includes(prop)) {
+          return (...args: any[]) => {
+            const result = value.apply(target, args.map((arg) => this.unwrap(arg)));
+            this.emit({ type: 'update', path, value: target });
+            return result === target ? receiver : result;
+          };
+        }
+        const index = typeof prop === 'string' ? Number(prop) : NaN;
+        return Number.isInteger(index) ? this.wrap(value, [...path, index]) : value;
+      },
+      set: (target, prop, value) => {
+        const index = typeof prop === 'string' ? Number(prop) : NaN;
+        if (!Number.isInteger(index)) {
+          target[prop as any] = value;
+          // Changing the length removes or adds items
+          if (prop === 'length') this.emit({ type: 'update', path, value: target });
+          return true;
+        }
+        const type = index < target.length ? 'update' : 'add';
+        target[index] = this.unwrap(value);
+        this.emit({ type, path: [...path, index], value: target[index] });
+        return true;
+      },
+    });
+  }
+}
@@ -1,7 +1,132 @@
-import { computed } from "./signal";
+import { BehaviorSubject, Subscription } from "rxjs";
+import { batchable } from "./batch";
+import { initComputedNode, refreshNode, trackSources, unlinkNode } from "./graph";
+import { reactiveStore } from "./store";
 import { Effect } from "./types";
 
-export function effect(fn: () => void): Effect {
-    fn['isEffect'] = true
-    return computed(fn);
+/**
+ * Function receiving the re-run of an effect, and calling it when it wants.
+ */
+export type EffectScheduler = (run: () => void) => void;
+
+/**
+ * Options for creating an effect
+ */
+export interface EffectOptions {
+    /**
+     * When the effect re-runs after a change of the signals it reads:
+     * - `sync` (default): as soon as the change is propagated
+     * - `microtask`: in a microtask, once for all the changes made until then
+     * - `animationFrame`: before the next repaint (in a macrotask outside browsers)
+     * - a function receiving the re-run, for a custom scheduling
+     *
+     * The first run is always immediate.
+     */
+    scheduler?: 'sync' | 'microtask' | 'animationFrame' | EffectScheduler;
+    /**
+     * Name of the effect in the debug graph and trace (see `enableReactiveDebug`)
+     */
+    debugName?: string;
+}
+
+const schedulers: Record<'microtask' | 'animationFrame', EffectScheduler> = {
+    microtask: (run) => queueMicrotask(run),
+    animationFrame: (run) => {
+        if (typeof requestAnimationFrame === 'function') {
+            requestAnimationFrame(() => run());
+        } else {
+            setTimeout(run, 0);
+        }
+    },
+};
+
+/**
+ * Runs `fn` immediately, then again each time the signals it reads change.
+ *
+ * Cleanups registered with `onCleanup()` during a run are called before the
+ * next run and when the effect is disposed. The effects and computed signals
+ * created during a run are owned by it: they are disposed before the next run
+ * and when the effect is disposed. A function returned by `fn` is called when
+ * the effect is disposed.
+ * @param {() => void} fn - The function to run
+ * @param {EffectOptions} [options] - Optional configuration for the effect
+ * @returns {Effect} The effect; `effect.subscription.unsubscribe()` disposes it
+ *
+ * @example
+ * const position = signal({ x: 0, y: 0 });
+ *
+ * effect(() => {
+ *   const { x, y } = position();
+ *   sprite.moveTo(x, y);
+ * }, { scheduler: 'animationFrame' });
+ */
+export function effect(fn: () => void, options: EffectOptions = {}): Effect {
+    const dependencies = new Set<any>();
+    const schedule = typeof options.scheduler === 'function'
+        ? options.scheduler
+        : options.scheduler && options.scheduler !== 'sync'
+            ? schedulers[options.scheduler]
+            : undefined;
+    let disposed = false;
+    let scheduled = false;
+    let lastValue: any;
+    // Cleanups and reactive primitives created by the current run
+    let owned = new Subscription();
+
+    const node: any = function () {
+        return lastValue;
+    };
+
+    const execute = () => {
+        owned.unsubscribe();
+        owned = new Subscription();
+        const run = owned;
+        const previousOwner = reactiveStore.currentSubscriptionsTracker;
+        reactiveStore.currentSubscriptionsTracker = (subscription: Subscription) => run.add(subscription);
+        try {
+            lastValue = trackSources(node, fn);
+        } finally {
+            reactiveStore.currentSubscriptionsTracker = previousOwner;
+        }
+        dependencies.clear();
+        for (const dependency of node._sources.keys()) {
+            dependencies.add(dependency);
+        }
+        subject.next(lastValue);
+    };
+
+    const refresh = () => {
+        if (!disposed) refreshNode(node, execute);
+    };
+
+    initComputedNode(node, () => {
+        if (!schedule) {
+            refresh();
+            return;
+        }
+        if (scheduled) return;
+        scheduled = true;
+        schedule(() => {
+            scheduled = false;
+            refresh();
+        });
+    }, 'effect', options.debugName);
+
+    const subject = new BehaviorSubject<any>(undefined);
+    execute();
+
+    node.observable = subject.asObservable().pipe(batchable('latest', node));
+    node.dependencies = dependencies;
+    node.subscription = new Subscription(() => {
+        disposed = true;
+        unlinkNode(node);
+        owned.unsubscribe();
+        if (typeof lastValue === 'function') {
+            lastValue();
+        }
+    });
+
+    reactiveStore.currentSubscriptionsTracker?.(node.subscription);
+
+    return node;
 }
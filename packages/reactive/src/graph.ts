@@ -0,0 +1,160 @@
+import { batch, queueBatchNotification } from "./batch";
+import { isReactiveDebugEnabled, ReactiveNodeKind, registerDebugNode, traceEvent, unregisterDebugNode } from "./debug";
+import { reactiveStore } from "./store";
+
+/*
+ * Push-pull propagation between signals and computed signals.
+ *
+ * Every node has a version, incremented when its value changes. A write marks
+ * the direct observers of the signal as dirty and their own observers as
+ * "check" (one of their sources may have changed). The marked nodes are then
+ * refreshed once: a node refreshes its sources first, in the order they were
+ * read, and only recomputes if the version of one of them changed. Reading a
+ * computed signal refreshes it the same way, so values are never observed in
+ * an intermediate state, and each computation runs at most once per change.
+ */
+
+const CLEAN = 0;
+const CHECK = 1;
+const DIRTY = 2;
+
+export interface SourceNode {
+    _version: number;
+    _observers: Set<ComputedNode>;
+}
+
+export interface ComputedNode extends SourceNode {
+    _state: number;
+    /** Tracked sources with the version seen during the last computation */
+    _sources: Map<any, number | undefined>;
+    _refresh(): void;
+}
+
+interface GraphState {
+    pending: Set<ComputedNode>;
+    stabilizeKey: object;
+}
+
+// Kept in the global store so that every copy of the library shares the same graph
+const getGraphState = (): GraphState => {
+    if (!reactiveStore.graphState) {
+        reactiveStore.graphState = {
+            pending: new Set(),
+            stabilizeKey: {},
+        };
+    }
+    return reactiveStore.graphState;
+};
+
+export function initSourceNode(node: any, kind: ReactiveNodeKind = 'signal', debugName?: string) {
+    node._version = 0;
+    node._observers = new Set();
+    registerDebugNode(node, kind, debugName);
+}
+
+export function initComputedNode(node: any, refresh: () => void, kind: ReactiveNodeKind = 'computed', debugName?: string) {
+    initSourceNode(node, kind, debugName);
+    node._state = CLEAN;
+    node._sources = new Map();
+    node._refresh = refresh;
+}
+
+/**
+ * Records a new value of `node` and schedules the refresh of the computed
+ * signals depending on it (at the end of the current batch, if any).
+ */
+export function notifyChange(node: SourceNode) {
+    node._version++;
+    traceEvent('write', node);
+    const { pending, stabilizeKey } = getGraphState();
+    markObservers(node, DIRTY, pending);
+    if (pending.size > 0) {
+        batch(() => queueBatchNotification(stabilizeKey, stabilize));
+    }
+}
+
+function markObservers(node: SourceNode, state: number, pending: Set<ComputedNode>) {
+    for (const observer of node._observers) {
+        if (observer._state >= state) continue;
+        const wasClean = observer._state === CLEAN;
+        observer._state = state;
+        if (wasClean) {
+            pending.add(observer);
+            markObservers(observer, CHECK, pending);
+        }
+    }
+}
+
+function stabilize() {
+    const { pending } = getGraphState();
+    while (pending.size > 0) {
+        const nodes = Array.from(pending);
+        pending.clear();
+        for (const node of nodes) {
+            node._refresh();
+        }
+    }
+}
+
+/**
+ * Brings `node` up to date: its sources are refreshed first, and `recompute`
+ * only runs if one of them has a new version.
+ */
+export function refreshNode(node: ComputedNode, recompute: () => void) {
+    if (node._state === CHECK) {
+        for (const [source, version] of node._sources) {
+            source._refresh?.();
+            if (source._version !== version) {
+                node._state = DIRTY;
+                break;
+            }
+        }
+    }
+    const dirty = node._state === DIRTY;
+    // Clean before recomputing, so that writes made by the computation mark it again
+    node._state = CLEAN;
+    if (dirty) {
+        if (isReactiveDebugEnabled()) {
+            const causes = Array.from(node._sources)
+                .filter(([source, version]) => source._version !== version)
+                .map(([source]) => source._debugId);
+            traceEvent('recompute', node, { causes });
+        }
+        recompute();
+    }
+}
+
+/**
+ * Runs `fn` and makes `node` observe the sources it reads.
+ * @returns The value returned by `fn`
+ */
+export function trackSources<T>(node: ComputedNode, fn: () => T): T {
+    const sources = new Map<any, number | undefined>();
+    const previousTracker = reactiveStore.currentDependencyTracker;
+    reactiveStore.currentDependencyTracker = (source) => {
+        sources.set(source, source._version);
+    };
+    try {
+        return fn();
+    } finally {
+        reactiveStore.currentDependencyTracker = previousTracker;
+        for (const source of node._sources.keys()) {
+            if (!sources.has(source)) source._observers?.delete(node);
+        }
+        for (const source of sources.keys()) {
+            source._observers?.add(node);
+        }
+        node._sources = sources;
+    }
+}
+
+/**
+ * Stops `node` from being refreshed when its sources change.
+ */
+export function unlinkNode(node: ComputedNode) {
+    for (const source of node._sources.keys()) {
+        source._observers?.delete(node);
+    }
+    getGraphState().pending.delete(node);
+    unregisterDebugNode(node);
+}
@@ -1,6 +1,31 @@
 export * from "./ArraySubject";
 export * from "./ObjectSubject";
-export { effect } from "./effect";
+export * from "./MapSubject";
+export * from "./SetSubject";
+export * from "./CrdtSubject";
+export { createReplicaId, type CrdtEntry, type CrdtState } from "./rga";
+export * from "./crdt";
+export { batch, isBatching, onBatchEnd } from "./batch";
+export {
+    clearReactiveTrace,
+    disableReactiveDebug,
+    enableReactiveDebug,
+    getDebugId,
+    getReactiveDebugSnapshot,
+    getReactiveGraph,
+    getReactiveTrace,
+    isReactiveDebugEnabled,
+    setDebugName,
+    type ReactiveDebugOptions,
+    type ReactiveDebugSnapshot,
+    type ReactiveGraphNode,
+    type ReactiveNodeKind,
+    type ReactiveTraceEvent,
+} from "./debug";
+export type { DeepChange, DeepPath } from "./deep";
+export * from "./effect";
+export * from "./resource";
+export * from "./scope";
 export * from "./signal";
 export * from "./types";
 
@@ -0,0 +1,178 @@
+import { Subscription } from "rxjs";
+import { batch } from "./batch";
+import { effect } from "./effect";
+import { computed, signal, untracked } from "./signal";
+import { reactiveStore } from "./store";
+import type { ComputedSignal } from "./types";
+
+/**
+ * State of a resource:
+ * - `idle`: no load, because the source returned undefined. The value is back to
+ *   `initialValue` and the error is cleared
+ * - `loading`: a load is in progress
+ * - `resolved`: the last load succeeded
+ * - `error`: the last load failed
+ */
+export type ResourceStatus = 'idle' | 'loading' | 'resolved' | 'error';
+
+/**
+ * Parameters given to the loader of a resource
+ * @template T The type of the loaded value
+ * @template S The type of the source value
+ */
+export interface ResourceLoaderParams<T, S> {
+    /** The current value of the source */
+    source: S;
+    /** Aborted when the source changes, on reload and when the resource is disposed */
+    abortSignal: AbortSignal;
+    /** The value loaded before */
+    previous: T | undefined;
+}
+
+/**
+ * Options for creating a resource
+ * @template T The type of the loaded value
+ * @template S The type of the source value
+ */
+export interface ResourceOptions<T, S> {
+    /**
+     * Reactive function returning the parameters of the load. The resource
+     * loads again each time it changes, and stays idle while it returns
+     * undefined. Without source, the resource loads once.
+     */
+    source?: () => S | undefined;
+    /**
+     * Loads the value. The signals it reads are not tracked.
+     */
+    loader: (params: ResourceLoaderParams<T, S>) => Promise<T> | T;
+    /** The value until the first load resolves */
+    initialValue?: T;
+}
+
+/**
+ * Async value loaded from a source, exposed as signals.
+ * @template T The type of the loaded value
+ */
+export interface Resource<T> {
+    /**
+     * The last loaded value, kept while a new load is in progress or failed, and
+     * back to `initialValue` while the resource is idle
+     */
+    value: ComputedSignal<T | undefined>;
+    status: ComputedSignal<ResourceStatus>;
+    /** The error of the last load, undefined unless the status is `error` */
+    error: ComputedSignal<unknown>;
+    /** True while a load is in progress */
+    isLoading: ComputedSignal<boolean>;
+    /** Aborts the current load, if any, and loads again with the current source */
+    reload(): void;
+    /** Disposes the resource, and aborts the current load */
+    subscription: Subscription;
+}
+
+/**
+ * Creates a resource loading a value asynchronously each time its source
+ * changes. The previous load is aborted through its `abortSignal`, and its
+ * result is ignored.
+ * @template T The type of the loaded value
+ * @template S The type of the source value
+ * @param {ResourceOptions<T, S>} options - The source and the loader
+ * @returns {Resource<T>} The resource
+ *
+ * @example
+ * const userId = signal('u1');
+ * const user = resource({
+ *   source: () => userId(),
+ *   loader: ({ source, abortSignal }) =>
+ *     fetch(`/users/${source}`, { signal: abortSignal }).then((res) => res.json()),
+ * });
+ *
+ * const name = computed(() => user.value()?.name ?? 'Loading...');
+ */
+export function resource<T, S = undefined>(options: ResourceOptions<T, S>): Resource<T> {
+    const value = signal<T | undefined>(options.initialValue);
+    const status = signal<ResourceStatus>('idle');
+    const error = signal<unknown>(undefined);
+    let controller: AbortController | undefined;
+    let currentSource: S | undefined;
+
+    const abort = () => {
+        controller?.abort();
+        controller = undefined;
+    };
+
+    const load = () => {
+        abort();
+        if (options.source && currentSource === undefined) {
+            batch(() => {
+                value.set(options.initialValue);
+                error.set(undefined);
+                status.set('idle');
+            });
+            return;
+        }
+        const current = controller = new AbortController();
+        batch(() => {
+            status.set('loading');
+            error.set(undefined);
+        });
+        let result: Promise<T>;
+        try {
+            result = Promise.resolve(options.loader({
+                source: currentSource as S,
+                abortSignal: current.signal,
+                previous: untracked(value),
+            }));
+        } catch (err) {
+            result = Promise.reject(err);
+        }
+        result.then(
+            (loaded) => {
+                if (controller !== current) return;
+                controller = undefined;
+                batch(() => {
+                    value.set(loaded);
+                    status.set('resolved');
+                });
+            },
+            (err) => {
+                if (controller !== current) return;
+                controller = undefined;
+                batch(() => {
+                    error.set(err);
+                    status.set('error');
+                });
+            }
+        );
+    };
+
+    // Owned by the resource, not by the scope or the computation creating it
+    const { source, readers } = untracked(() => ({
+        source: effect(() => {
+            currentSource = options.source?.();
+            untracked(load);
+        }),
+        readers: {
+            value: computed(() => value()),
+            status: computed(() => status()),
+            error: computed(() => error()),
+            isLoading: computed(() => status() === 'loading'),
+        },
+    }));
+
+    const subscription = new Subscription(abort);
+    subscription.add(source.subscription);
+    for (const reader of Object.values(readers)) {
+        subscription.add(reader.subscription);
+    }
+
+    reactiveStore.currentSubscriptionsTracker?.(subscription);
+
+    return {
+        ...readers,
+        reload: () => {
+            if (!subscription.closed) load();
+        },
+        subscription,
+    };
+}
@@ -0,0 +1,237 @@
+/**
+ * Entry of an element of a CRDT sequence: the id of the element it was
+ * inserted after (`null` for the start), its value, and `1` once deleted.
+ * Deleted elements are kept, without their value, to place the elements
+ * inserted after them.
+ */
+export type CrdtEntry<T = any> = [origin: string | null, value: T | null, deleted?: 1];
+
+/**
+ * State of a CRDT sequence, or part of it: the entries by element id. Element
+ * ids are `<clock>@<replicaId>`.
+ */
+export type CrdtState<T = any> = Record<string, CrdtEntry<T>>;
+
+interface Element<T> {
+  id: string;
+  clock: number;
+  replica: string;
+  origin: string | null;
+  value: T | null;
+  deleted: boolean;
+}
+
+// Replica of the initial values
+const INITIAL_REPLICA = '0';
+const ID_PATTERN = /^([1-9]\d*)@([^.@]+)$/;
+// Entries kept while waiting for their origin, so that made-up origins cannot grow the memory without bound
+const MAX_PENDING_ENTRIES = 1000;
+
+/**
+ * Creates a random replica id
+ */
+export function createReplicaId(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let id = '';
+  for (let i = 0; i < 8; i++) {
+    id += chars[Math.floor(Math.random() * chars.length)];
+  }
+  return id;
+}
+
+/**
+ * Replicated Growable Array: a sequence edited concurrently by several
+ * replicas, whose states converge once they merged the same entries, in any
+ * order.
+ *
+ * Each element is inserted after an origin element. Elements inserted after
+ * the same origin are ordered by their id, the newest (highest Lamport clock)
+ * first, so concurrent insertions at the same place are never interleaved
+ * differently on two replicas.
+ * @internal
+ */
+export class RgaSequence<T> {
+  private elements: Element<T>[] = [];
+  private byId = new Map<string, Element<T>>();
+  // Entries waiting for their origin, by origin id
+  private pending = new Map<string, [string, CrdtEntry<T>][]>();
+  private pendingCount = 0;
+  private clock = 0;
+
+  /**
+   * @param replicaId Id of this replica in the ids of the elements it inserts
+   * @param initialValues Values every replica starts with. Their elements get
+   * the same ids on all replicas (replica `0`), so they are not duplicated
+   * when the replicas merge their states.
+   */
+  constructor(public readonly replicaId: string = createReplicaId(), initialValues: T[] = []) {
+    if (!/^[^.@]+$/.test(replicaId) || replicaId === INITIAL_REPLICA) {
+      throw new Error(`Invalid replica id "${replicaId}": it cannot be empty, "0", or contain "." or "@"`);
+    }
+    let origin: string | null = null;
+    initialValues.forEach((value, index) => {
+      const id = `${index + 1}@${INITIAL_REPLICA}`;
+      this.integrate(id, [origin, value], {});
+      origin = id;
+    });
+  }
+
+  /**
+   * Returns the values of the elements not deleted, in order
+   */
+  values(): T[] {
+    const values: T[] = [];
+    for (const element of this.elements) {
+      if (!element.deleted) values.push(element.value as T);
+    }
+    return values;
+  }
+
+  /**
+   * Inserts values before the visible element at `index`
+   * @returns {CrdtState<T>} The entries of the inserted elements
+   */
+  insert(index: number, values: T[]): CrdtState<T> {
+    const changes: CrdtState<T> = {};
+    let origin = index > 0 ? this.visibleAt(index - 1)?.id ?? this.lastVisibleId() : null;
+    for (const value of values) {
+      const id = `${++this.clock}@${this.replicaId}`;
+      const entry: CrdtEntry<T> = [origin, value];
+      this.integrate(id, entry, changes);
+      origin = id;
+    }
+    return changes;
+  }
+
+  /**
+   * Deletes `count` visible elements from `index`
+   * @returns {CrdtState<T>} The entries of the deleted elements
+   */
+  delete(index: number, count: number): CrdtState<T> {
+    const changes: CrdtState<T> = {};
+    const removed: Element<T>[] = [];
+    let visible = 0;
+    for (const element of this.elements) {
+      if (element.deleted) continue;
+      if (visible >= index && removed.length < count) removed.push(element);
+      visible++;
+    }
+    for (const element of removed) {
+      element.deleted = true;
+      element.value = null;
+      changes[element.id] = this.entryOf(element);
+    }
+    return changes;
+  }
+
+  /**
+   * Merges entries created by any replica. Entries already merged are
+   * ignored, and entries whose origin is unknown wait for it. At most 1000
+   * entries wait: beyond, the oldest waiting entries are dropped.
+   * @returns {CrdtState<T>} The entries that changed the sequence
+   */
+  merge(state: CrdtState<T>): CrdtState<T> {
+    const changes: CrdtState<T> = {};
+    for (const [id, entry] of Object.entries(state ?? {})) {
+      if (!ID_PATTERN.test(id) || !Array.isArray(entry)) continue;
+      this.integrate(id, entry, changes);
+    }
+    return changes;
+  }
+
+  /**
+   * Returns the entries of every element, deleted ones included
+   */
+  getState(): CrdtState<T> {
+    const state: CrdtState<T> = {};
+    for (const element of this.elements) {
+      state[element.id] = this.entryOf(element);
+    }
+    return state;
+  }
+
+  private integrate(id: string, entry: CrdtEntry<T>, changes: CrdtState<T>) {
+    const [origin, value, deleted] = entry;
+    const existing = this.byId.get(id);
+    if (existing) {
+      if (deleted && !existing.deleted) {
+        existing.deleted = true;
+        existing.value = null;
+        changes[id] = this.entryOf(existing);
+      }
+      return;
+    }
+    if (origin !== null && !this.byId.has(origin)) {
+      if (this.pendingCount >= MAX_PENDING_ENTRIES) {
+        this.dropOldestPending();
+      }
+      const waiting = this.pending.get(origin) ?? [];
+      waiting.push([id, entry]);
+      this.pending.set(origin, waiting);
+      this.pendingCount++;
+      return;
+    }
+
+    const [, clock, replica] = id.match(ID_PATTERN)!;
+    const element: Element<T> = {
+      id,
+      clock: Number(clock),
+      replica,
+      origin,
+      value: deleted ? null : value,
+      deleted: !!deleted,
+    };
+    let position = origin === null ? 0 : this.elements.indexOf(this.byId.get(origin)!) + 1;
+    // Newer elements inserted after the same origin, and the elements inserted after them, come first
+    while (position < this.elements.length && this.isAfter(this.elements[position], element)) {
+      position++;
+    }
+    this.elements.splice(position, 0, element);
+    this.byId.set(id, element);
+    this.clock = Math.max(this.clock, element.clock);
+    changes[id] = this.entryOf(element);
+
+    const waiting = this.pending.get(id);
+    if (waiting) {
+      this.pending.delete(id);
+      this.pendingCount -= waiting.length;
+      for (const [childId, childEntry] of waiting) {
+        this.integrate(childId, childEntry, changes);
+      }
+    }
+  }
+
+  private dropOldestPending() {
+    const [origin, waiting] = this.pending.entries().next().value!;
+    waiting.shift();
+    this.pendingCount--;
+    if (waiting.length === 0) {
+      this.pending.delete(origin);
+    }
+  }
+
+  private isAfter(a: Element<T>, b: Element<T>) {
+    return a.clock > b.clock || (a.clock === b.clock && a.replica > b.replica);
+  }
+
+  private visibleAt(index: number): Element<T> | undefined {
+    let visible = 0;
+    for (const element of this.elements) {
+      if (element.deleted) continue;
+      if (visible === index) return element;
+      visible++;
+    }
+    return undefined;
+  }
+
+  private lastVisibleId(): string | null {
+    for (let i = this.elements.length - 1; i >= 0; i--) {
+      if (!this.elements[i].deleted) return this.elements[i].id;
+    }
+    return null;
+  }
+
+  private entryOf(element: Element<T>): CrdtEntry<T> {
+    return element.deleted ? [element.origin, null, 1] : [element.origin, element.value];
+  }
+}
@@ -0,0 +1,107 @@
+import { Subscription } from "rxjs";
+import { reactiveStore } from "./store";
+
+/**
+ * Owner of the effects, computed signals and cleanups created inside `run()`.
+ */
+export interface EffectScope {
+    /**
+     * False once the scope is stopped.
+     */
+    readonly active: boolean;
+    /**
+     * Runs `fn` inside the scope: what it creates is disposed when the scope stops.
+     * @returns The value returned by `fn`, or undefined if the scope is stopped
+     */
+    run<T>(fn: () => T): T | undefined;
+    /**
+     * Disposes everything created inside the scope, in creation order.
+     */
+    stop(): void;
+}
+
+/**
+ * Creates a scope owning the effects, computed signals and linked signals
+ * created inside its `run()`, as well as the cleanups registered with
+ * `onCleanup()`. Stopping the scope disposes them all.
+ *
+ * A scope created inside another scope (or inside an effect) is stopped with
+ * it, unless `detached` is true.
+ * @param {boolean} [detached=false] - Do not attach the scope to the current owner
+ * @returns {EffectScope} The scope
+ *
+ * @example
+ * const scope = effectScope();
+ * scope.run(() => {
+ *   const double = computed(() => count() * 2);
+ *   effect(() => console.log(double()));
+ * });
+ *
+ * scope.stop(); // the computed and the effect are disposed
+ */
+export function effectScope(detached = false): EffectScope {
+    const subscription = new Subscription();
+
+    if (!detached) {
+        reactiveStore.currentSubscriptionsTracker?.(subscription);
+    }
+
+    return {
+        get active() {
+            return !subscription.closed;
+        },
+        run<T>(fn: () => T): T | undefined {
+            if (subscription.closed) return undefined;
+            const previousOwner = reactiveStore.currentSubscriptionsTracker;
+            reactiveStore.currentSubscriptionsTracker = (child: Subscription) => subscription.add(child);
+            try {
+                return fn();
+            } finally {
+                reactiveStore.currentSubscriptionsTracker = previousOwner;
+            }
+        },
+        stop() {
+            subscription.unsubscribe();
+        },
+    };
+}
+
+/**
+ * Runs `fn` in a new detached scope, without tracking the signals it reads.
+ * The scope lives until the `dispose` function given to `fn` is called.
+ * @template T
+ * @param {(dispose: () => void) => T} fn - The function creating the reactive graph
+ * @returns {T} The value returned by `fn`
+ *
+ * @example
+ * const dispose = createRoot((dispose) => {
+ *   effect(() => render(state()));
+ *   return dispose;
+ * });
+ */
+export function createRoot<T>(fn: (dispose: () => void) => T): T {
+    const scope = effectScope(true);
+    const previousTracker = reactiveStore.currentDependencyTracker;
+    reactiveStore.currentDependencyTracker = null;
+    try {
+        return scope.run(() => fn(() => scope.stop())) as T;
+    } finally {
+        reactiveStore.currentDependencyTracker = previousTracker;
+    }
+}
+
+/**
+ * Registers a function called when the current owner is disposed: before the
+ * next run of the current effect and when it is disposed, or when the current
+ * scope stops. Outside an effect or a scope, the function is never called.
+ * @param {() => void} fn - The cleanup function
+ *
+ * @example
+ * effect(() => {
+ *   const id = setInterval(tick, interval());
+ *   onCleanup(() => clearInterval(id));
+ * });
+ */
+export function onCleanup(fn: () => void): void {
+    reactiveStore.currentSubscriptionsTracker?.(new Subscription(fn));
+}
@@ -1,71 +1,12 @@
-import { BehaviorSubject, combineLatest, filter, finalize, map, Observable } from "rxjs";
+import { BehaviorSubject, filter, Subscription } from "rxjs";
 import { ArraySubject } from "./ArraySubject";
 import { ObjectSubject } from "./ObjectSubject";
-import type { ComputedSignal, Signal, WritableArraySignal, WritableObjectSignal, WritableSignal } from "./types";
-
-/**
- * Creates a global store that works across all JavaScript environments
- * @returns The global reactive store singleton
- * 
- * @example
- * const store = getGlobalReactiveStore();
- * store.currentDependencyTracker = myTrackerFunction;
- */
-const getGlobalReactiveStore = () => {
-  const globalKey = '__REACTIVE_STORE__';
-  
-  // Use globalThis (ES2020) which is supported in modern environments
-  // including browsers, Node.js and Edge environments
-  if (typeof globalThis !== 'undefined') {
-    if (!globalThis[globalKey]) {
-      globalThis[globalKey] = {
-        currentDependencyTracker: null,
-        currentSubscriptionsTracker: null
-      };
-    }
-    return globalThis[globalKey];
-  }
-  
-  // Fallback for older environments
-  let globalObj: any;
-  
-  // Browser
-  if (typeof window !== 'undefined') {
-    globalObj = window;
-  } 
-  // Node.js - avoid using 'global' directly to prevent type errors
-  else if (typeof process !== 'undefined' && process.versions && process.versions.node) {
-    // In Node.js, 'global' is equivalent to globalThis
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    globalObj = (Function('return this')()) as any;
-  }
-  // Web Worker or other environments
-  else if (typeof self !== 'undefined') {
-    globalObj = self;
-  }
-  // Really unusual environment
-  else {
-    // Create a local object as a last resort
-    // This will work in the current context but will not be shared
-    console.warn('Unable to find global object, using local instance');
-    return {
-      currentDependencyTracker: null,
-      currentSubscriptionsTracker: null
-    };
-  }
-  
-  if (!globalObj[globalKey]) {
-    globalObj[globalKey] = {
-      currentDependencyTracker: null,
-      currentSubscriptionsTracker: null
-    };
-  }
-  
-  return globalObj[globalKey];
-};
-
-// Get the global store only once
-const reactiveStore = getGlobalReactiveStore();
+import { MapSubject } from "./MapSubject";
+import { SetSubject } from "./SetSubject";
+import type { ComputedSignal, Signal, WritableArraySignal, WritableMapSignal, WritableObjectSignal, WritableSetSignal, WritableSignal } from "./types";
+import { reactiveStore } from "./store";
+import { batchable } from "./batch";
+import { initComputedNode, initSourceNode, notifyChange, refreshNode, trackSources, unlinkNode } from "./graph";
 
 // Replace module global variables with store access
 const trackDependency = (signal) => {
@@ -91,6 +32,20 @@ export interface SignalOptions<T> {
      * const data = signal(['test'], { equal: _.isEqual });
      */
     equal?: (a: T, b: T) => boolean;
+    /**
+     * For object and array signals, also notify the changes made in place to the
+     * nested plain objects and arrays. Their change events carry the full `path`
+     * of the changed value, which `@signe/sync` uses as sync path.
+     *
+     * @example
+     * const player = signal({ stats: { hp: 10 } }, { deep: true });
+     * player().stats.hp = 3; // { type: 'update', key: 'stats', path: ['stats', 'hp'], value: 3 }
+     */
+    deep?: boolean;
+    /**
+     * Name of the signal in the debug graph and trace (see `enableReactiveDebug`)
+     */
+    debugName?: string;
 }
 
 /**
@@ -98,7 +53,7 @@ export interface SignalOptions<T> {
  * @template T The type of the signal value
  * @param {T} defaultValue The initial value of the signal
  * @param {SignalOptions<T>} [options] Optional configuration for the signal
- * @returns {WritableSignal<T> | WritableArraySignal<T> | WritableObjectSignal<T>} A writable signal
+ * @returns {WritableSignal<T> | WritableArraySignal<T> | WritableObjectSignal<T> | WritableMapSignal<K, V> | WritableSetSignal<T>} A writable signal
  * 
  * @example
  * // Basic usage
@@ -109,21 +64,32 @@ export interface SignalOptions<T> {
  * import _ from 'lodash';
  * const data = signal(['test'], { equal: _.isEqual });
  */
+export function signal<T extends Map<any, any>>(defaultValue: T, options?: SignalOptions<T>): T extends Map<infer K, infer V> ? WritableMapSignal<K, V> : never;
+export function signal<T extends Set<any>>(defaultValue: T, options?: SignalOptions<T>): T extends Set<infer V> ? WritableSetSignal<V> : never;
 export function signal<T extends any[]>(defaultValue: T, options?: SignalOptions<T>): WritableArraySignal<T>;
+export function signal<T extends Date>(defaultValue: T, options?: SignalOptions<T>): WritableSignal<T>;
 export function signal<T extends Record<string, any>>(defaultValue: T, options?: SignalOptions<T>): WritableObjectSignal<T>;
 export function signal<T>(defaultValue: T, options?: SignalOptions<T>): WritableSignal<T>;
 export function signal<T = any>(
     defaultValue: T,
     options?: SignalOptions<T>
-): T extends Array<any> ? WritableArraySignal<T> :
+): T extends Map<infer K, infer V> ? WritableMapSignal<K, V> :
+    T extends Set<infer V> ? WritableSetSignal<V> :
+    T extends Array<any> ? WritableArraySignal<T> :
+    T extends Date ? WritableSignal<T> :
     T extends Record<string, any> ? WritableObjectSignal<T> :
     WritableSignal<T> {
     
     let subject;
-    if (Array.isArray(defaultValue)) {
-        subject = new ArraySubject(defaultValue);
-    } else if (typeof defaultValue === 'object' && defaultValue !== null) {
-        subject = new ObjectSubject(defaultValue);
+    if (defaultValue instanceof Map) {
+        subject = new MapSubject(defaultValue);
+    } else if (defaultValue instanceof Set) {
+        subject = new SetSubject(defaultValue);
+    } else if (Array.isArray(defaultValue)) {
+        subject = new ArraySubject(defaultValue, { deep: options?.deep });
+    } else if (typeof defaultValue === 'object' && defaultValue !== null && !(defaultValue instanceof Date)) {
+        // Dates are held as is: their methods fail on a proxy
+        subject = new ObjectSubject(defaultValue, { deep: options?.deep });
     } else {
         subject = new BehaviorSubject(defaultValue);
     }
@@ -133,6 +99,10 @@ export function signal<T = any>(
             return subject.items;
         } else if (subject instanceof ObjectSubject) {
             return subject.obj;
+        } else if (subject instanceof MapSubject) {
+            return subject.map;
+        } else if (subject instanceof SetSubject) {
+            return subject.set;
         }
         return subject.value;
     };
@@ -161,6 +131,10 @@ export function signal<T = any>(
                 subject.items = value;
             } else if (subject instanceof ObjectSubject) {
                 subject.obj = value;
+            } else if (subject instanceof MapSubject) {
+                subject.map = value;
+            } else if (subject instanceof SetSubject) {
+                subject.set = value;
             } else {
                 subject.next(value);
             }
@@ -179,6 +153,10 @@ export function signal<T = any>(
             subject.next({ type: 'init', items: subject.items });
         } else if (subject instanceof ObjectSubject) {
             subject.next({ type: 'init', value: subject.obj });
+        } else if (subject instanceof MapSubject) {
+            subject.next({ type: 'init', value: subject.map });
+        } else if (subject instanceof SetSubject) {
+            subject.next({ type: 'init', value: subject.set });
         } else {
             subject.next(subject.value);
         }
@@ -194,8 +172,24 @@ export function signal<T = any>(
         fn.set(updatedValue);
     };
 
+    initSourceNode(fn, 'signal', options?.debugName);
+    let subscribed = false;
+    subject.subscribe(() => {
+        // Skip the current value replayed on subscription and the changes made while frozen
+        if (subscribed && !fn._isFrozen) {
+            notifyChange(fn);
+        }
+    });
+    subscribed = true;
+
     fn.observable = subject.asObservable().pipe(
-        filter(() => !fn._isFrozen)
+        filter(() => !fn._isFrozen),
+        // Array, object, map and set signals emit change events: they are all delivered, in order
+        batchable(
+            subject instanceof ArraySubject || subject instanceof ObjectSubject ||
+            subject instanceof MapSubject || subject instanceof SetSubject ? 'all' : 'latest',
+            fn
+        )
     );
     fn._subject = subject;
 
@@ -222,6 +216,11 @@ export function isComputed(value: any): boolean {
 
 /**
  * Creates a computed signal based on a compute function.
+ *
+ * The value is recomputed when the signals read by the function change, at
+ * most once per change, after the computed signals it depends on: in a diamond
+ * (`a -> b, c -> d`), `d` recomputes once and never sees `b` and `c` out of
+ * sync. Dependencies are tracked again on each computation.
  * @template T The type of the computed value
  * @param {() => T} computeFunction The function to compute the value
  * @param {() => void} [disposableFn] Optional function to be called when the computed signal is disposed
@@ -229,64 +228,47 @@ export function isComputed(value: any): boolean {
  */
 export function computed<T = any>(computeFunction: () => T, disposableFn?: () => void): ComputedSignal<T> {
     const dependencies: Set<WritableSignal<any>> = new Set();
-    let init = true;
-    let lastComputedValue;
-    
-    // Sauvegarder l'état précédent
-    const previousTracker = reactiveStore.currentDependencyTracker;
-    
-    // Définir notre tracker temporaire
-    reactiveStore.currentDependencyTracker = (signal) => {
-        dependencies.add(signal);
-    };
-    
-    lastComputedValue = computeFunction();
-    if (computeFunction['isEffect']) {
-        disposableFn = lastComputedValue as any;
-    }
-    
-    // Restaurer l'état précédent
-    reactiveStore.currentDependencyTracker = previousTracker;
-    
-    // For computed signals without dependencies (primitive values), create a BehaviorSubject
-    // that emits immediately, so combineLatest can work correctly
-    const observables = [...dependencies].map(dep => {
-        // Check if it's a computed signal without dependencies (primitive computed)
-        if (isComputed(dep) && 'dependencies' in dep) {
-            const computedDep = dep as unknown as ComputedSignal<any>;
-            if (computedDep.dependencies.size === 0) {
-                // Create a BehaviorSubject that emits the current value immediately
-                return new BehaviorSubject(computedDep()).asObservable();
-            }
-        }
-        // For regular signals or computed with dependencies, use their observable
-        return dep.observable;
-    });
-    
-    const computedObservable = combineLatest(observables)
-        .pipe(
-            filter(() => !init),
-            map(() => computeFunction()),
-            finalize(() => disposableFn?.())
-        )
+    let disposed = false;
+    let lastComputedValue: T;
+    let subject: BehaviorSubject<T>;
 
-    const fn = function () {
+    const fn: any = function () {
+        if (!disposed) fn._refresh();
         trackDependency(fn);
         return lastComputedValue;
     };
 
-    fn.observable = computedObservable;
+    const compute = () => {
+        const value = trackSources(fn, computeFunction);
+        dependencies.clear();
+        for (const dependency of fn._sources.keys()) {
+            dependencies.add(dependency);
+        }
+        return value;
+    };
 
-    fn.subscription = computedObservable.subscribe(value => {
-        lastComputedValue = value;
-    });
+    initComputedNode(fn, () => refreshNode(fn, () => {
+        const value = compute();
+        if (value !== lastComputedValue) {
+            lastComputedValue = value;
+            fn._version++;
+            subject.next(value);
+        }
+    }));
+
+    lastComputedValue = compute();
+    subject = new BehaviorSubject(lastComputedValue);
 
+    fn.observable = subject.asObservable().pipe(batchable('latest', fn));
     fn.dependencies = dependencies;
+    fn.subscription = new Subscription(() => {
+        disposed = true;
+        unlinkNode(fn);
+        disposableFn?.();
+    });
 
     reactiveStore.currentSubscriptionsTracker?.(fn.subscription);
 
-    init = false
-
     return fn
 }
 
@@ -427,7 +409,6 @@ export function linkedSignal<TSource, TValue>(
     simpleOptions?: LinkedSignalSimpleOptions<TValue>
 ): LinkedSignal<TValue> {
     const dependencies: Set<WritableSignal<any>> = new Set();
-    let init = true;
     let lastComputedValue: TValue;
     let computeFunction: () => TValue;
     let sourceSignal: Signal<TSource> | (() => TSource) | undefined;
@@ -435,11 +416,7 @@ export function linkedSignal<TSource, TValue>(
     let equalFn: ((a: TValue, b: TValue) => boolean) | undefined;
     let previousValue: LinkedSignalPrevious<TSource, TValue> | undefined;
     let isOverridden = false;
-    let overriddenValue: TValue | undefined;
-    let lastComputedBeforeOverride: TValue | undefined;
-    // Track dependency versions to know when to drop an override
-    let depVersion = 0;
-    let overrideDepVersion: number | null = null;
+    let disposed = false;
 
     // Determine the mode
     if (typeof computationOrOptions === 'function') {
@@ -501,168 +478,56 @@ export function linkedSignal<TSource, TValue>(
         }
     }
 
-    // Save previous tracker state
-    const previousTracker = reactiveStore.currentDependencyTracker;
-    
-    // Set our temporary tracker
-    reactiveStore.currentDependencyTracker = (signal) => {
-        dependencies.add(signal);
-    };
-    
-    // Compute initial value
-    if (sourceSignal && typeof sourceSignal === 'function' && !isSignal(sourceSignal)) {
-        // Source is a function, track dependencies from the computation function
-        lastComputedValue = computeFunction();
-        lastComputedBeforeOverride = lastComputedValue;
-    } else if (sourceSignal && isSignal(sourceSignal)) {
-        // Source is a signal, track it
-        dependencies.add(sourceSignal as WritableSignal<TSource>);
-        lastComputedValue = computeFunction();
-        lastComputedBeforeOverride = lastComputedValue;
-    } else {
-        // Simple mode, track dependencies from computation function
-        lastComputedValue = computeFunction();
-        lastComputedBeforeOverride = lastComputedValue;
-    }
-    
-    // Restore previous tracker state
-    reactiveStore.currentDependencyTracker = previousTracker;
-    
-    // Create a BehaviorSubject to manage the linked signal's value and allow manual overrides
-    const subject = new BehaviorSubject<TValue>(lastComputedValue);
-    
-    // For linked signals without dependencies (primitive values), create a BehaviorSubject
-    // that emits immediately, so combineLatest can work correctly
-    const observables = [...dependencies].map(dep => {
-        // Check if it's a computed signal without dependencies (primitive computed)
-        if (isComputed(dep) && 'dependencies' in dep) {
-            const computedDep = dep as unknown as ComputedSignal<any>;
-            if (computedDep.dependencies.size === 0) {
-                // Create a BehaviorSubject that emits the current value immediately
-                return new BehaviorSubject(computedDep()).asObservable();
-            }
-        }
-        // For regular signals or computed with dependencies, use their observable
-        return dep.observable;
-    });
-    
-    // Create observable that recomputes when dependencies change
-    let linkedObservable: Observable<TValue>;
-    if (observables.length > 0) {
-        linkedObservable = combineLatest(observables)
-            .pipe(
-                filter(() => !init),
-                map(() => {
-                    const computed = computeFunction();
-                    // Use custom equality if provided
-                    if (equalFn) {
-                        if (!equalFn(lastComputedValue, computed)) {
-                            lastComputedValue = computed;
-                            isOverridden = false; // Reset override when source changes
-                        }
-                    } else {
-                        if (lastComputedValue !== computed) {
-                            lastComputedValue = computed;
-                            isOverridden = false; // Reset override when source changes
-                        }
-                    }
-                    return lastComputedValue;
-                })
-            );
-    } else {
-        // No dependencies, create an observable that emits when set() is called
-        linkedObservable = subject.asObservable().pipe(
-            filter(() => !init)
-        );
-    }
-
     const fn: any = function () {
+        if (!disposed) fn._refresh();
         trackDependency(fn);
 
-        // If we have an override and dependencies, check whether sources changed (using depVersion)
-        if (isOverridden && dependencies.size > 0) {
-            if (overrideDepVersion !== depVersion) {
-                // Sources changed since the override -> recompute and drop override
-                const computed = computeFunction();
-                isOverridden = false;
-                overriddenValue = undefined;
-                lastComputedValue = computed;
-                lastComputedBeforeOverride = computed;
-                overrideDepVersion = null;
-                return computed;
-            }
-            // Sources unchanged, keep override
-            return overriddenValue!;
-        }
-
-        // If overridden and no dependencies, simply return the overridden value
-        if (isOverridden) {
-            return overriddenValue!;
+        // Without dependencies, the value is recomputed on each read (unless overridden)
+        // so that external values updated are reflected
+        if (!isOverridden && dependencies.size === 0) {
+            lastComputedValue = untracked(computeFunction);
         }
+        return lastComputedValue;
+    };
 
-        // If there are no dependencies, recompute the value on each read
-        // This ensures that external values updated are reflected
-        if (dependencies.size === 0) {
-            const computed = computeFunction();
-            lastComputedValue = computed;
-            lastComputedBeforeOverride = computed;
+    const compute = () => {
+        const value = trackSources(fn, computeFunction);
+        dependencies.clear();
+        for (const dependency of fn._sources.keys()) {
+            dependencies.add(dependency);
         }
-        return lastComputedValue;
+        return value;
     };
 
-    // Combine dependency changes with manual overrides
-    fn.observable = new Observable<TValue>(observer => {
-        // Subscribe to dependency changes
-        const depSubscription = linkedObservable.subscribe(value => {
-            if (dependencies.size > 0) {
-                // Real dependency change: reset override
-                depVersion++;
-                isOverridden = false;
-                overrideDepVersion = null;
-                lastComputedValue = value;
-                lastComputedBeforeOverride = value;
-            } else {
-                // No dependencies: this is likely a manual override flowing through
-                lastComputedValue = value;
-                lastComputedBeforeOverride = value;
-            }
-            observer.next(value);
-        });
-
-        // Subscribe to manual overrides via subject (only if no dependencies)
-        let subjectSubscription: any;
-        if (dependencies.size === 0) {
-            subjectSubscription = subject.pipe(
-                filter(() => !init)
-            ).subscribe(value => {
-                observer.next(value);
-            });
+    initComputedNode(fn, () => refreshNode(fn, () => {
+        const value = compute();
+        // A change of the sources drops the override. The equality function compares
+        // the new value with the current one, which may be the overridden value.
+        isOverridden = false;
+        const changed = equalFn ? !equalFn(lastComputedValue, value) : lastComputedValue !== value;
+        if (changed) {
+            lastComputedValue = value;
+            fn._version++;
+            subject.next(value);
         }
+    }), 'linkedSignal');
 
-        // Initial value
-        observer.next(lastComputedValue);
+    lastComputedValue = compute();
 
-        return () => {
-            depSubscription.unsubscribe();
-            if (subjectSubscription) {
-                subjectSubscription.unsubscribe();
-            }
-        };
-    });
+    // Emits the value after each source change or override
+    const subject = new BehaviorSubject<TValue>(lastComputedValue);
 
-    fn.subscription = fn.observable.subscribe(() => {
-        // Subscription is handled in the observable creation
+    fn.observable = subject.asObservable().pipe(batchable('latest', fn));
+    fn.subscription = new Subscription(() => {
+        disposed = true;
+        unlinkNode(fn);
     });
-
     fn.dependencies = dependencies;
     fn._subject = subject;
 
     // Always add setter to allow overriding the computed value
     fn.set = (value: TValue) => {
-        // Store the current computed value before override (only if not already overridden)
         if (!isOverridden) {
-            lastComputedBeforeOverride = lastComputedValue;
-            overrideDepVersion = depVersion;
             // Update previousValue to reflect the manual override so future computations use it
             if (computationFn && sourceSignal) {
                 const sourceValue = untracked(() => {
@@ -679,15 +544,13 @@ export function linkedSignal<TSource, TValue>(
             }
         }
         isOverridden = true;
-        overriddenValue = value;
         lastComputedValue = value;
         subject.next(value);
+        notifyChange(fn);
     };
 
     reactiveStore.currentSubscriptionsTracker?.(fn.subscription);
 
-    init = false;
-
     return fn as LinkedSignal<TValue>;
 }
 
@@ -0,0 +1,63 @@
+/**
+ * Creates a global store that works across all JavaScript environments
+ * @returns The global reactive store singleton
+ * 
+ * @example
+ * const store = getGlobalReactiveStore();
+ * store.currentDependencyTracker = myTrackerFunction;
+ */
+const getGlobalReactiveStore = () => {
+  const globalKey = '__REACTIVE_STORE__';
+  
+  // Use globalThis (ES2020) which is supported in modern environments
+  // including browsers, Node.js and Edge environments
+  if (typeof globalThis !== 'undefined') {
+    if (!globalThis[globalKey]) {
+      globalThis[globalKey] = {
+        currentDependencyTracker: null,
+        currentSubscriptionsTracker: null
+      };
+    }
+    return globalThis[globalKey];
+  }
+  
+  // Fallback for older environments
+  let globalObj: any;
+  
+  // Browser
+  if (typeof window !== 'undefined') {
+    globalObj = window;
+  } 
+  // Node.js - avoid using 'global' directly to prevent type errors
+  else if (typeof process !== 'undefined' && process.versions && process.versions.node) {
+    // In Node.js, 'global' is equivalent to globalThis
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    globalObj = (Function('return this')()) as any;
+  }
+  // Web Worker or other environments
+  else if (typeof self !== 'undefined') {
+    globalObj = self;
+  }
+  // Really unusual environment
+  else {
+    // Create a local object as a last resort
+    // This will work in the current context but will not be shared
+    console.warn('Unable to find global object, using local instance');
+    return {
+      currentDependencyTracker: null,
+      currentSubscriptionsTracker: null
+    };
+  }
+  
+  if (!globalObj[globalKey]) {
+    globalObj[globalKey] = {
+      currentDependencyTracker: null,
+      currentSubscriptionsTracker: null
+    };
+  }
+  
+  return globalObj[globalKey];
+};
+
+// Get the global store only once
+export const reactiveStore = getGlobalReactiveStore();
@@ -1,6 +1,10 @@
 import { Observable, Subscription } from 'rxjs';
 import { ArrayChange, ArraySubject } from './ArraySubject';
 import { ObjectChange, ObjectSubject } from "./ObjectSubject";
+import { MapChange, MapSubject } from './MapSubject';
+import { SetChange, SetSubject } from './SetSubject';
+import { CrdtChange, CrdtSubject } from './CrdtSubject';
+import { CrdtState } from './rga';
 
 interface BaseWritableSignal<T = any> {
     (): T;
@@ -26,6 +30,43 @@ export interface WritableObjectSignal<T = any> extends BaseWritableSignal<T> {
     _subject: ObjectSubject<any>;
 }
 
+export interface WritableMapSignal<K = any, V = any> extends BaseWritableSignal<Map<K, V>> {
+    observable: Observable<MapChange<K, V>>;
+    _subject: MapSubject<K, V>;
+}
+
+export interface WritableSetSignal<T = any> extends BaseWritableSignal<Set<T>> {
+    observable: Observable<SetChange<T>>;
+    _subject: SetSubject<T>;
+}
+
+interface BaseCrdtSignal<V, T> {
+    (): V;
+    /** Deletes `count` values (or characters) from `index` */
+    delete(index: number, count?: number): void;
+    /** Merges entries received from other replicas. Returns true if something changed. */
+    merge(entries: CrdtState<T>): boolean;
+    /** Returns the entries of every element, to send the whole sequence to another replica */
+    getState(): CrdtState<T>;
+    readonly replicaId: string;
+    observable: Observable<CrdtChange<T>>;
+    _subject: CrdtSubject<T>;
+}
+
+export interface WritableListSignal<T = any> extends BaseCrdtSignal<T[], T> {
+    insert(index: number, ...values: T[]): void;
+    push(...values: T[]): void;
+    /** Replaces the values, as the edits of the values that differ */
+    set(values: T[]): void;
+}
+
+export interface WritableTextSignal extends BaseCrdtSignal<string, string> {
+    insert(index: number, text: string): void;
+    append(text: string): void;
+    /** Replaces the text, as the edits of the characters that differ */
+    set(text: string): void;
+}
+
 export interface ComputedSignal<T = any> {
     (): T;
     observable: Observable<T>;
@@ -453,8 +453,10 @@ function normalizeStubPath(path: string) {
   return path.startsWith("/") ? path : `/${path}`;
 }
 
+// PartySocket sends its `id` option as `_pk`, and keeps it across its reconnects
 function getConnectionIdFromUrl(url: string) {
-  const requestedId = new URL(url).searchParams.get("id")?.trim();
+  const { searchParams } = new URL(url);
+  const requestedId = (searchParams.get("id") ?? searchParams.get("_pk"))?.trim();
   return requestedId || undefined;
 }
 
@@ -1,5 +1,6 @@
 import type * as Party from "./types/party"
 import type { z } from "zod"
+import type { RoomHistoryOptions } from "./history"
 type GuardFn = (sender: Party.Connection, value: any | Party.Request, room: Party.Room) => boolean | Promise<boolean | Response>;
 type RoomGuardFn = (conn: Party.Connection, ctx: Party.ConnectionContext, room: Party.Room) => boolean | Promise<boolean | Response>;
 
@@ -15,6 +16,38 @@ export function Action(name: string, bodyValidation?: z.ZodSchema) {
   };
 }
 
+/**
+ * Sends the value returned by the decorated method to all the clients as the
+ * event `name`, received with `conn.events.on(name, cb)`. Nothing is sent when
+ * the method returns `undefined`; async methods send the resolved value. Use
+ * `$emit()` to send an event to some users only.
+ * @param name Name of the event
+ *
+ * @example
+ * ```ts
+ * @Event("chat")
+ * chat(from: Player, text: string) {
+ *   return { from: from.id, text };
+ * }
+ *
+ * @Action("say")
+ * say(player: Player, { text }: { text: string }) {
+ *   this.chat(player, text);
+ * }
+ * ```
+ */
+export function Event(name: string) {
+  return function (target: any, propertyKey: string) {
+    if (!target.constructor._eventMetadata) {
+      target.constructor._eventMetadata = new Map();
+    }
+    target.constructor._eventMetadata.set(propertyKey, {
+      key: propertyKey,
+      name,
+    });
+  };
+}
+
 /**
  * Fallback decorator for handling websocket messages whose action
  * does not match any registered @Action decorator.
@@ -27,6 +60,36 @@ export function UnhandledAction() {
   };
 }
 
+/**
+ * Runs the decorated method at a fixed rate while the room has connections.
+ * The method receives the step duration in milliseconds and the step number:
+ * `(dt: number, tick: number)`. Signal changes made during a step are sent
+ * to the clients as a single sync packet; for an async method, when the
+ * returned promise settles.
+ * @param hz Number of steps per second
+ *
+ * @example
+ * ```ts
+ * @Tick(20)
+ * update(dt: number, tick: number) {
+ *   for (const player of Object.values(this.players())) {
+ *     player.x.update((x) => x + player.speed() * dt / 1000);
+ *   }
+ * }
+ * ```
+ */
+export function Tick(hz: number) {
+  return function (target: any, propertyKey: string) {
+    if (!target.constructor._tickMetadata) {
+      target.constructor._tickMetadata = new Map();
+    }
+    target.constructor._tickMetadata.set(propertyKey, {
+      key: propertyKey,
+      hz,
+    });
+  };
+}
+
 /**
  * Request decorator for handling HTTP requests with path and method routing
  * @param options Configuration for the HTTP request handler
@@ -59,6 +122,35 @@ export function Request(options: RequestOptions, bodyValidation?: z.ZodSchema) {
   };
 }
 
+export interface RoomMigrationContext {
+  /** Schema version of the snapshot given to the migration */
+  fromVersion: number;
+  /** Schema version the migration must produce (`fromVersion + 1`) */
+  toVersion: number;
+  room: Party.Room;
+}
+
+export interface UserMigrationContext extends RoomMigrationContext {
+  publicId: string;
+}
+
+/**
+ * Transforms a persisted snapshot to the next schema version.
+ * Returning `undefined` keeps the (possibly mutated) snapshot.
+ */
+export type RoomMigration = (snapshot: any, context: RoomMigrationContext) => any | Promise<any>;
+export type UserMigration = (userSnapshot: any, context: UserMigrationContext) => any | Promise<any>;
+
+/**
+ * Migrations by target schema version: `migrations[2]` migrates data stored with
+ * version 1 to version 2. A function migrates the room snapshot; use
+ * `{ room, user }` to also (or only) migrate each entry of the `@users()` collection.
+ */
+export type RoomMigrations = Record<number, RoomMigration | {
+  room?: RoomMigration;
+  user?: UserMigration;
+}>;
+
 export interface RoomOptions {
   path: string;
   maxUsers?: number;
@@ -67,6 +159,27 @@ export interface RoomOptions {
   hibernate?: boolean;
   guards?: RoomGuardFn[];
   sessionExpiryTime?: number;
+  /**
+   * Encoding of `sync` packets: `json` (default) or `binary`
+   * (MessagePack frames with per-connection path dictionaries and numeric deltas)
+   */
+  protocol?: 'json' | 'binary';
+  /**
+   * Keeps the last synchronized changes to read past states with `$history`
+   * (number of entries, or options with `size` and `maxAge`)
+   */
+  history?: number | RoomHistoryOptions;
+  /**
+   * Number of sync packets kept to send the changes missed by a client that
+   * asks for a `resync` (default: 100). Older versions get the whole state.
+   */
+  resyncBuffer?: number;
+  /**
+   * Schema version of the persisted state (default: 1). Stored data with an older
+   * version goes through `migrations` when the room starts; newer data is refused.
+   */
+  version?: number;
+  migrations?: RoomMigrations;
 }
 
 export function Room(options: RoomOptions) {
@@ -76,9 +189,16 @@ export function Room(options: RoomOptions) {
     target.prototype.throttleStorage = options.throttleStorage;
     target.prototype.throttleSync = options.throttleSync;
     target.prototype.sessionExpiryTime = options.sessionExpiryTime ?? 5 * 60 * 1000;
+    target.prototype.protocol = options.protocol ?? 'json';
+    target.prototype.history = typeof options.history === 'number'
+      ? { size: options.history }
+      : options.history;
+    target.prototype.resyncBuffer = options.resyncBuffer;
     if (options.guards) {
       target['_roomGuards'] = options.guards;
     }
+    target['_schemaVersion'] = options.version ?? 1;
+    target['_migrations'] = options.migrations ?? {};
   };
 }
 
@@ -0,0 +1,37 @@
+/**
+ * Error codes sent back to the client in an `action.error` packet
+ * when a request/response action (a message carrying an `id`) fails.
+ */
+export type ActionErrorCode =
+  | "UNAUTHORIZED"
+  | "INVALID_BODY"
+  | "ACTION_NOT_FOUND"
+  | "ACTION_FAILED"
+  | (string & {});
+
+/**
+ * Error thrown from an `@Action` handler to reject a request with a
+ * specific code and optional details. Any other thrown error is reported
+ * to the client as `ACTION_FAILED`, without its message.
+ *
+ * @example
+ * ```typescript
+ * @Action("buy")
+ * buy(user: Player, { itemId }: { itemId: string }) {
+ *   if (user.gold() < 10) {
+ *     throw new ActionError("NOT_ENOUGH_GOLD", "Not enough gold", { missing: 10 - user.gold() });
+ *   }
+ *   return { itemId };
+ * }
+ * ```
+ */
+export class ActionError extends Error {
+  constructor(
+    public code: ActionErrorCode,
+    message: string = code,
+    public details?: any
+  ) {
+    super(message);
+    this.name = "ActionError";
+  }
+}
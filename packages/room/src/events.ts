@@ -0,0 +1,46 @@
+import type * as Party from "./types/party";
+
+export interface EventMetadata {
+  key: string;
+  name: string;
+}
+
+/**
+ * Users receiving an event: a user of the `@users()` collection, its public id,
+ * a list of both, or a filter called for each connection (`user` is `undefined`
+ * for connections that have not joined).
+ */
+export type EventRecipients<User = any> =
+  | User
+  | string
+  | Array<User | string>
+  | ((user: User | undefined, conn: Party.Connection) => boolean);
+
+export interface EmitOptions<User = any> {
+  /** Recipients of the event. All the connections by default */
+  to?: EventRecipients<User>;
+}
+
+/**
+ * Tells whether a connection is a recipient of an event.
+ *
+ * @param {EventRecipients} to - The recipients given to `$emit()`.
+ * @param {any} user - The user of the connection, if it has joined.
+ * @param {string | undefined} publicId - The public id of the user.
+ * @param {Party.Connection} conn - The connection.
+ * @returns {boolean}
+ */
+export function isEventRecipient(
+  to: EventRecipients,
+  user: any,
+  publicId: string | undefined,
+  conn: Party.Connection
+): boolean {
+  if (typeof to === "function") {
+    return !!to(user, conn);
+  }
+  const recipients = Array.isArray(to) ? to : [to];
+  return recipients.some((recipient) =>
+    typeof recipient === "string" ? recipient === publicId : user !== undefined && recipient === user
+  );
+}
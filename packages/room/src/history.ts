@@ -0,0 +1,158 @@
+import { buildObject } from "./utils";
+
+export interface RoomHistoryOptions {
+  /** Maximum number of entries kept in the ring buffer (default: 0, history disabled) */
+  size?: number;
+  /** Entries older than this duration (ms) are dropped, even if the buffer is not full */
+  maxAge?: number;
+}
+
+export interface RoomHistoryEntry {
+  /** Sequential number of the change, starting at 1 */
+  tick: number;
+  /** Server time (ms) at which the change was synchronized */
+  timestamp: number;
+  /** Synchronized values by path, with `$delete` for removed paths */
+  changes: Map<string, any>;
+}
+
+/**
+ * Ring buffer of the last synchronized changes of a room, used for lag
+ * compensation and replay. Each entry holds the change map seen by the sync
+ * callback with the server tick and timestamp; the state at a given time is
+ * rebuilt from the oldest retained state plus the entries up to that time.
+ *
+ * States are plain objects with the same shape as `$memoryAll` (the values
+ * sent to clients), not room instances.
+ *
+ * @example
+ * ```typescript
+ * @Room({ path: "arena", history: { size: 120, maxAge: 1000 } })
+ * class ArenaRoom {
+ *   @Action("shoot")
+ *   shoot(player: Player, { target, latency }: { target: string; latency: number }) {
+ *     const hit = this.$history.rewind(latency, (state) => {
+ *       const { x, y } = state.users[target];
+ *       return isInRange(player, x, y);
+ *     });
+ *   }
+ * }
+ * ```
+ */
+export class RoomHistory {
+  private buffer: (RoomHistoryEntry | undefined)[];
+  private start = 0;
+  private count = 0;
+  private base: Record<string, any> = {};
+  private lastTick = 0;
+
+  constructor(private options: RoomHistoryOptions = {}, private now: () => number = () => Date.now()) {
+    this.buffer = new Array(Math.max(0, options.size ?? 0));
+  }
+
+  /**
+   * Whether changes are recorded (a `size` greater than 0 was configured)
+   */
+  get enabled(): boolean {
+    return this.buffer.length > 0;
+  }
+
+  /**
+   * Number of entries currently retained
+   */
+  get length(): number {
+    return this.count;
+  }
+
+  /**
+   * Current tick, i.e. the tick of the last recorded change
+   */
+  get tick(): number {
+    return this.lastTick;
+  }
+
+  /**
+   * Records a change map. Values are cloned, so the map can be reused by the caller.
+   *
+   * @param {Map<string, any>} changes - Synchronized values by path.
+   * @param {number} [timestamp] - Server time of the change, defaults to now.
+   */
+  record(changes: Map<string, any>, timestamp: number = this.now()) {
+    if (!this.enabled || changes.size === 0) return;
+    if (this.count === this.buffer.length) {
+      this.evictOldest();
+    }
+    const index = (this.start + this.count) % this.buffer.length;
+    this.buffer[index] = {
+      tick: ++this.lastTick,
+      timestamp,
+      changes: structuredClone(changes),
+    };
+    this.count++;
+    this.evictExpired(timestamp);
+  }
+
+  /**
+   * Returns the state of the room at the given time: the oldest retained state
+   * plus every change recorded at or before `timestamp`. Times older than the
+   * retained history are clamped to the oldest retained state.
+   *
+   * @param {number} timestamp - Server time (ms).
+   * @returns {Record<string, any>} A new object, safe to mutate.
+   */
+  at(timestamp: number): Record<string, any> {
+    const state = structuredClone(this.base);
+    for (const entry of this.entries()) {
+      if (entry.timestamp > timestamp) break;
+      buildObject(structuredClone(entry.changes), state);
+    }
+    return state;
+  }
+
+  /**
+   * Evaluates `fn` against the state of the room `ms` milliseconds ago.
+   *
+   * @param {number} ms - How far to go back in time.
+   * @param {(state: Record<string, any>) => T} fn - Function receiving the past state.
+   * @returns {T} The value returned by `fn`.
+   */
+  rewind<T>(ms: number, fn: (state: Record<string, any>) => T): T {
+    return fn(this.at(this.now() - ms));
+  }
+
+  /**
+   * Returns the retained entries, from the oldest to the newest.
+   */
+  *entries(): IterableIterator<RoomHistoryEntry> {
+    for (let i = 0; i < this.count; i++) {
+      yield this.buffer[(this.start + i) % this.buffer.length]!;
+    }
+  }
+
+  /**
+   * Drops every entry. The current state becomes the base state.
+   */
+  clear() {
+    while (this.count > 0) {
+      this.evictOldest();
+    }
+  }
+
+  private evictOldest() {
+    const entry = this.buffer[this.start];
+    if (entry) {
+      buildObject(entry.changes, this.base);
+    }
+    this.buffer[this.start] = undefined;
+    this.start = (this.start + 1) % this.buffer.length;
+    this.count--;
+  }
+
+  private evictExpired(now: number) {
+    const { maxAge } = this.options;
+    if (maxAge === undefined) return;
+    while (this.count > 0 && this.buffer[this.start]!.timestamp < now - maxAge) {
+      this.evictOldest();
+    }
+  }
+}
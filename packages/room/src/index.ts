@@ -5,5 +5,10 @@ export * from './testing';
 export * from './shard';
 export * from './world';
 export * from './interfaces';
+export * from './errors';
+export * from './history';
+export * from './sync-log';
+export * from './events';
+export { TickLoop, type TickHandler } from './tick';
 export * from './request/response';
 export { requireSession, createRequireSessionGuard } from './session.guard';
@@ -1,4 +1,7 @@
 import * as Party from "./types/party";
+import type { RoomHistory } from "./history";
+import type { SyncLog } from "./sync-log";
+import type { EmitOptions } from "./events";
 
 export interface RoomInterceptorPacket {
   interceptorPacket(user: any, obj: any, conn: Party.Connection): Promise<any> | null | any;
@@ -15,9 +18,13 @@ export interface RoomOnLeave {
 export interface RoomMethods {
   $send: (conn: Party.Connection, obj: any) => void;
   $broadcast: (obj: any) => void;
+  $emit: (event: string, payload?: any, options?: EmitOptions) => void;
   $applySync: () => void;
   $sessionTransfer: (conn: Party.Connection, targetRoomId: string) => Promise<string | null>;
   $pendingSync: Map<string, any>;
   $memoryAll: Map<string, any>;
   $autoSync: boolean;
+  $history: RoomHistory;
+  $syncLog: SyncLog;
+  $batchSync: <T>(fn: () => T) => T;
 }
\ No newline at end of file
@@ -4,6 +4,8 @@ import { createRequire } from "node:module";
 import type { Duplex } from "node:stream";
 import type * as Party from "../types/party";
 
+export * from "./redis";
+
 export type NodeRoomStorage = {
   get<T = unknown>(key: string): Promise<T | undefined>;
   put<T = unknown>(key: string, value: T): Promise<void>;
@@ -64,6 +66,55 @@ export type NodeSqliteJournalMode =
   | "wal"
   | "off";
 
+export type NodeRoomLease = {
+  owner: string;
+  address: string;
+  expiresAt: number;
+};
+
+export type NodeRoomLeaseStore = {
+  /**
+   * Takes the lease of `key` if it is free, expired or already held by `owner`,
+   * and returns the current lease (held by `owner` or by another process).
+   */
+  acquire(key: string, owner: string, address: string, ttlMs: number): Promise<NodeRoomLease>;
+  /** Extends a lease held by `owner`. Returns `false` if the lease was lost. */
+  renew(key: string, owner: string, ttlMs: number): Promise<boolean>;
+  release(key: string, owner: string): Promise<void>;
+};
+
+export type NodeSqliteLeaseStoreOptions = {
+  database?: NodeSqliteDatabase;
+  databasePath?: string;
+  tableName?: string;
+  busyRetries?: number;
+};
+
+export type NodeWebSocketClientConstructor = new (
+  url: string,
+  options?: { headers?: Record<string, string> }
+) => NodeWebSocketLike;
+
+export type NodeRoomOwnershipOptions = {
+  /** Shared lease store used to elect the process owning each room */
+  leases: NodeRoomLeaseStore;
+  /** Base URL where other processes can reach this one (e.g. `http://10.0.0.2:3000`) */
+  address: string;
+  processId?: string;
+  leaseTtlMs?: number;
+  heartbeatIntervalMs?: number;
+  /**
+   * Time kept before the end of a lease that could not be renewed: the room is evicted
+   * and its pending writes flushed that long before another process may take it over
+   * (default: a third of `leaseTtlMs`)
+   */
+  leaseSafetyMarginMs?: number;
+  /** Used to forward HTTP requests to the owning process (default: global `fetch`) */
+  fetch?: (request: Request) => Promise<Response>;
+  /** WebSocket client used to proxy connections to the owning process (e.g. `WebSocket` from `ws`) */
+  WebSocket?: NodeWebSocketClientConstructor;
+};
+
 export type NodeServerConstructor<TServer extends Party.Server = Party.Server> = {
   new (room: Party.Room): TServer;
 };
@@ -76,6 +127,7 @@ export type NodeRoomTransportOptions = {
   externalParties?: Record<string, {
     get(id: string): Partial<Party.Stub>;
   }>;
+  ownership?: NodeRoomOwnershipOptions;
 };
 
 export type NodeRequestNext = (error?: unknown) => void;
@@ -111,11 +163,27 @@ type ParsedPartyPath = {
   restPath: string;
 };
 
+type RoomRoute =
+  | { record: RoomRecord; lease?: undefined }
+  | { record?: undefined; lease: NodeRoomLease };
+
 const DEFAULT_PARTIES_PATH = "/parties/main";
 const WEBSOCKET_OPEN = 1;
 const DEFAULT_SQLITE_BUSY_TIMEOUT_MS = 5000;
 const DEFAULT_SQLITE_BUSY_RETRIES = 3;
 const SQLITE_RETRY_BASE_DELAY_MS = 25;
+const DEFAULT_LEASE_TTL_MS = 10000;
+const FORWARDED_BY_HEADER = "x-signe-forwarded-by";
+const WEBSOCKET_HOP_HEADERS = new Set([
+  "host",
+  "connection",
+  "upgrade",
+  "content-length",
+  "sec-websocket-key",
+  "sec-websocket-version",
+  "sec-websocket-extensions",
+  "sec-websocket-accept",
+]);
 
 export function createMemoryNodeRoomStorage(options: {
   snapshot?: NodeMemoryStorageSnapshot;
@@ -127,6 +195,14 @@ export function createSqliteNodeRoomStorage(options: NodeSqliteStorageOptions) {
   return new SqliteNodeRoomStorage(options);
 }
 
+export function createMemoryNodeRoomLeaseStore() {
+  return new MemoryNodeRoomLeaseStore();
+}
+
+export function createSqliteNodeRoomLeaseStore(options: NodeSqliteLeaseStoreOptions) {
+  return new SqliteNodeRoomLeaseStore(options);
+}
+
 export function createNodeRoomTransport<TServer extends Party.Server>(
   ServerClass: NodeServerConstructor<TServer>,
   options: NodeRoomTransportOptions = {}
@@ -437,6 +513,139 @@ class SqliteNodeRoomStorageInstance implements NodeRoomStorage {
   }
 }
 
+/**
+ * Lease store for processes sharing the same memory, e.g. several transports in tests.
+ */
+export class MemoryNodeRoomLeaseStore implements NodeRoomLeaseStore {
+  private readonly leases = new Map<string, NodeRoomLease>();
+
+  async acquire(key: string, owner: string, address: string, ttlMs: number): Promise<NodeRoomLease> {
+    const now = Date.now();
+    const current = this.leases.get(key);
+
+    if (!current || current.owner === owner || current.expiresAt <= now) {
+      this.leases.set(key, { owner, address, expiresAt: now + ttlMs });
+    }
+
+    return { ...this.leases.get(key)! };
+  }
+
+  async renew(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const current = this.leases.get(key);
+
+    if (!current || current.owner !== owner || current.expiresAt <= now) {
+      return false;
+    }
+
+    current.expiresAt = now + ttlMs;
+    return true;
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    if (this.leases.get(key)?.owner === owner) {
+      this.leases.delete(key);
+    }
+  }
+}
+
+/**
+ * Lease store backed by a SQLite database shared by the processes (usually the
+ * same file as `createSqliteNodeRoomStorage()`). Leases are taken with a single
+ * conditional upsert, so two processes cannot both acquire the same room.
+ */
+export class SqliteNodeRoomLeaseStore implements NodeRoomLeaseStore {
+  private readonly tableName: string;
+  private database?: NodeSqliteDatabase;
+
+  constructor(private readonly options: NodeSqliteLeaseStoreOptions) {
+    if (!options.database && !options.databasePath) {
+      throw new Error("createSqliteNodeRoomLeaseStore requires `database` or `databasePath`.");
+    }
+
+    this.tableName = options.tableName ?? "signe_room_leases";
+    assertSafeSqlIdentifier(this.tableName);
+  }
+
+  async acquire(key: string, owner: string, address: string, ttlMs: number): Promise<NodeRoomLease> {
+    const database = this.getDatabase();
+    const now = Date.now();
+
+    const row = runSqliteOperation(() => {
+      database
+        .prepare(`
+          INSERT INTO ${this.tableName} (key, owner, address, expires_at)
+          VALUES (?, ?, ?, ?)
+          ON CONFLICT(key) DO UPDATE SET
+            owner = excluded.owner,
+            address = excluded.address,
+            expires_at = excluded.expires_at
+          WHERE ${this.tableName}.owner = excluded.owner OR ${this.tableName}.expires_at <= ?
+        `)
+        .run(key, owner, address, now + ttlMs, now);
+
+      return database
+        .prepare(`SELECT owner, address, expires_at FROM ${this.tableName} WHERE key = ?`)
+        .get(key) as { owner: string; address: string; expires_at: number };
+    }, this.busyRetries);
+
+    return { owner: row.owner, address: row.address, expiresAt: Number(row.expires_at) };
+  }
+
+  async renew(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const database = this.getDatabase();
+    const now = Date.now();
+    const result = runSqliteOperation(
+      () => database
+        .prepare(`
+          UPDATE ${this.tableName}
+          SET expires_at = ?
+          WHERE key = ? AND owner = ? AND expires_at > ?
+        `)
+        .run(now + ttlMs, key, owner, now),
+      this.busyRetries
+    );
+
+    return Number(result.changes) > 0;
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    const database = this.getDatabase();
+    runSqliteOperation(
+      () => database
+        .prepare(`DELETE FROM ${this.tableName} WHERE key = ? AND owner = ?`)
+        .run(key, owner),
+      this.busyRetries
+    );
+  }
+
+  private get busyRetries() {
+    return this.options.busyRetries ?? DEFAULT_SQLITE_BUSY_RETRIES;
+  }
+
+  private getDatabase() {
+    if (this.database) {
+      return this.database;
+    }
+
+    const database = this.options.database
+      ?? new (loadNodeSqliteModule().DatabaseSync)(this.options.databasePath!) as NodeSqliteDatabase;
+    runSqliteOperation(() => {
+      database.exec(`PRAGMA busy_timeout = ${DEFAULT_SQLITE_BUSY_TIMEOUT_MS}`);
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS ${this.tableName} (
+          key TEXT PRIMARY KEY,
+          owner TEXT NOT NULL,
+          address TEXT NOT NULL,
+          expires_at INTEGER NOT NULL
+        )
+      `);
+    }, this.busyRetries);
+    this.database = database;
+    return database;
+  }
+}
+
 export class NodeRoomTransport<TServer extends Party.Server = Party.Server> {
   readonly partiesPath: string;
   readonly env: Record<string, unknown>;
@@ -446,6 +655,14 @@ export class NodeRoomTransport<TServer extends Party.Server = Party.Server> {
   private readonly rooms: Record<string, NodeServerConstructor>;
   private readonly storage: NodeRoomStorageFactory | NodeRoomStorageProvider;
   private readonly records = new Map<string, Promise<RoomRecord>>();
+  private readonly ownership?: NodeRoomOwnershipOptions;
+  private readonly processId: string;
+  private readonly leaseTtlMs: number;
+  private readonly leaseSafetyMarginMs: number;
+  /** Local deadline of each lease held by this process, refreshed by the heartbeat */
+  private readonly ownedLeases = new Map<string, number>();
+  private heartbeat?: ReturnType<typeof setInterval>;
+  private renewing = false;
 
   constructor(
     private readonly ServerClass: NodeServerConstructor<TServer>,
@@ -459,6 +676,10 @@ export class NodeRoomTransport<TServer extends Party.Server = Party.Server> {
     };
     this.storage = options.storage ?? createMemoryNodeRoomStorage();
     this.externalParties = options.externalParties ?? {};
+    this.ownership = options.ownership;
+    this.processId = options.ownership?.processId ?? createConnectionId();
+    this.leaseTtlMs = options.ownership?.leaseTtlMs ?? DEFAULT_LEASE_TTL_MS;
+    this.leaseSafetyMarginMs = options.ownership?.leaseSafetyMarginMs ?? Math.floor(this.leaseTtlMs / 3);
   }
 
   async fetch(pathOrRequest: string | Request, init?: RequestInit): Promise<Response> {
@@ -471,7 +692,12 @@ export class NodeRoomTransport<TServer extends Party.Server = Party.Server> {
       return new Response("Not Found", { status: 404 });
     }
 
-    const record = await this.getRecord(parsed.namespace, parsed.roomId);
+    const route = await this.routeRoom(parsed.namespace, parsed.roomId);
+    if (!route.record) {
+      return this.forwardRequest(request, route.lease);
+    }
+
+    const { record } = route;
     return record.server.onRequest?.(request as unknown as Party.Request) ?? new Response("Not Found", { status: 404 });
   }
 
@@ -518,27 +744,66 @@ export class NodeRoomTransport<TServer extends Party.Server = Party.Server> {
     }
 
     wsServer.handleUpgrade(request, socket, head, (webSocket) => {
-      void this.acceptWebSocket(webSocket, request, parsed).catch(() => {
+      void this.handleWebSocket(webSocket, request, parsed).catch(() => {
         webSocket.close(1011, "Unable to start room connection");
       });
       wsServer.emit?.("connection", webSocket, request);
     });
   }
 
+  /**
+   * Attaches a WebSocket to its room, or proxies it to the process owning the
+   * room when ownership is enabled.
+   */
+  async handleWebSocket(
+    webSocket: NodeWebSocketLike,
+    request: IncomingMessage | Request,
+    parsedPath?: ParsedPartyPath
+  ): Promise<NodeConnection | undefined> {
+    const url = request instanceof Request ? request.url : getRequestUrl(request);
+    const route = await this.routeRoom(...this.parseWebSocketPath(webSocket, url, parsedPath));
+    if (!route.record) {
+      this.proxyWebSocket(webSocket, request, url, route.lease);
+      return undefined;
+    }
+    return this.attachWebSocket(route.record, webSocket, request, url);
+  }
+
   async acceptWebSocket(
     webSocket: NodeWebSocketLike,
     request: IncomingMessage | Request,
     parsedPath?: ParsedPartyPath
   ): Promise<NodeConnection> {
     const url = request instanceof Request ? request.url : getRequestUrl(request);
+    const [namespace, roomId] = this.parseWebSocketPath(webSocket, url, parsedPath);
+    const route = await this.routeRoom(namespace, roomId);
+    if (!route.record) {
+      webSocket.close(1011, "Room owned by another process");
+      throw new Error(`Room ${namespace}:${roomId} is owned by another process (${route.lease.address})`);
+    }
+    return this.attachWebSocket(route.record, webSocket, request, url);
+  }
+
+  private parseWebSocketPath(
+    webSocket: NodeWebSocketLike,
+    url: string,
+    parsedPath?: ParsedPartyPath
+  ): [namespace: string, roomId: string] {
     const parsed = parsedPath ?? this.parsePartyRequest(url);
 
     if (!parsed) {
       webSocket.close(1008, "Invalid room path");
       throw new Error(`Unable to route WebSocket URL: ${url}`);
     }
+    return [parsed.namespace, parsed.roomId];
+  }
 
-    const record = await this.getRecord(parsed.namespace, parsed.roomId);
+  private async attachWebSocket(
+    record: RoomRecord,
+    webSocket: NodeWebSocketLike,
+    request: IncomingMessage | Request,
+    url: string
+  ): Promise<NodeConnection> {
     const connection = new NodeConnection(webSocket, url, getConnectionIdFromUrl(url));
     const connectRequest = request instanceof Request
       ? request
@@ -549,7 +814,12 @@ export class NodeRoomTransport<TServer extends Party.Server = Party.Server> {
     });
 
     const onMessage = (data: unknown) => {
-      void record.server.onMessage?.(normalizeWebSocketMessage(data), connection as unknown as Party.Connection);
+      // A failing handler must not take the process down: only the connection is closed
+      Promise.resolve(record.server.onMessage?.(normalizeWebSocketMessage(data), connection as unknown as Party.Connection))
+        .catch((error) => {
+          console.error("[NodeRoomTransport] Unable to handle room message:", error);
+          webSocket.close(1011, "Unable to handle message");
+        });
     };
     const onClose = () => {
       record.room.deleteConnection(connection.id, connection);
@@ -567,8 +837,32 @@ export class NodeRoomTransport<TServer extends Party.Server = Party.Server> {
     return connection;
   }
 
-  getRoom(namespace: string, roomId: string): Promise<NodeRoom> {
-    return this.getRecord(namespace, roomId).then((record) => record.room);
+  async getRoom(namespace: string, roomId: string): Promise<NodeRoom> {
+    const route = await this.routeRoom(namespace, roomId);
+    if (!route.record) {
+      throw new Error(`Room ${namespace}:${roomId} is owned by another process (${route.lease.address})`);
+    }
+    return route.record.room;
+  }
+
+  /**
+   * Closes the connections of the rooms hosted by this process and releases
+   * their leases, so that other processes can take them over right away.
+   */
+  async close(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+
+    const keys = Array.from(this.records.keys());
+    await Promise.all(keys.map((key) => this.evictRoom(key, 1001, "Server shutting down")));
+
+    if (this.ownership) {
+      const leases = Array.from(this.ownedLeases.keys());
+      this.ownedLeases.clear();
+      await Promise.all(leases.map((key) => this.ownership!.leases.release(key, this.processId)));
+    }
   }
 
   getNamespacePath(namespace: string, roomId: string) {
@@ -576,6 +870,216 @@ export class NodeRoomTransport<TServer extends Party.Server = Party.Server> {
     return `/${[...baseSegments, namespace, encodeURIComponent(roomId)].join("/")}`;
   }
 
+  /**
+   * Without `ownership`, every room lives in this process. Otherwise the room is
+   * hosted here only if this process holds its lease; when another process does,
+   * its lease is returned so the caller can forward the traffic.
+   */
+  private async routeRoom(namespace: string, roomId: string): Promise<RoomRoute> {
+    if (!this.ownership) {
+      return { record: await this.getRecord(namespace, roomId) };
+    }
+
+    const key = `${namespace}:${roomId}`;
+    if (!this.ownedLeases.has(key)) {
+      const lease = await this.ownership.leases.acquire(key, this.processId, this.ownership.address, this.leaseTtlMs);
+
+      if (lease.owner !== this.processId) {
+        return { lease };
+      }
+
+      this.ownedLeases.set(key, lease.expiresAt);
+      this.startHeartbeat();
+    }
+
+    return { record: await this.getRecord(namespace, roomId) };
+  }
+
+  private startHeartbeat() {
+    if (this.heartbeat || !this.ownership) {
+      return;
+    }
+
+    const interval = this.ownership.heartbeatIntervalMs ?? Math.max(1, Math.floor(this.leaseTtlMs / 3));
+    this.heartbeat = setInterval(() => {
+      void this.renewLeases();
+    }, interval);
+    this.heartbeat.unref?.();
+  }
+
+  private async renewLeases() {
+    if (this.renewing || !this.ownership) {
+      return;
+    }
+
+    this.renewing = true;
+    try {
+      for (const [key, deadline] of Array.from(this.ownedLeases)) {
+        // The lease is extended from the time of the request, not of the answer
+        const renewedAt = Date.now();
+        let renewed: boolean | undefined;
+        try {
+          renewed = await this.ownership.leases.renew(key, this.processId, this.leaseTtlMs);
+        } catch (error) {
+          console.error("[NodeRoomTransport] Unable to renew room lease:", error);
+        }
+
+        if (renewed) {
+          this.ownedLeases.set(key, renewedAt + this.leaseTtlMs);
+          continue;
+        }
+
+        // Without an answer, the lease is still held until its deadline: keep the room while it is not close
+        if (renewed === undefined && Date.now() < deadline - this.leaseSafetyMarginMs) {
+          continue;
+        }
+
+        this.ownedLeases.delete(key);
+        await this.evictRoom(key, 1012, "Room moved to another process", renewed === undefined && Date.now() < deadline);
+      }
+
+      if (this.ownedLeases.size === 0 && this.heartbeat) {
+        clearInterval(this.heartbeat);
+        this.heartbeat = undefined;
+      }
+    } finally {
+      this.renewing = false;
+    }
+  }
+
+  /**
+   * Closes the connections of a room and forgets it. With `flush`, set while this
+   * process still holds the lease, the changes held by `throttleStorage` are written
+   * first so that the next owner loads them. The storage of the room is then
+   * detached: the writes made afterwards (pending throttled writes, `onClose`)
+   * would overwrite the state of the next owner.
+   */
+  private async evictRoom(key: string, code: number, reason: string, flush = true) {
+    const recordPromise = this.records.get(key);
+    this.records.delete(key);
+
+    const record = await recordPromise?.catch(() => undefined);
+    if (!record) {
+      return;
+    }
+
+    if (flush) {
+      try {
+        await (record.server as { flushPersistence?: () => Promise<void> }).flushPersistence?.();
+      } catch (error) {
+        console.error("[NodeRoomTransport] Unable to flush room persistence:", error);
+      }
+    }
+    record.room.detachStorage();
+
+    for (const connection of record.room.getConnections()) {
+      connection.close(code, reason);
+    }
+  }
+
+  private async forwardRequest(request: Request, lease: NodeRoomLease): Promise<Response> {
+    if (request.headers.has(FORWARDED_BY_HEADER)) {
+      // The lease changed hands while the request was forwarded: let the client retry
+      return new Response("Room owner unavailable", { status: 503 });
+    }
+
+    const target = toOwnerUrl(request.url, lease.address);
+    const headers = new Headers(request.headers);
+    headers.delete("host");
+    headers.set(FORWARDED_BY_HEADER, this.processId);
+    const body = ["GET", "HEAD"].includes(request.method) ? undefined : await request.arrayBuffer();
+    const fetchOwner = this.ownership?.fetch ?? ((forwarded: Request) => fetch(forwarded));
+
+    try {
+      const response = await fetchOwner(new Request(target, {
+        method: request.method,
+        headers,
+        body,
+      }));
+      // The body is already decoded by fetch()
+      const responseHeaders = new Headers(response.headers);
+      responseHeaders.delete("content-encoding");
+      responseHeaders.delete("content-length");
+
+      return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: responseHeaders,
+      });
+    } catch {
+      return new Response("Bad Gateway", { status: 502 });
+    }
+  }
+
+  private proxyWebSocket(
+    webSocket: NodeWebSocketLike,
+    request: IncomingMessage | Request,
+    url: string,
+    lease: NodeRoomLease
+  ) {
+    const requestHeaders: Array<[string, string | undefined]> = [];
+    if (request instanceof Request) {
+      request.headers.forEach((value, key) => requestHeaders.push([key, value]));
+    } else {
+      for (const [key, value] of Object.entries(request.headers)) {
+        requestHeaders.push([key, Array.isArray(value) ? value.join(", ") : value]);
+      }
+    }
+    const WebSocketClient = this.ownership?.WebSocket;
+
+    if (!WebSocketClient || requestHeaders.some(([key]) => key.toLowerCase() === FORWARDED_BY_HEADER)) {
+      webSocket.close(1013, "Room owner unavailable");
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [key, value] of requestHeaders) {
+      if (value !== undefined && !WEBSOCKET_HOP_HEADERS.has(key.toLowerCase())) {
+        headers[key] = String(value);
+      }
+    }
+    headers[FORWARDED_BY_HEADER] = this.processId;
+
+    const target = new URL(toOwnerUrl(url, lease.address));
+    target.protocol = target.protocol === "https:" ? "wss:" : "ws:";
+    const upstream = new WebSocketClient(target.toString(), { headers });
+    const pending: Array<string | ArrayBuffer | ArrayBufferView> = [];
+    let open = false;
+
+    upstream.on("open", () => {
+      open = true;
+      for (const message of pending.splice(0)) {
+        upstream.send(message);
+      }
+    });
+    upstream.on("message", (data: unknown, isBinary?: boolean) => {
+      if (isSocketOpen(webSocket)) {
+        webSocket.send(toProxyMessage(data, isBinary));
+      }
+    });
+    upstream.on("close", (code?: number, reason?: string | Buffer) => {
+      closeProxySocket(webSocket, code, reason);
+    });
+    upstream.on("error", () => {
+      closeProxySocket(webSocket, 1012, "Room owner unavailable");
+    });
+
+    webSocket.on("message", (data: unknown, isBinary?: boolean) => {
+      const message = toProxyMessage(data, isBinary);
+      if (!open) {
+        pending.push(message);
+      } else if (isSocketOpen(upstream)) {
+        upstream.send(message);
+      }
+    });
+    webSocket.on("close", (code?: number, reason?: string | Buffer) => {
+      closeProxySocket(upstream, code, reason);
+    });
+    webSocket.on("error", () => {
+      closeProxySocket(upstream, 1011);
+    });
+  }
+
   private async getRecord(namespace: string, roomId: string): Promise<RoomRecord> {
     const key = `${namespace}:${roomId}`;
     const existing = this.records.get(key);
@@ -666,6 +1170,7 @@ export class NodeRoom implements Party.Room {
   readonly connections = new Map<string, Party.Connection>();
   readonly parties: Party.Context["parties"];
   readonly analytics = {} as Party.Room["analytics"];
+  private storageDetached = false;
 
   constructor(options: {
     id: string;
@@ -678,7 +1183,7 @@ export class NodeRoom implements Party.Room {
     this.internalID = `${options.name}:${options.id}`;
     this.name = options.name;
     this.env = options.env;
-    this.storage = options.storage as Party.Storage;
+    this.storage = this.createRoomStorage(options.storage) as Party.Storage;
     this.parties = createPartiesContext(options.transport);
     this.context = {
       parties: this.parties,
@@ -699,6 +1204,28 @@ export class NodeRoom implements Party.Room {
     return callback();
   }
 
+  /**
+   * Drops the writes made to the storage from now on, once another process may own
+   * the room. Reads are still served.
+   */
+  detachStorage() {
+    this.storageDetached = true;
+  }
+
+  private createRoomStorage(storage: NodeRoomStorage): NodeRoomStorage {
+    return {
+      get: (key) => storage.get(key),
+      put: ((keyOrEntries: string | Record<string, unknown>, value?: unknown) => {
+        if (this.storageDetached) return Promise.resolve();
+        return typeof keyOrEntries === "string"
+          ? storage.put(keyOrEntries, value)
+          : storage.put(keyOrEntries);
+      }) as NodeRoomStorage["put"],
+      delete: (keyOrKeys) => this.storageDetached ? Promise.resolve(false) : storage.delete(keyOrKeys),
+      list: (options) => storage.list(options),
+    };
+  }
+
   broadcast(msg: string | ArrayBuffer | ArrayBufferView, without: string[] = []) {
     for (const connection of this.connections.values()) {
       if (!without.includes(connection.id)) {
@@ -805,7 +1332,7 @@ function createPartiesContext(transport: NodeRoomTransport): Party.Context["part
               );
               const pair = createInMemoryWebSocketPair();
 
-              void transport.acceptWebSocket(pair.server, request).catch(() => {
+              void transport.handleWebSocket(pair.server, request).catch(() => {
                 pair.client.close(1011, "Unable to start room connection");
               });
 
@@ -976,6 +1503,43 @@ function normalizeWebSocketMessage(data: unknown): string | ArrayBuffer | ArrayB
   return String(data);
 }
 
+function toOwnerUrl(url: string, address: string) {
+  const target = new URL(url);
+  const owner = new URL(address);
+  target.protocol = owner.protocol;
+  target.host = owner.host;
+  return target.toString();
+}
+
+function isSocketOpen(socket: NodeWebSocketLike) {
+  return socket.readyState === undefined || socket.readyState === WEBSOCKET_OPEN;
+}
+
+function closeProxySocket(socket: NodeWebSocketLike, code?: number, reason?: string | Buffer) {
+  if (socket.readyState !== undefined && socket.readyState > WEBSOCKET_OPEN) {
+    return;
+  }
+
+  // Reserved codes (1005, 1006...) cannot be sent: ask the client to reconnect instead
+  const isValidCode = code !== undefined
+    && ((code >= 1000 && code <= 1014 && ![1004, 1005, 1006].includes(code)) || (code >= 3000 && code <= 4999));
+  socket.close(isValidCode ? code : 1012, isValidCode ? reason : "Room owner unavailable");
+}
+
+function toProxyMessage(data: unknown, isBinary?: boolean): string | ArrayBuffer | ArrayBufferView {
+  if (Array.isArray(data)) {
+    data = Buffer.concat(data);
+  }
+  if (isBinary === false && ArrayBuffer.isView(data)) {
+    return new TextDecoder().decode(data);
+  }
+  if (typeof data === "string" || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data;
+  }
+
+  return String(data);
+}
+
 function normalizePath(path: string) {
   return `/${trimSlashes(path)}`;
 }
@@ -993,8 +1557,10 @@ function toLocalUrl(path: string) {
     : `http://localhost${path.startsWith("/") ? path : `/${path}`}`;
 }
 
+// PartySocket sends its `id` option as `_pk`, and keeps it across its reconnects
 function getConnectionIdFromUrl(url: string) {
-  const requestedId = new URL(url).searchParams.get("id")?.trim();
+  const { searchParams } = new URL(url);
+  const requestedId = (searchParams.get("id") ?? searchParams.get("_pk"))?.trim();
   return requestedId || undefined;
 }
 
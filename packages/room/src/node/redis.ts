@@ -0,0 +1,989 @@
+import { createConnection, createServer, type AddressInfo, type Server as NetServer, type Socket } from "node:net";
+import type {
+  NodeRoomLease,
+  NodeRoomLeaseStore,
+  NodeRoomStorage,
+  NodeRoomStorageListOptions,
+  NodeRoomStorageProvider,
+} from "./index";
+
+export type RedisCommandArgument = string | number;
+
+export type RedisCommandClient = {
+  command(args: RedisCommandArgument[]): Promise<unknown>;
+  transaction(commands: RedisCommandArgument[][]): Promise<unknown[]>;
+  close?(): Promise<void> | void;
+};
+
+export type RedisConnectionOptions = {
+  url?: string;
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string;
+  db?: number;
+};
+
+export type RedisNodeRoomStorageOptions = RedisConnectionOptions & {
+  client?: RedisCommandClient;
+  keyPrefix?: string;
+};
+
+export type RedisNodeRoomLeaseStoreOptions = RedisConnectionOptions & {
+  /**
+   * Client used for the leases. It must not be shared with other users, since
+   * `WATCH` is tied to the connection (a new connection is opened by default).
+   */
+  client?: RedisCommandClient;
+  keyPrefix?: string;
+  /** Attempts made when another process changes a lease at the same time (default: 10) */
+  maxRetries?: number;
+};
+
+type PendingReply = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+};
+
+type LexBound = {
+  value: string;
+  exclusive: boolean;
+};
+
+const DEFAULT_REDIS_PORT = 6379;
+const DEFAULT_REDIS_KEY_PREFIX = "signe";
+const CRLF = "\r\n";
+const DEFAULT_REDIS_LEASE_RETRIES = 10;
+
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisReplyError";
+  }
+}
+
+/**
+ * Thrown by `transaction()` when a key watched with `WATCH` changed before `EXEC`,
+ * so that the transaction was not run.
+ */
+export class RedisWatchError extends RedisReplyError {
+  constructor() {
+    super("EXECABORT Transaction aborted because a watched key changed");
+    this.name = "RedisWatchError";
+  }
+}
+
+export function createRedisNodeRoomStorage(options: RedisNodeRoomStorageOptions = {}) {
+  return new RedisNodeRoomStorage(options);
+}
+
+export function createRedisNodeRoomLeaseStore(options: RedisNodeRoomLeaseStoreOptions = {}) {
+  return new RedisNodeRoomLeaseStore(options);
+}
+
+export function createRespMemoryServer() {
+  return new RespMemoryServer();
+}
+
+/**
+ * Minimal RESP2 client: commands are pipelined on a single socket, which is
+ * opened on the first command and re-opened after a connection loss.
+ */
+export class RespClient implements RedisCommandClient {
+  private socket?: Socket;
+  private connecting?: Promise<Socket>;
+  private pending: PendingReply[] = [];
+  private buffer = Buffer.alloc(0);
+  private readonly host: string;
+  private readonly port: number;
+  private readonly username?: string;
+  private readonly password?: string;
+  private readonly db?: number;
+
+  constructor(options: RedisConnectionOptions = {}) {
+    const fromUrl = parseRedisUrl(options.url);
+    this.host = options.host ?? fromUrl.host ?? "127.0.0.1";
+    this.port = options.port ?? fromUrl.port ?? DEFAULT_REDIS_PORT;
+    this.username = options.username ?? fromUrl.username;
+    this.password = options.password ?? fromUrl.password;
+    this.db = options.db ?? fromUrl.db;
+  }
+
+  async command(args: RedisCommandArgument[]): Promise<unknown> {
+    const socket = await this.connect();
+    return this.write(socket, [args])[0];
+  }
+
+  async transaction(commands: RedisCommandArgument[][]): Promise<unknown[]> {
+    const socket = await this.connect();
+    const replies = await Promise.allSettled(this.write(socket, [["MULTI"], ...commands, ["EXEC"]]));
+    const failure = replies.find((reply): reply is PromiseRejectedResult => reply.status === "rejected");
+    if (failure) {
+      throw failure.reason;
+    }
+
+    const results = (replies[replies.length - 1] as PromiseFulfilledResult<unknown>).value;
+    if (results === null) {
+      throw new RedisWatchError();
+    }
+    if (!Array.isArray(results)) {
+      throw new RedisReplyError("EXECABORT Transaction discarded");
+    }
+    const error = results.find((result) => result instanceof RedisReplyError);
+    if (error) {
+      throw error;
+    }
+    return results;
+  }
+
+  async close() {
+    const socket = this.socket ?? await this.connecting?.catch(() => undefined);
+    this.socket = undefined;
+    this.connecting = undefined;
+    if (!socket || socket.destroyed) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      socket.once("close", () => resolve());
+      socket.end();
+    });
+  }
+
+  private write(socket: Socket, commands: RedisCommandArgument[][]) {
+    if (socket.destroyed) {
+      return commands.map(() => Promise.reject(new Error("Redis connection closed")));
+    }
+    const replies = commands.map(() => new Promise<unknown>((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+    }));
+    socket.write(commands.map(encodeCommand).join(""));
+    return replies;
+  }
+
+  private connect(): Promise<Socket> {
+    if (this.socket && !this.socket.destroyed) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<Socket> {
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const connection = createConnection({ host: this.host, port: this.port });
+      connection.once("connect", () => {
+        connection.off("error", reject);
+        resolve(connection);
+      });
+      connection.once("error", reject);
+    });
+
+    this.buffer = Buffer.alloc(0);
+    socket.on("data", (chunk: Buffer) => this.onData(chunk));
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => this.onClose(socket));
+
+    const setup: RedisCommandArgument[][] = [];
+    if (this.password !== undefined) {
+      setup.push(this.username !== undefined
+        ? ["AUTH", this.username, this.password]
+        : ["AUTH", this.password]);
+    }
+    if (this.db) {
+      setup.push(["SELECT", this.db]);
+    }
+    try {
+      await Promise.all(this.write(socket, setup));
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this.socket = socket;
+    return socket;
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      const parsed = parseReply(this.buffer, offset);
+      if (!parsed) {
+        break;
+      }
+      offset = parsed[1];
+      const pending = this.pending.shift();
+      if (parsed[0] instanceof RedisReplyError) {
+        pending?.reject(parsed[0]);
+      } else {
+        pending?.resolve(parsed[0]);
+      }
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private onClose(socket: Socket) {
+    if (this.socket === socket) {
+      this.socket = undefined;
+    }
+    const pending = this.pending;
+    this.pending = [];
+    for (const reply of pending) {
+      reply.reject(new Error("Redis connection closed"));
+    }
+  }
+}
+
+/**
+ * Stores each room in a Redis hash (`<prefix>:{<namespace>:<roomId>}:data`) and
+ * keeps the keys in a sorted set with a score of 0
+ * (`<prefix>:{<namespace>:<roomId>}:keys`), so that `list()` can use lexicographic
+ * ranges. Both keys share the same hash tag, which keeps them on the same slot in
+ * a Redis cluster. Values are stored as JSON, like the SQLite provider.
+ */
+export class RedisNodeRoomStorage implements NodeRoomStorageProvider {
+  readonly client: RedisCommandClient;
+  private readonly keyPrefix: string;
+
+  constructor(options: RedisNodeRoomStorageOptions = {}) {
+    this.client = options.client ?? new RespClient(options);
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_REDIS_KEY_PREFIX;
+  }
+
+  getStorage(namespace: string, roomId: string): NodeRoomStorage {
+    const roomKey = `${this.keyPrefix}:{${encodeURIComponent(namespace)}:${encodeURIComponent(roomId)}}`;
+    return new RedisNodeRoomStorageInstance(this.client, `${roomKey}:data`, `${roomKey}:keys`);
+  }
+
+  async close() {
+    await this.client.close?.();
+  }
+}
+
+class RedisNodeRoomStorageInstance implements NodeRoomStorage {
+  constructor(
+    private readonly client: RedisCommandClient,
+    private readonly dataKey: string,
+    private readonly indexKey: string
+  ) {}
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const value = await this.client.command(["HGET", this.dataKey, key]);
+    return typeof value === "string" ? JSON.parse(value) as T : undefined;
+  }
+
+  async put<T = unknown>(keyOrEntries: string | Record<string, T>, value?: T): Promise<void> {
+    const entries = typeof keyOrEntries === "string"
+      ? [[keyOrEntries, value] as const]
+      : Object.entries(keyOrEntries);
+
+    if (entries.length === 0) {
+      return;
+    }
+
+    await this.client.transaction([
+      ["HSET", this.dataKey, ...entries.flatMap(([key, entryValue]) => [key, JSON.stringify(entryValue)])],
+      ["ZADD", this.indexKey, ...entries.flatMap(([key]) => [0, key])],
+    ]);
+  }
+
+  async delete(keyOrKeys: string | string[]): Promise<boolean | number> {
+    const keys = Array.isArray(keyOrKeys) ? keyOrKeys : [keyOrKeys];
+    if (keys.length === 0) {
+      return 0;
+    }
+
+    const [deleted] = await this.client.transaction([
+      ["HDEL", this.dataKey, ...keys],
+      ["ZREM", this.indexKey, ...keys],
+    ]);
+
+    return Array.isArray(keyOrKeys) ? Number(deleted) : Number(deleted) > 0;
+  }
+
+  async list<T = unknown>(options: NodeRoomStorageListOptions = {}): Promise<Map<string, T>> {
+    const limit = options.limit !== undefined ? normalizeRedisLimit(options.limit) : undefined;
+    if (limit === 0) {
+      return new Map();
+    }
+
+    const [min, max] = getLexRange(options);
+    const command: RedisCommandArgument[] = options.reverse
+      ? ["ZREVRANGEBYLEX", this.indexKey, max, min]
+      : ["ZRANGEBYLEX", this.indexKey, min, max];
+    if (limit !== undefined) {
+      command.push("LIMIT", 0, limit);
+    }
+
+    const keys = await this.client.command(command) as string[];
+    if (keys.length === 0) {
+      return new Map();
+    }
+
+    const values = await this.client.command(["HMGET", this.dataKey, ...keys]) as (string | null)[];
+    const entries = new Map<string, T>();
+    keys.forEach((key, index) => {
+      // A key can be deleted between the two commands
+      if (values[index] !== null) {
+        entries.set(key, JSON.parse(values[index]!) as T);
+      }
+    });
+    return entries;
+  }
+}
+
+/**
+ * Lease store backed by Redis, to go with `createRedisNodeRoomStorage()`. Each
+ * lease is a JSON string (`<prefix>:lease:<namespace>:<roomId>`) changed with
+ * `WATCH`/`MULTI`/`EXEC`: a process only writes a lease if nobody changed it since
+ * it was read, so two processes cannot both acquire the same room. The operations
+ * of a store run one at a time on its own connection.
+ */
+export class RedisNodeRoomLeaseStore implements NodeRoomLeaseStore {
+  readonly client: RedisCommandClient;
+  private readonly keyPrefix: string;
+  private readonly maxRetries: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: RedisNodeRoomLeaseStoreOptions = {}) {
+    this.client = options.client ?? new RespClient(options);
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_REDIS_KEY_PREFIX;
+    this.maxRetries = options.maxRetries ?? DEFAULT_REDIS_LEASE_RETRIES;
+  }
+
+  acquire(key: string, owner: string, address: string, ttlMs: number): Promise<NodeRoomLease> {
+    return this.update(key, (current, now) => {
+      if (current && current.owner !== owner && current.expiresAt > now) {
+        return { result: current };
+      }
+      const lease = { owner, address, expiresAt: now + ttlMs };
+      return { result: lease, write: ["SET", this.leaseKey(key), JSON.stringify(lease)] };
+    });
+  }
+
+  renew(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    return this.update(key, (current, now) => {
+      if (!current || current.owner !== owner || current.expiresAt <= now) {
+        return { result: false };
+      }
+      const lease = { ...current, expiresAt: now + ttlMs };
+      return { result: true, write: ["SET", this.leaseKey(key), JSON.stringify(lease)] };
+    });
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    await this.update(key, (current) => current?.owner === owner
+      ? { result: undefined, write: ["DEL", this.leaseKey(key)] }
+      : { result: undefined });
+  }
+
+  async close() {
+    await this.client.close?.();
+  }
+
+  private leaseKey(key: string) {
+    return `${this.keyPrefix}:lease:${key}`;
+  }
+
+  /**
+   * Reads the lease of `key` and runs the write returned by `decide`, unless the
+   * lease changed in the meantime, in which case it starts over.
+   */
+  private update<T>(
+    key: string,
+    decide: (current: NodeRoomLease | undefined, now: number) => { result: T; write?: RedisCommandArgument[] }
+  ): Promise<T> {
+    const run = async () => {
+      const leaseKey = this.leaseKey(key);
+      for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+        await this.client.command(["WATCH", leaseKey]);
+        let decision: { result: T; write?: RedisCommandArgument[] };
+        try {
+          const value = await this.client.command(["GET", leaseKey]);
+          decision = decide(typeof value === "string" ? JSON.parse(value) as NodeRoomLease : undefined, Date.now());
+        } catch (error) {
+          await this.client.command(["UNWATCH"]);
+          throw error;
+        }
+
+        if (!decision.write) {
+          await this.client.command(["UNWATCH"]);
+          return decision.result;
+        }
+        try {
+          await this.client.transaction([decision.write]);
+          return decision.result;
+        } catch (error) {
+          if (!(error instanceof RedisWatchError)) {
+            throw error;
+          }
+        }
+      }
+      throw new Error(`Unable to update the lease of ${key}: it kept changing`);
+    };
+
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+type MemoryEntry =
+  | { type: "string"; value: string }
+  | { type: "hash"; value: Map<string, string> }
+  | { type: "zset"; value: string[] };
+
+type RespReply = string | number | null | RespReply[] | RedisReplyError | { simple: string };
+
+type RespSession = {
+  transaction?: RedisCommandArgument[][];
+  aborted?: boolean;
+  /** Keys watched with `WATCH`, and the revision of the data when they were */
+  watched?: Set<string>;
+  watchedAt?: number;
+};
+
+const OK = { simple: "OK" };
+
+/**
+ * In-process server speaking the RESP protocol, backed by memory. It implements
+ * the commands used by `RedisNodeRoomStorage` (plus a few basic ones), so the
+ * provider can run in tests and local development without an external Redis.
+ *
+ * Sorted sets only support lexicographic ordering: scores are ignored.
+ */
+export class RespMemoryServer {
+  private readonly data = new Map<string, MemoryEntry>();
+  // Revision of the last write of each key, checked by `EXEC` for the watched keys
+  private readonly revisions = new Map<string, number>();
+  private revision = 0;
+  private flushedAt = 0;
+  private readonly sockets = new Set<Socket>();
+  private server?: NetServer;
+
+  get port(): number | undefined {
+    return (this.server?.address() as AddressInfo | null)?.port;
+  }
+
+  get url(): string | undefined {
+    return this.port !== undefined ? `redis://127.0.0.1:${this.port}` : undefined;
+  }
+
+  listen(port = 0, host = "127.0.0.1"): Promise<{ host: string; port: number; url: string }> {
+    const server = createServer((socket) => this.accept(socket));
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        const address = server.address() as AddressInfo;
+        resolve({ host, port: address.port, url: `redis://${host}:${address.port}` });
+      });
+    });
+  }
+
+  async close() {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    this.sockets.clear();
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  flushAll() {
+    this.data.clear();
+    this.flushedAt = ++this.revision;
+  }
+
+  private accept(socket: Socket) {
+    this.sockets.add(socket);
+    const session: RespSession = {};
+    let buffer = Buffer.alloc(0);
+
+    socket.on("data", (chunk: Buffer) => {
+      buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+      let offset = 0;
+      let output = "";
+      try {
+        while (offset < buffer.length) {
+          const parsed = parseReply(buffer, offset);
+          if (!parsed) {
+            break;
+          }
+          offset = parsed[1];
+          const args = parsed[0];
+          if (!Array.isArray(args) || args.length === 0) {
+            output += encodeReply(new RedisReplyError("ERR Protocol error: expected an array of bulk strings"));
+            continue;
+          }
+          if (String(args[0]).toUpperCase() === "QUIT") {
+            socket.end(output + encodeReply(OK));
+            return;
+          }
+          output += encodeReply(this.dispatch(args.map(String), session));
+        }
+      } catch {
+        socket.end(output + encodeReply(new RedisReplyError("ERR Protocol error")));
+        return;
+      }
+      buffer = buffer.subarray(offset);
+      if (output) {
+        socket.write(output);
+      }
+    });
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => this.sockets.delete(socket));
+  }
+
+  private dispatch(args: string[], session: RespSession): RespReply {
+    const name = args[0].toUpperCase();
+
+    if (session.transaction) {
+      if (name === "EXEC") {
+        const queued = session.transaction;
+        const aborted = session.aborted;
+        const changed = this.watchedKeysChanged(session);
+        session.transaction = undefined;
+        session.aborted = false;
+        session.watched = undefined;
+        if (aborted) {
+          return new RedisReplyError("EXECABORT Transaction discarded because of previous errors.");
+        }
+        if (changed) {
+          return null;
+        }
+        return queued.map((command) => this.execute(command.map(String)));
+      }
+      if (name === "DISCARD") {
+        session.transaction = undefined;
+        session.aborted = false;
+        session.watched = undefined;
+        return OK;
+      }
+      if (name === "MULTI") {
+        return new RedisReplyError("ERR MULTI calls can not be nested");
+      }
+      if (name === "WATCH") {
+        return new RedisReplyError("ERR WATCH inside MULTI is not allowed");
+      }
+      if (!RESP_MEMORY_COMMANDS.has(name)) {
+        session.aborted = true;
+        return new RedisReplyError(`ERR unknown command '${args[0]}'`);
+      }
+      session.transaction.push(args);
+      return { simple: "QUEUED" };
+    }
+
+    if (name === "MULTI") {
+      session.transaction = [];
+      return OK;
+    }
+    if (name === "EXEC" || name === "DISCARD") {
+      return new RedisReplyError(`ERR ${name} without MULTI`);
+    }
+    if (name === "WATCH") {
+      if (args.length < 2) {
+        return wrongArguments(name);
+      }
+      if (!session.watched) {
+        session.watched = new Set();
+        session.watchedAt = this.revision;
+      }
+      for (const key of args.slice(1)) {
+        session.watched.add(key);
+      }
+      return OK;
+    }
+    if (name === "UNWATCH") {
+      session.watched = undefined;
+      return OK;
+    }
+    return this.execute(args);
+  }
+
+  private watchedKeysChanged(session: RespSession) {
+    if (!session.watched) {
+      return false;
+    }
+    const watchedAt = session.watchedAt ?? 0;
+    if (this.flushedAt > watchedAt) {
+      return true;
+    }
+    return Array.from(session.watched).some((key) => (this.revisions.get(key) ?? 0) > watchedAt);
+  }
+
+  private touch(keys: string[]) {
+    const revision = ++this.revision;
+    for (const key of keys) {
+      this.revisions.set(key, revision);
+    }
+  }
+
+  private execute(args: string[]): RespReply {
+    const [name, ...params] = args;
+    const command = name.toUpperCase();
+    if (command === "FLUSHALL" || command === "FLUSHDB") {
+      this.flushedAt = ++this.revision;
+    } else if (command === "DEL") {
+      this.touch(params);
+    } else if (RESP_MEMORY_WRITES.has(command)) {
+      this.touch(params.slice(0, 1));
+    }
+    switch (command) {
+      case "PING":
+        return params.length > 0 ? params[0] : { simple: "PONG" };
+      case "ECHO":
+        return params[0] ?? null;
+      case "AUTH":
+      case "SELECT":
+        return OK;
+      case "FLUSHALL":
+      case "FLUSHDB":
+        this.data.clear();
+        return OK;
+      case "DEL":
+        return params.filter((key) => this.data.delete(key)).length;
+      case "EXISTS":
+        return params.filter((key) => this.data.has(key)).length;
+      case "GET": {
+        const entry = this.read(params[0], "string");
+        return entry instanceof RedisReplyError ? entry : entry?.value ?? null;
+      }
+      case "SET":
+        this.data.set(params[0], { type: "string", value: params[1] });
+        return OK;
+      case "HGET": {
+        const hash = this.read(params[0], "hash");
+        return hash instanceof RedisReplyError ? hash : hash?.value.get(params[1]) ?? null;
+      }
+      case "HMGET": {
+        const hash = this.read(params[0], "hash");
+        return hash instanceof RedisReplyError ? hash : params.slice(1).map((field) => hash?.value.get(field) ?? null);
+      }
+      case "HGETALL": {
+        const hash = this.read(params[0], "hash");
+        return hash instanceof RedisReplyError ? hash : Array.from(hash?.value ?? []).flat();
+      }
+      case "HSET": {
+        if (params.length < 3 || params.length % 2 === 0) {
+          return wrongArguments(name);
+        }
+        const hash = this.write(params[0], "hash", () => new Map<string, string>());
+        if (hash instanceof RedisReplyError) return hash;
+        let added = 0;
+        for (let index = 1; index < params.length; index += 2) {
+          if (!hash.has(params[index])) added++;
+          hash.set(params[index], params[index + 1]);
+        }
+        return added;
+      }
+      case "HDEL": {
+        const hash = this.read(params[0], "hash");
+        if (hash instanceof RedisReplyError) return hash;
+        const deleted = params.slice(1).filter((field) => hash?.value.delete(field)).length;
+        this.dropEmpty(params[0]);
+        return deleted;
+      }
+      case "ZADD": {
+        if (params.length < 3 || params.length % 2 === 0) {
+          return wrongArguments(name);
+        }
+        const members = this.write(params[0], "zset", () => [] as string[]);
+        if (members instanceof RedisReplyError) return members;
+        let added = 0;
+        for (let index = 2; index < params.length; index += 2) {
+          const position = findMember(members, params[index]);
+          if (!position.found) {
+            members.splice(position.index, 0, params[index]);
+            added++;
+          }
+        }
+        return added;
+      }
+      case "ZREM": {
+        const zset = this.read(params[0], "zset");
+        if (zset instanceof RedisReplyError) return zset;
+        let removed = 0;
+        for (const member of params.slice(1)) {
+          const position = zset ? findMember(zset.value, member) : { found: false, index: 0 };
+          if (zset && position.found) {
+            zset.value.splice(position.index, 1);
+            removed++;
+          }
+        }
+        this.dropEmpty(params[0]);
+        return removed;
+      }
+      case "ZCARD": {
+        const zset = this.read(params[0], "zset");
+        return zset instanceof RedisReplyError ? zset : zset?.value.length ?? 0;
+      }
+      case "ZRANGEBYLEX":
+      case "ZREVRANGEBYLEX": {
+        const reverse = command === "ZREVRANGEBYLEX";
+        const zset = this.read(params[0], "zset");
+        if (zset instanceof RedisReplyError) return zset;
+        const min = parseLexBound(reverse ? params[2] : params[1]);
+        const max = parseLexBound(reverse ? params[1] : params[2]);
+        if (!min || !max) {
+          return new RedisReplyError("ERR min or max not valid string range item");
+        }
+        let members = (zset?.value ?? []).filter((member) => isAboveMin(member, min) && isBelowMax(member, max));
+        if (reverse) {
+          members = members.reverse();
+        }
+        if (params[3]?.toUpperCase() === "LIMIT") {
+          const offset = Number(params[4]);
+          const count = Number(params[5]);
+          members = members.slice(offset, count < 0 ? undefined : offset + count);
+        }
+        return members;
+      }
+      default:
+        return new RedisReplyError(`ERR unknown command '${name}'`);
+    }
+  }
+
+  private read<TType extends MemoryEntry["type"]>(key: string, type: TType) {
+    const entry = this.data.get(key);
+    if (entry && entry.type !== type) {
+      return wrongType();
+    }
+    return entry as Extract<MemoryEntry, { type: TType }> | undefined;
+  }
+
+  private write<TType extends MemoryEntry["type"]>(
+    key: string,
+    type: TType,
+    create: () => Extract<MemoryEntry, { type: TType }>["value"]
+  ) {
+    const entry = this.read(key, type);
+    if (entry instanceof RedisReplyError) {
+      return entry;
+    }
+    if (entry) {
+      return entry.value as Extract<MemoryEntry, { type: TType }>["value"];
+    }
+    const value = create();
+    this.data.set(key, { type, value } as MemoryEntry);
+    return value;
+  }
+
+  private dropEmpty(key: string) {
+    const entry = this.data.get(key);
+    if (
+      (entry?.type === "hash" && entry.value.size === 0) ||
+      (entry?.type === "zset" && entry.value.length === 0)
+    ) {
+      this.data.delete(key);
+    }
+  }
+}
+
+const RESP_MEMORY_COMMANDS = new Set([
+  "PING", "ECHO", "AUTH", "SELECT", "FLUSHALL", "FLUSHDB", "DEL", "EXISTS", "GET", "SET",
+  "HGET", "HMGET", "HGETALL", "HSET", "HDEL",
+  "ZADD", "ZREM", "ZCARD", "ZRANGEBYLEX", "ZREVRANGEBYLEX",
+]);
+
+// Commands changing their first key, which abort the transactions watching it
+const RESP_MEMORY_WRITES = new Set(["SET", "HSET", "HDEL", "ZADD", "ZREM"]);
+
+function encodeCommand(args: RedisCommandArgument[]) {
+  let output = `*${args.length}${CRLF}`;
+  for (const arg of args) {
+    const value = String(arg);
+    output += `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`;
+  }
+  return output;
+}
+
+function encodeReply(reply: RespReply): string {
+  if (reply === null) {
+    return `$-1${CRLF}`;
+  }
+  if (reply instanceof RedisReplyError) {
+    return `-${reply.message}${CRLF}`;
+  }
+  if (typeof reply === "number") {
+    return `:${reply}${CRLF}`;
+  }
+  if (typeof reply === "string") {
+    return `$${Buffer.byteLength(reply)}${CRLF}${reply}${CRLF}`;
+  }
+  if (Array.isArray(reply)) {
+    return `*${reply.length}${CRLF}${reply.map(encodeReply).join("")}`;
+  }
+  return `+${reply.simple}${CRLF}`;
+}
+
+/**
+ * Parses one RESP value at `offset`. Returns the value and the offset of the
+ * next one, or `undefined` if the buffer does not hold a complete value yet.
+ */
+function parseReply(buffer: Buffer, offset: number): [unknown, number] | undefined {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) {
+    return undefined;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return [line, next];
+    case "-":
+      return [new RedisReplyError(line), next];
+    case ":":
+      return [Number(line), next];
+    case "$": {
+      const length = Number(line);
+      if (length < 0) {
+        return [null, next];
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+      return [buffer.toString("utf8", next, next + length), next + length + 2];
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) {
+        return [null, next];
+      }
+      const items: unknown[] = [];
+      let position = next;
+      for (let index = 0; index < count; index++) {
+        const item = parseReply(buffer, position);
+        if (!item) {
+          return undefined;
+        }
+        items.push(item[0]);
+        position = item[1];
+      }
+      return [items, position];
+    }
+    default:
+      throw new Error(`Invalid RESP type: ${type}`);
+  }
+}
+
+function getLexRange(options: NodeRoomStorageListOptions): [string, string] {
+  let min: LexBound | undefined;
+  let max: LexBound | undefined;
+  const raiseMin = (value: string, exclusive: boolean) => {
+    if (!min || compareBytes(value, min.value) > 0 || (value === min.value && exclusive)) {
+      min = { value, exclusive };
+    }
+  };
+  const lowerMax = (value: string, exclusive: boolean) => {
+    if (!max || compareBytes(value, max.value) < 0 || (value === max.value && exclusive)) {
+      max = { value, exclusive };
+    }
+  };
+
+  if (options.prefix !== undefined) {
+    raiseMin(options.prefix, false);
+    lowerMax(`${options.prefix}\uffff`, true);
+  }
+  if (options.start !== undefined) {
+    raiseMin(options.start, false);
+  }
+  if (options.startAfter !== undefined) {
+    raiseMin(options.startAfter, true);
+  }
+  if (options.end !== undefined) {
+    lowerMax(options.end, true);
+  }
+
+  const format = (bound: LexBound | undefined, infinity: string) =>
+    bound ? `${bound.exclusive ? "(" : "["}${bound.value}` : infinity;
+  return [format(min, "-"), format(max, "+")];
+}
+
+function parseLexBound(value: string | undefined): { value: string; exclusive: boolean; infinity?: "-" | "+" } | undefined {
+  if (value === "-" || value === "+") {
+    return { value: "", exclusive: false, infinity: value };
+  }
+  if (value?.startsWith("[") || value?.startsWith("(")) {
+    return { value: value.slice(1), exclusive: value.startsWith("(") };
+  }
+  return undefined;
+}
+
+function compareBytes(a: string, b: string) {
+  return Buffer.compare(Buffer.from(a), Buffer.from(b));
+}
+
+function isAboveMin(member: string, min: NonNullable<ReturnType<typeof parseLexBound>>) {
+  if (min.infinity) return min.infinity === "-";
+  const comparison = compareBytes(member, min.value);
+  return min.exclusive ? comparison > 0 : comparison >= 0;
+}
+
+function isBelowMax(member: string, max: NonNullable<ReturnType<typeof parseLexBound>>) {
+  if (max.infinity) return max.infinity === "+";
+  const comparison = compareBytes(member, max.value);
+  return max.exclusive ? comparison < 0 : comparison <= 0;
+}
+
+function findMember(members: string[], member: string) {
+  let low = 0;
+  let high = members.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    const comparison = compareBytes(members[middle], member);
+    if (comparison === 0) {
+      return { found: true, index: middle };
+    }
+    if (comparison < 0) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return { found: false, index: low };
+}
+
+function wrongType() {
+  return new RedisReplyError("WRONGTYPE Operation against a key holding the wrong kind of value");
+}
+
+function wrongArguments(command: string) {
+  return new RedisReplyError(`ERR wrong number of arguments for '${command.toLowerCase()}' command`);
+}
+
+function normalizeRedisLimit(value: number) {
+  if (!Number.isFinite(value) || value < 0) {
+    return 0;
+  }
+
+  return Math.floor(value);
+}
+
+function parseRedisUrl(url: string | undefined): RedisConnectionOptions {
+  if (!url) {
+    return {};
+  }
+
+  const parsed = new URL(url);
+  const db = parsed.pathname.replace(/^\//, "");
+  return {
+    host: parsed.hostname || undefined,
+    port: parsed.port ? Number(parsed.port) : undefined,
+    username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    db: db ? Number(db) : undefined,
+  };
+}
@@ -7,7 +7,13 @@ import {
   syncClass,
   DELETE_TOKEN,
   generateShortUUID,
-  createStatesSnapshotDeep
+  createStatesSnapshotDeep,
+  BinarySyncEncoder,
+  getSyncFieldsByPath,
+  encodeSyncValue,
+  decodeSyncValue,
+  type VisibilityIndex,
+  type VisibilityPredicate,
 } from "@signe/sync";
 import type * as Party from "./types/party";
 import {
@@ -15,17 +21,60 @@ import {
   buildObject,
   extractParams,
   isClass,
+  isPromise,
   throttle,
 } from "./utils";
 import { ServerResponse } from "./request/response";
+import { ActionError, type ActionErrorCode } from "./errors";
+import { RoomHistory } from "./history";
+import { mergeSyncPackets, SyncLog } from "./sync-log";
+import { TickLoop, type TickMetadata } from "./tick";
+import { isEventRecipient, type EmitOptions, type EventMetadata } from "./events";
+import type { RoomMigrations } from "./decorators";
 import { createCorsInterceptor } from "./request/cors";
-import { Signal, WritableSignal } from "@signe/reactive";
+import { isCrdtSignal, isSignal, Signal, WritableSignal } from "@signe/reactive";
 
 const Message = z.object({
   action: z.string(),
   value: z.any(),
+  id: z.union([z.string(), z.number()]).optional(),
+  seq: z.number().optional(),
 });
 
+const PatchMessage = z.object({
+  type: z.literal("patch"),
+  path: z.string().min(1),
+  value: z.any(),
+  seq: z.number().optional(),
+});
+
+const ResyncMessage = z.object({
+  type: z.literal("resync"),
+  since: z.number().int().min(0),
+});
+
+// Path segments that would reach the prototypes instead of the state
+const FORBIDDEN_PATH_PARTS = new Set(["__proto__", "prototype", "constructor"]);
+
+// Whether a segment of the path, before the last one, holds a primitive that `load()` cannot write into.
+// The missing segments are created by `load()`, and the CRDT signals merge the entries themselves.
+const reachesPrimitive = (root: any, parts: string[]) => {
+  let current = root;
+  for (const part of parts.slice(0, -1)) {
+    current = current instanceof Map ? current.get(part) : current[part];
+    if (current === undefined || isCrdtSignal(current)) {
+      return false;
+    }
+    if (isSignal(current)) {
+      current = current();
+    }
+    if (current === null || typeof current !== "object") {
+      return true;
+    }
+  }
+  return false;
+};
+
 type CreateRoomOptions = {
   getMemoryAll?: boolean;
   sessionExpiryTime?: number;
@@ -50,6 +99,12 @@ export type UserStorageRestoreContext<TUser = any, TSnapshot = any> = {
   legacy: boolean;
 };
 
+type InterestChanges = {
+  packet: any;
+  added: Record<string, string[]>;
+  removed: Record<string, string[]>;
+};
+
 type SessionData = {
   publicId: string;
   state?: any;
@@ -91,6 +146,7 @@ const TRANSFER_PREFIX = "transfer:";
 const INTERNAL_PREFIX = "$room:";
 const SESSION_GC_LAST_RUN_KEY = `${INTERNAL_PREFIX}session-gc:last-run`;
 const TRANSFER_GC_LAST_RUN_KEY = `${INTERNAL_PREFIX}transfer-gc:last-run`;
+const SCHEMA_VERSION_KEY = `${INTERNAL_PREFIX}schema-version`;
 const DEFAULT_TRANSFER_EXPIRY_MS = 5 * 60 * 1000;
 
 /**
@@ -118,6 +174,16 @@ const DEFAULT_TRANSFER_EXPIRY_MS = 5 * 60 * 1000;
 export class Server implements Party.Server {
   subRoom = null;
   rooms: any[] = [];
+  private binaryEncoders = new WeakMap<Party.Connection, BinarySyncEncoder>();
+  private interestSets = new WeakMap<Party.Connection, Map<string, Set<string>>>();
+  // Indexes of the collections (see `VisibilityPredicate.index`), built once for the connections receiving a packet
+  private visibilityIndexes = new WeakMap<object, Map<string, { entities: object; index: VisibilityIndex }>>();
+  // Predicted actions and patches of each connection, in the order they were received
+  private pendingAcks = new WeakMap<Party.Connection, { seq: number; done: boolean }[]>();
+  // Packets sent to a connection while its predicted actions are processed
+  private heldPackets = new WeakMap<Party.Connection, any[]>();
+  // Version of the last sync packet sent to each connection
+  private syncVersions = new WeakMap<Party.Connection, number>();
 
   /**
    * @constructor
@@ -315,18 +381,68 @@ export class Server implements Party.Server {
     return nextSnapshot;
   }
 
+  /**
+   * Runs the `@Room({ migrations })` of the versions between the stored schema
+   * version and the room version, in order. Rooms without stored state start
+   * directly at the room version; state stored before versioning is version 1.
+   */
+  private async migrateStorageSnapshot(instance: any, snapshot: any) {
+    const version: number = instance.constructor._schemaVersion ?? 1;
+    const migrations: RoomMigrations = instance.constructor._migrations ?? {};
+    const isEmpty = !snapshot || Object.keys(snapshot).length === 0;
+    const versionKeyValue = await this.room.storage.get<number>(SCHEMA_VERSION_KEY);
+    const storedVersion = versionKeyValue ?? (isEmpty ? version : 1);
+
+    if (storedVersion > version) {
+      throw new Error(
+        `Room ${this.room.id} was stored with schema version ${storedVersion}, newer than the room version ${version}`
+      );
+    }
+
+    let migratedSnapshot = snapshot;
+    for (let toVersion = storedVersion + 1; toVersion <= version; toVersion++) {
+      const migration = migrations[toVersion];
+      if (!migration) continue;
+      const context = { fromVersion: toVersion - 1, toVersion, room: this.room };
+      const migrateRoom = typeof migration === "function" ? migration : migration.room;
+      const migrateUser = typeof migration === "function" ? undefined : migration.user;
+
+      if (migrateRoom) {
+        migratedSnapshot = (await awaitReturn(migrateRoom(migratedSnapshot, context))) ?? migratedSnapshot;
+      }
+
+      const usersPropName = this.getUsersPropName(instance);
+      const usersSnapshot = usersPropName ? migratedSnapshot?.[usersPropName] : undefined;
+      if (migrateUser && usersSnapshot && typeof usersSnapshot === "object") {
+        for (const [publicId, userSnapshot] of Object.entries(usersSnapshot)) {
+          usersSnapshot[publicId] = (await awaitReturn(
+            migrateUser(userSnapshot, { ...context, publicId })
+          )) ?? userSnapshot;
+        }
+      }
+    }
+
+    return {
+      snapshot: migratedSnapshot,
+      storedVersion,
+      version,
+      versionSaved: versionKeyValue !== undefined,
+    };
+  }
+
   private async restoreStorageSnapshot(
     instance: any,
     snapshot: any,
     options: { legacy: boolean }
   ) {
+    const migration = await this.migrateStorageSnapshot(instance, snapshot);
     const restoreSnapshot = instance["onStorageRestore"];
-    let restoredSnapshot = snapshot;
+    let restoredSnapshot = migration.snapshot;
 
     if (typeof restoreSnapshot === "function") {
       const result = await awaitReturn(
         restoreSnapshot.call(instance, {
-          snapshot,
+          snapshot: restoredSnapshot,
           room: this.room,
           server: this,
           legacy: options.legacy,
@@ -337,7 +453,12 @@ export class Server implements Party.Server {
       }
     }
 
-    return this.restoreUsersStorageSnapshot(instance, restoredSnapshot, options);
+    return {
+      snapshot: await this.restoreUsersStorageSnapshot(instance, restoredSnapshot, options),
+      storedVersion: migration.storedVersion,
+      version: migration.version,
+      versionSaved: migration.versionSaved,
+    };
   }
 
   private createStorageMetrics(): StorageMetrics {
@@ -378,6 +499,30 @@ export class Server implements Party.Server {
   }
 
   async send(conn: Party.Connection, obj: any, subRoom: any) {
+    const held = this.heldPackets.get(conn);
+    if (held) {
+      held.push(structuredClone(obj));
+      return;
+    }
+    let interest: InterestChanges | null = null;
+    if (obj?.type === "sync") {
+      interest = this.applyInterest(conn, obj, subRoom);
+      if (interest) {
+        obj = interest.packet;
+        if (obj === null) return;
+      }
+      obj = { ...obj, timestamp: Date.now() };
+      const ack = this.takeAck(conn);
+      if (ack !== undefined) {
+        obj.ack = ack;
+      }
+      obj.version ??= subRoom.$syncLog?.version;
+      const lastVersion = this.syncVersions.get(conn);
+      if (obj.from === undefined && lastVersion !== undefined && lastVersion < obj.version - 1) {
+        // The packets in between were not sent to this connection (interest management), not lost
+        obj.from = lastVersion;
+      }
+    }
     obj = structuredClone(obj);
     if (subRoom.interceptorPacket) {
       const signal = this.getUsersProperty(subRoom);
@@ -386,7 +531,159 @@ export class Server implements Party.Server {
       obj = await awaitReturn(subRoom["interceptorPacket"]?.(user, obj, conn));
       if (obj === null) return;
     }
-    conn.send(JSON.stringify(obj));
+    if (obj?.type === "sync" && obj.version !== undefined) {
+      this.syncVersions.set(conn, obj.version);
+    }
+    conn.send(this.encodePacket(conn, obj, subRoom));
+
+    if (interest) {
+      if (Object.keys(interest.added).length > 0) {
+        await this.send(conn, { type: "interest.add", value: interest.added }, subRoom);
+      }
+      if (Object.keys(interest.removed).length > 0) {
+        await this.send(conn, { type: "interest.remove", value: interest.removed }, subRoom);
+      }
+    }
+  }
+
+  /**
+   * @method applyInterest
+   * @private
+   * @param {Party.Connection} conn - The connection receiving the packet.
+   * @param {any} packet - The sync packet.
+   * @param {any} subRoom - The room instance.
+   * @description Filters the collections declared with `@sync({ visibility })` for the viewer of the connection.
+   * Entries entering the viewer's interest set are sent in full (from `$memoryAll`), entries leaving it are sent as `$delete`.
+   * Shard connections are not filtered, since the shard re-broadcasts the same packet to all of its clients.
+   * @returns {InterestChanges | null} The filtered packet (`null` if nothing is left to send) and the entries added/removed per collection,
+   * or `null` if the room does not use visibility.
+   */
+  private applyInterest(conn: Party.Connection, packet: any, subRoom: any): InterestChanges | null {
+    const syncMetadata: Map<string, any> | undefined = subRoom?.constructor?._syncMetadata;
+    if (!syncMetadata || (conn.state as any)?.shard) return null;
+    const collections = [...syncMetadata.entries()].filter(([, options]) => typeof options.visibility === "function");
+    if (collections.length === 0) return null;
+
+    const viewerId = (conn.state as any)?.publicId;
+    const viewer = this.getUsersProperty(subRoom)?.()[viewerId];
+    let interestSets = this.interestSets.get(conn);
+    if (!interestSets) {
+      interestSets = new Map();
+      this.interestSets.set(conn, interestSets);
+    }
+
+    const value = { ...(packet.value ?? {}) };
+    const changes: InterestChanges = { packet: null, added: {}, removed: {} };
+    const hadValues = Object.keys(value).length > 0;
+
+    for (const [key, options] of collections) {
+      const entities = subRoom[key]?.() ?? {};
+      const known = interestSets.get(key) ?? new Set<string>();
+      const visible = new Set<string>();
+      const candidates = options.visibility.index
+        ? this.getVisibilityIndex(packet, key, entities, options.visibility).candidates(viewer)
+        : Object.keys(entities);
+      for (const entityId of candidates) {
+        const entity = entities[entityId];
+        if (entity === viewer || options.visibility(viewer, entity)) {
+          visible.add(entityId);
+        }
+      }
+      if (viewer && entities[viewerId] === viewer) {
+        visible.add(viewerId);
+      }
+
+      const incoming = value[key] && typeof value[key] === "object" ? value[key] : {};
+      const filtered: Record<string, any> = {};
+      const added: string[] = [];
+      const removed: string[] = [];
+
+      for (const entityId of Object.keys(incoming)) {
+        if (!known.has(entityId)) continue;
+        if (incoming[entityId] === DELETE_TOKEN) {
+          filtered[entityId] = DELETE_TOKEN;
+          removed.push(entityId);
+        } else if (visible.has(entityId)) {
+          filtered[entityId] = incoming[entityId];
+        }
+      }
+      for (const entityId of visible) {
+        if (known.has(entityId)) continue;
+        filtered[entityId] = subRoom.$memoryAll?.[key]?.[entityId] ?? incoming[entityId] ?? {};
+        added.push(entityId);
+      }
+      for (const entityId of known) {
+        if (visible.has(entityId) || entityId in filtered) continue;
+        filtered[entityId] = DELETE_TOKEN;
+        removed.push(entityId);
+      }
+
+      interestSets.set(key, visible);
+      if (Object.keys(filtered).length > 0) {
+        value[key] = filtered;
+      } else {
+        delete value[key];
+      }
+      if (added.length > 0) changes.added[key] = added;
+      if (removed.length > 0) changes.removed[key] = removed;
+    }
+
+    if (hadValues && Object.keys(value).length === 0) {
+      return changes;
+    }
+    changes.packet = { ...packet, value };
+    return changes;
+  }
+
+  /**
+   * @method getVisibilityIndex
+   * @private
+   * @param {any} packet - The sync packet being sent.
+   * @param {string} key - The name of the collection.
+   * @param {Record<string, any>} entities - The entries of the collection.
+   * @param {VisibilityPredicate} visibility - The predicate of the collection, with its `index`.
+   * @description Returns the index of the collection for the packet. A broadcast sends the same packet to
+   * every connection, so the index is built once for all of them.
+   * @returns {VisibilityIndex} The index
+   */
+  private getVisibilityIndex(packet: any, key: string, entities: Record<string, any>, visibility: VisibilityPredicate): VisibilityIndex {
+    let indexes = this.visibilityIndexes.get(packet);
+    if (!indexes) {
+      indexes = new Map();
+      this.visibilityIndexes.set(packet, indexes);
+    }
+    let cached = indexes.get(key);
+    if (!cached || cached.entities !== entities) {
+      cached = { entities, index: visibility.index!(entities) };
+      indexes.set(key, cached);
+    }
+    return cached.index;
+  }
+
+  /**
+   * @method encodePacket
+   * @private
+   * @param {Party.Connection} conn - The connection receiving the packet.
+   * @param {any} obj - The packet to encode.
+   * @param {any} subRoom - The room instance.
+   * @description Encodes `sync` packets as binary frames when the room uses `protocol: 'binary'`.
+   * Other packets, shard connections and clients connected through a shard (whose forwarding is JSON only) use JSON.
+   * @returns {string | Uint8Array} The encoded packet
+   */
+  private encodePacket(conn: Party.Connection, obj: any, subRoom: any): string | Uint8Array {
+    const useBinary = obj?.type === "sync"
+      && subRoom?.protocol === "binary"
+      && !(conn.state as any)?.shard
+      && !(conn as any).viaShard;
+    if (!useBinary) {
+      return JSON.stringify(obj);
+    }
+    let encoder = this.binaryEncoders.get(conn);
+    if (!encoder) {
+      encoder = new BinarySyncEncoder();
+      this.binaryEncoders.set(conn, encoder);
+    }
+    return encoder.encode(obj);
   }
 
   broadcast(obj: any, subRoom: any) {
@@ -395,6 +692,56 @@ export class Server implements Party.Server {
     }
   }
 
+  /**
+   * @method emitEvent
+   * @private
+   * @param {string} event - The name of the event.
+   * @param {any} payload - The payload, encoded like sync values (Date, Map, registered types).
+   * @param {EmitOptions} options - The recipients of the event.
+   * @param {any} subRoom - The room instance.
+   * @description Sends an `event` packet to the recipients. Events sent to everyone are
+   * broadcast once to each shard, which re-broadcasts them to all of its clients; targeted
+   * events are forwarded to each matching client of a shard with its `targetClientId`.
+   */
+  private emitEvent(event: string, payload: any, options: EmitOptions, subRoom: any) {
+    const packet = { type: "event", event, value: encodeSyncValue(payload) };
+    if (options.to === undefined) {
+      this.broadcast(packet, subRoom);
+      return;
+    }
+    const users = this.getUsersProperty(subRoom)?.();
+    for (const conn of this.room.getConnections()) {
+      const recipients = (conn.state as any)?.shard ? this.getShardClientConnections(conn) : [conn];
+      for (const recipient of recipients) {
+        const publicId = (recipient.state as any)?.publicId;
+        const user = publicId ? users?.[publicId] : undefined;
+        if (isEventRecipient(options.to, user, publicId, recipient)) {
+          this.send(recipient, packet, subRoom);
+        }
+      }
+    }
+  }
+
+  /**
+   * @method getShardClientConnections
+   * @private
+   * @param {Party.Connection} shardConnection - The connection of the shard.
+   * @description Returns a connection for each client connected through the shard, sending
+   * its packets to that client only.
+   * @returns {Party.Connection[]}
+   */
+  private getShardClientConnections(shardConnection: Party.Connection): Party.Connection[] {
+    const clients: Map<string, any> = (shardConnection.state as any)?.clients ?? new Map();
+    return Array.from(clients, ([privateId, state]) => ({
+      id: privateId,
+      state,
+      viaShard: true,
+      send: (data: string) => {
+        shardConnection.send(JSON.stringify({ targetClientId: privateId, data }));
+      },
+    }) as unknown as Party.Connection);
+  }
+
   /**
    * @method onStart
    * @async
@@ -418,6 +765,23 @@ export class Server implements Party.Server {
     }
   }
 
+  /**
+   * @method flushPersistence
+   * @async
+   * @description Writes the state changes still held by `throttleStorage` and waits for
+   * the pending storage writes. Used by transports before handing the room over to
+   * another process.
+   * @returns {Promise<void>}
+   *
+   * @example
+   * ```typescript
+   * await server.flushPersistence();
+   * ```
+   */
+  async flushPersistence() {
+    await (this.subRoom as any)?.$flushPersist?.();
+  }
+
   async runGarbageCollector() {
     await this.garbageCollector({ sessionExpiryTime: -1 });
   }
@@ -710,6 +1074,18 @@ export class Server implements Party.Server {
       const memory = await this.listStorage(STATE_PREFIX);
       metrics.loadStateKeys = memory.size;
       const tmpObject: any = root || {};
+      const loadSnapshot = async (snapshot: any, legacy: boolean) => {
+        const restored = await this.restoreStorageSnapshot(instance, snapshot, { legacy });
+        load(instance, restored.snapshot, true);
+        const migrated = restored.storedVersion !== restored.version;
+        if (migrated || this.containsDeleteToken(restored.snapshot)) {
+          await this.compactStateStorage(instance);
+        }
+        // Unversioned state is read as version 1, so rooms that never set `version` keep their storage unchanged
+        if (migrated || (!restored.versionSaved && restored.version !== 1)) {
+          await this.room.storage.put(SCHEMA_VERSION_KEY, restored.version);
+        }
+      };
       for (let [storageKey, value] of memory) {
         const key = storageKey.slice(STATE_PREFIX.length);
         if (key === ".") {
@@ -748,24 +1124,12 @@ export class Server implements Party.Server {
         if (legacyDeleteKeys.length > 0) {
           await this.deleteStorageKeys(legacyDeleteKeys);
         }
-        const restoredLegacyObject = await this.restoreStorageSnapshot(instance, legacyObject, {
-          legacy: true,
-        });
-        load(instance, restoredLegacyObject, true);
-        if (this.containsDeleteToken(restoredLegacyObject)) {
-          await this.compactStateStorage(instance);
-        }
+        await loadSnapshot(legacyObject, true);
         metrics.loadMs = Date.now() - startedAt;
         return;
       }
 
-      const restoredObject = await this.restoreStorageSnapshot(instance, tmpObject, {
-        legacy: false,
-      });
-      load(instance, restoredObject, true);
-      if (this.containsDeleteToken(restoredObject)) {
-        await this.compactStateStorage(instance);
-      }
+      await loadSnapshot(tmpObject, false);
       metrics.loadMs = Date.now() - startedAt;
     };
 
@@ -774,6 +1138,54 @@ export class Server implements Party.Server {
     instance.$autoSync = instance["autoSync"] !== false; // Default to true
     instance.$pendingSync = new Map<string, any>();
     instance.$pendingInitialSync = new Map<Party.Connection, string>(); // Store connections waiting for initial sync with their publicId
+    instance.$history = new RoomHistory(instance["history"]);
+    instance.$syncLog = new SyncLog(instance["resyncBuffer"] ?? 100);
+    // Number of open batches: overlapping async batches send their changes when the last one settles
+    let batchDepth = 0;
+    // Events emitted during a batch, sent after its sync packet
+    const batchedEvents: (() => void)[] = [];
+    const flushBatch = () => {
+      if (--batchDepth > 0) return;
+      if (instance.$autoSync && instance.$pendingSync.size > 0) {
+        const packet = buildObject(instance.$pendingSync, instance.$memoryAll);
+        instance.$pendingSync.clear();
+        instance.$syncLog.record(packet);
+        this.broadcast({ type: "sync", value: packet }, instance);
+      }
+      for (const emit of batchedEvents.splice(0)) {
+        emit();
+      }
+    };
+    /**
+     * Runs `fn` and sends the signal changes it makes as a single sync packet.
+     * Used by `@Tick()` methods; nested and overlapping calls join the open
+     * batch, which is sent when the last of them ends. When `fn` returns a
+     * promise, the batch lasts until it settles, so the changes made after an
+     * `await` are sent in the same packet.
+     *
+     * @method $batchSync
+     * @param {() => T} fn - Function changing the state of the room.
+     * @returns {T} The value returned by `fn`.
+     */
+    instance.$batchSync = <T>(fn: () => T): T => {
+      batchDepth++;
+      let result: T;
+      try {
+        result = fn();
+      } catch (error) {
+        flushBatch();
+        throw error;
+      }
+      if (isPromise(result)) {
+        return result.finally(flushBatch) as T;
+      }
+      flushBatch();
+      return result;
+    }
+    const ticks: Map<string, TickMetadata> | undefined = instance.constructor["_tickMetadata"];
+    instance.$tickLoops = Array.from(ticks?.values() ?? [], ({ key, hz }) =>
+      new TickLoop(hz, (dt, tick) => instance.$batchSync(() => instance[key](dt, tick)))
+    );
     instance.$send = (conn: Party.Connection, obj: any) => {
       return this.send(conn, obj, instance)
     }
@@ -811,6 +1223,7 @@ export class Server implements Party.Server {
         }
         packet = buildObject(instance.$pendingSync, instance.$memoryAll);
         instance.$pendingSync.clear();
+        instance.$syncLog.record(packet);
       } else {
         // No pending changes, broadcast current state from memory
         packet = instance.$memoryAll;
@@ -910,14 +1323,15 @@ export class Server implements Party.Server {
       if (options.getMemoryAll) {
         buildObject(values, instance.$memoryAll);
       }
+      instance.$history.record(values);
       // During initialization in hibernate mode, skip entirely
       if (init && this.isHibernate) {
         init = false;
         return;
       }
       
-      // If autoSync is disabled, store changes in pendingSync instead of broadcasting
-      if (!instance.$autoSync) {
+      // If autoSync is disabled or a batch is running, store changes in pendingSync instead of broadcasting
+      if (!instance.$autoSync || batchDepth > 0) {
         // Merge pending changes into $pendingSync
         for (const [path, value] of values) {
           instance.$pendingSync.set(path, value);
@@ -928,6 +1342,7 @@ export class Server implements Party.Server {
       
       // Auto sync: broadcast immediately (even during init if autoSync is enabled)
       const packet = buildObject(values, instance.$memoryAll);
+      instance.$syncLog.record(packet);
       this.broadcast(
         {
           type: "sync",
@@ -991,6 +1406,10 @@ export class Server implements Party.Server {
       await persistQueue;
     }
 
+    let flushPending = async () => {
+      await persistQueue;
+    };
+
     const debouncePersist = (wait: number) => {
       let timeout: ReturnType<typeof setTimeout> | null = null;
       let flushing = false;
@@ -1029,7 +1448,7 @@ export class Server implements Party.Server {
         }
       };
 
-      return (values: Map<string, any>) => {
+      const persist = (values: Map<string, any>) => {
         if (initPersist) {
           values.clear();
           return;
@@ -1041,14 +1460,86 @@ export class Server implements Party.Server {
         values.clear();
         schedule();
       };
+
+      // Writes the pending values at once, without waiting for the debounce delay
+      flushPending = async () => {
+        if (timeout) {
+          clearTimeout(timeout);
+          timeout = null;
+        }
+        const values = new Map(pending);
+        pending.clear();
+        if (values.size) {
+          await persistCb(values);
+        }
+        await persistQueue;
+      };
+
+      return persist;
     };
 
     // Set up syncing and persistence with throttling to optimize performance
+    const onSync: ((values: Map<string, any>) => void) & { flush?: () => void } =
+      instance["throttleSync"] ? throttle(syncCb, instance["throttleSync"]) : syncCb;
     syncClass(instance, {
-      onSync: instance["throttleSync"] ? throttle(syncCb, instance["throttleSync"]) : syncCb,
+      onSync,
       onPersist: instance["throttleStorage"] ? debouncePersist(instance["throttleStorage"]) : persistCb,
     });
 
+    /**
+     * Writes the changes waiting for `throttleStorage` to the storage and waits
+     * for the pending writes. Called before the room is handed over to another
+     * process, so that its new owner loads the latest state.
+     *
+     * @method $flushPersist
+     * @returns {Promise<void>}
+     */
+    instance.$flushPersist = () => flushPending();
+
+    /**
+     * Sends an event to the clients, apart from the state sync. The event is sent
+     * after the sync packets of the changes made before it: changes held by
+     * `throttleSync` are sent first, and events emitted in a `$batchSync()` wait
+     * for its packet. With `autoSync` disabled, the event is sent at once.
+     *
+     * @method $emit
+     * @param {string} event - The name of the event.
+     * @param {any} [payload] - The payload of the event.
+     * @param {EmitOptions} [options] - `to`: users, public ids or a filter receiving the event (all by default).
+     *
+     * @example
+     * ```typescript
+     * this.$emit("chat", { text: "Hello" });
+     * this.$emit("whisper", { text: "Psst" }, { to: [player] });
+     * this.$emit("alert", { zone: 2 }, { to: (user) => user?.zone() === 2 });
+     * ```
+     */
+    instance.$emit = (event: string, payload?: any, emitOptions: EmitOptions = {}) => {
+      const emit = () => this.emitEvent(event, payload, emitOptions, instance);
+      if (batchDepth > 0) {
+        batchedEvents.push(emit);
+        return;
+      }
+      if (instance.$autoSync) {
+        onSync.flush?.();
+      }
+      emit();
+    };
+
+    const events: Map<string, EventMetadata> | undefined = instance.constructor["_eventMetadata"];
+    for (const { key, name } of events?.values() ?? []) {
+      const method = instance[key];
+      const emitResult = (payload: any) => {
+        if (payload !== undefined) instance.$emit(name, payload);
+        return payload;
+      };
+      // Sync methods emit at once, to keep the order with the changes they make
+      instance[key] = (...args: any[]) => {
+        const result = method.apply(instance, args);
+        return isPromise(result) ? result.then(emitResult) : emitResult(result);
+      };
+    }
+
     await loadMemory();
 
     initPersist = false
@@ -1408,6 +1899,34 @@ export class Server implements Party.Server {
       // Auto sync disabled: store connection to receive sync on next $applySync()
       subRoom.$pendingInitialSync.set(conn, publicId);
     }
+
+    this.startTicks(subRoom);
+  }
+
+  /**
+   * @method startTicks
+   * @private
+   * @param {any} subRoom - The room instance.
+   * @description Starts the `@Tick()` loops of the room. Not used in hibernate mode,
+   * since the room instance does not outlive the event being handled.
+   */
+  private startTicks(subRoom: any) {
+    if (this.isHibernate) return;
+    for (const loop of subRoom.$tickLoops ?? []) {
+      loop.start();
+    }
+  }
+
+  /**
+   * @method stopTicks
+   * @private
+   * @param {any} subRoom - The room instance.
+   * @description Stops the `@Tick()` loops of the room, e.g. when the last connection is closed.
+   */
+  private stopTicks(subRoom: any) {
+    for (const loop of subRoom.$tickLoops ?? []) {
+      loop.stop();
+    }
   }
 
   /**
@@ -1490,9 +2009,19 @@ export class Server implements Party.Server {
       return;
     }
 
+    const resync = ResyncMessage.safeParse(json);
+    if (resync.success) {
+      const subRoom = await this.getSubRoom();
+      if (subRoom) {
+        await this.handleResync(resync.data.since, sender, subRoom);
+      }
+      return;
+    }
+
     // Validate incoming messages
+    const patch = PatchMessage.safeParse(json);
     const result = Message.safeParse(json);
-    if (!result.success) {
+    if (!patch.success && !result.success) {
       return;
     }
 
@@ -1503,11 +2032,146 @@ export class Server implements Party.Server {
       return;
     }
 
+    const seq = patch.success ? patch.data.seq : result.data.seq;
+    const handle = () => patch.success
+      ? this.handlePatch(patch.data, sender, subRoom)
+      : this.handleAction(result.data, sender, subRoom);
+    if (seq === undefined) {
+      await handle();
+      return;
+    }
+
+    // Predicted action or patch: the packets sent to this connection are held until it is
+    // processed, then sent with the acknowledgement. The other connections are not held.
+    const ack = { seq, done: false };
+    const acks = this.pendingAcks.get(sender) ?? [];
+    acks.push(ack);
+    this.pendingAcks.set(sender, acks);
+    if (!this.heldPackets.has(sender)) {
+      this.heldPackets.set(sender, []);
+    }
+    try {
+      await handle();
+    } finally {
+      ack.done = true;
+      if (acks.every((pending) => pending.done)) {
+        await this.releasePackets(sender, subRoom);
+        await this.flushAck(sender, subRoom);
+      }
+    }
+  }
+
+  /**
+   * @method handleResync
+   * @private
+   * @async
+   * @param {number} since - The version of the last sync packet received by the client.
+   * @param {Party.Connection} sender - The connection that missed sync packets.
+   * @param {any} subRoom - The room instance.
+   * @description Sends the changes made since a version, merged into one sync packet, when the
+   * packets are still in the sync log of the room (see `resyncBuffer`). Otherwise, sends the
+   * whole state (`$memoryAll`) marked with `full: true`, so that the client replaces its state
+   * and drops what was deleted in the meantime.
+   * @returns {Promise<void>}
+   */
+  private async handleResync(since: number, sender: Party.Connection, subRoom: any) {
+    const changes = subRoom.$syncLog.since(since);
+    if (changes) {
+      await this.send(sender, { type: "sync", value: changes, from: since }, subRoom);
+      return;
+    }
+    await this.send(sender, { type: "sync", value: subRoom.$memoryAll, from: since, full: true }, subRoom);
+  }
+
+  /**
+   * @method handlePatch
+   * @private
+   * @async
+   * @param {z.infer<typeof PatchMessage>} data - The validated patch.
+   * @param {Party.Connection} sender - The connection that sent the patch.
+   * @param {any} subRoom - The room instance.
+   * @description Applies a change sent by a client to a synced property with `load()`, if the
+   * `clientWritable` predicate of the innermost property containing the path allows it. The change
+   * is then synced to every client like the changes made by the server. A rejected patch is
+   * answered with a `patch.rejected` packet, and the next sync packet rolls the client back.
+   * The value is decoded (see `registerSyncType()`) before the guards and the predicate see it.
+   * Paths going below a primitive value, and values that cannot be decoded, are rejected.
+   * @returns {Promise<void>}
+   */
+  private async handlePatch(data: z.infer<typeof PatchMessage>, sender: Party.Connection, subRoom: any) {
+    const { path, seq } = data;
+    const reject = () => this.send(sender, { type: "patch.rejected", value: { path, seq } }, subRoom);
+
+    const parts = path.split(".");
+    if (parts.some((part) => part === "" || FORBIDDEN_PATH_PARTS.has(part)) || reachesPrimitive(subRoom, parts)) {
+      await reject();
+      return;
+    }
+
+    let value: any;
+    try {
+      value = decodeSyncValue(data.value);
+    } catch {
+      await reject();
+      return;
+    }
+
+    const roomGuards = subRoom.constructor['_roomGuards'] || [];
+    for (const guard of roomGuards) {
+      const isAuthorized = await guard(sender, value, this.room);
+      if (!isAuthorized) {
+        await reject();
+        return;
+      }
+    }
+
+    const signal = this.getUsersProperty(subRoom);
+    const { publicId } = sender.state as any;
+    const user = signal?.()[publicId];
+    const field = getSyncFieldsByPath(subRoom, path)
+      .reverse()
+      .find(({ options }) => options.clientWritable);
+    const isAuthorized = field
+      ? await awaitReturn(field.options.clientWritable!(user, path, value, field.instance))
+      : false;
+    if (!isAuthorized) {
+      await reject();
+      return;
+    }
+
+    try {
+      load(subRoom, { [path]: value });
+    } catch {
+      await reject();
+    }
+  }
+
+  /**
+   * @method handleAction
+   * @private
+   * @async
+   * @param {z.infer<typeof Message>} data - The validated message.
+   * @param {Party.Connection} sender - The connection that sent the message.
+   * @param {any} subRoom - The room instance.
+   * @description Checks the guards and the body of an action, then runs its handler.
+   * With a request id, the result or the error is sent back to the sender.
+   * @returns {Promise<void>}
+   */
+  private async handleAction(data: z.infer<typeof Message>, sender: Party.Connection, subRoom: any) {
+    const requestId = data.id;
+    const hasRequestId = requestId !== undefined;
+    const reject = (code: ActionErrorCode, message: string, details?: any) => {
+      if (hasRequestId) {
+        return this.sendActionError(sender, requestId, new ActionError(code, message, details), subRoom);
+      }
+    };
+
     // Check room guards
     const roomGuards = subRoom.constructor['_roomGuards'] || [];
     for (const guard of roomGuards) {
-      const isAuthorized = await guard(sender, result.data.value, this.room);
+      const isAuthorized = await guard(sender, data.value, this.room);
       if (!isAuthorized) {
+        await reject("UNAUTHORIZED", "Not authorized");
         return;
       }
     }
@@ -1516,14 +2180,18 @@ export class Server implements Party.Server {
     const signal = this.getUsersProperty(subRoom);
     const { publicId } = sender.state as any;
     const user = signal?.()[publicId];
-    const actionName = actions?.get(result.data.action);
+    const actionName = actions?.get(data.action);
+    let handlerKey: string | undefined;
+    let handlerValue: any;
+
     if (actionName) {
 
       // Check all guards if they exist
       const guards = subRoom.constructor['_actionGuards']?.get(actionName.key) || [];
       for (const guard of guards) {
-        const isAuthorized = await guard(sender, result.data.value, this.room);
+        const isAuthorized = await guard(sender, data.value, this.room);
         if (!isAuthorized) {
+          await reject("UNAUTHORIZED", "Not authorized");
           return;
         }
       }
@@ -1531,35 +2199,160 @@ export class Server implements Party.Server {
       // Validate action body if a validation schema is defined
       if (actionName.bodyValidation) {
         const bodyResult = actionName.bodyValidation.safeParse(
-          result.data.value
+          data.value
         );
         if (!bodyResult.success) {
+          await reject("INVALID_BODY", "Invalid action body", bodyResult.error.issues);
           return;
         }
       }
-      // Execute the action
-      await awaitReturn(
-        subRoom[actionName.key](user, result.data.value, sender)
-      );
-      return;
+      handlerKey = actionName.key;
+      handlerValue = data.value;
     }
+    else {
+      const unhandledAction = subRoom.constructor["_unhandledActionMetadata"];
+      if (!unhandledAction) {
+        await reject("ACTION_NOT_FOUND", `Action "${data.action}" not found`);
+        return;
+      }
 
-    const unhandledAction = subRoom.constructor["_unhandledActionMetadata"];
-    if (unhandledAction) {
       const guards = subRoom.constructor['_actionGuards']?.get(unhandledAction.key) || [];
       for (const guard of guards) {
-        const isAuthorized = await guard(sender, result.data, this.room);
+        const isAuthorized = await guard(sender, data, this.room);
         if (!isAuthorized) {
+          await reject("UNAUTHORIZED", "Not authorized");
           return;
         }
       }
+      handlerKey = unhandledAction.key;
+      handlerValue = data;
+    }
 
+    // Without a request id, errors propagate as before and the return value is ignored
+    if (!hasRequestId) {
       await awaitReturn(
-        subRoom[unhandledAction.key](user, result.data, sender)
+        subRoom[handlerKey](user, handlerValue, sender)
       );
+      return;
+    }
+
+    let actionResult: any;
+    try {
+      actionResult = await awaitReturn(
+        subRoom[handlerKey](user, handlerValue, sender)
+      );
+    } catch (error) {
+      await this.sendActionError(sender, requestId, error, subRoom);
+      return;
+    }
+    await this.send(sender, {
+      type: "action.result",
+      id: requestId,
+      value: encodeSyncValue(actionResult),
+    }, subRoom);
+  }
+
+  /**
+   * @method takeAck
+   * @private
+   * @param {Party.Connection} conn - The connection receiving a sync packet.
+   * @description Removes the processed actions at the head of the queue of the connection.
+   * Acknowledgements are cumulative on the client, so an action is not acknowledged while an
+   * action received before it is still processed.
+   * @returns {number | undefined} The sequence number to acknowledge, if any.
+   */
+  private takeAck(conn: Party.Connection): number | undefined {
+    const acks = this.pendingAcks.get(conn);
+    let seq: number | undefined;
+    while (acks?.length && acks[0].done) {
+      seq = acks.shift()!.seq;
+    }
+    return seq;
+  }
+
+  /**
+   * @method releasePackets
+   * @private
+   * @async
+   * @param {Party.Connection} conn - The connection whose predicted actions are processed.
+   * @param {any} subRoom - The room instance.
+   * @description Sends the packets held while the predicted actions of the connection were processed.
+   * Their sync packets are merged into the first one, which carries the acknowledgement, so that the
+   * client does not re-apply its predictions over the changes of the actions. A sync packet setting an
+   * object deleted by the previous ones is sent on its own (see `mergeSyncPackets()`). The events held after it
+   * keep their order and still arrive after the changes made before them.
+   * @returns {Promise<void>}
+   */
+  private async releasePackets(conn: Party.Connection, subRoom: any) {
+    const held = this.heldPackets.get(conn) ?? [];
+    this.heldPackets.delete(conn);
+    const packets: any[] = [];
+    let sync: any;
+    for (const packet of held) {
+      // Resync answers already hold the changes made since the version of the client
+      const merge = packet?.type === "sync" && packet.from === undefined && !packet.full;
+      const merged = merge && sync ? mergeSyncPackets(sync.value ?? {}, packet.value ?? {}) : null;
+      if (merged) {
+        sync.value = merged;
+        continue;
+      }
+      if (merge) {
+        sync = packet;
+      }
+      packets.push(packet);
+    }
+    for (const packet of packets) {
+      await this.send(conn, packet, subRoom);
     }
   }
 
+  /**
+   * @method flushAck
+   * @private
+   * @async
+   * @param {Party.Connection} conn - The connection that sent the predicted action.
+   * @param {any} subRoom - The room instance.
+   * @description Sends an empty sync packet carrying the acknowledgement when the packet with the
+   * changes of the action did not carry it (no change, rejected by a guard, filtered out...). With
+   * `autoSync` disabled, `throttleSync`, or changes still held by a batch, the acknowledgement is sent
+   * with the next sync packet instead, so that the client does not roll back before receiving the
+   * changes of the action.
+   * @returns {Promise<void>}
+   */
+  private async flushAck(conn: Party.Connection, subRoom: any) {
+    if (!this.pendingAcks.get(conn)?.[0]?.done) return;
+    if (!subRoom.$autoSync || subRoom["throttleSync"] || subRoom.$pendingSync.size > 0) return;
+    await this.send(conn, { type: "sync", value: {} }, subRoom);
+  }
+
+  /**
+   * @method sendActionError
+   * @private
+   * @async
+   * @param {Party.Connection} conn - The connection that sent the request.
+   * @param {string | number} id - The request id given by the client.
+   * @param {unknown} error - The error raised while processing the request.
+   * @param {any} subRoom - The room instance.
+   * @description Sends an `action.error` packet. Errors that are not an `ActionError` are reported as `ACTION_FAILED`
+   * with a generic message: their text may expose internals, so it is only logged on the server.
+   * @returns {Promise<void>}
+   */
+  private async sendActionError(conn: Party.Connection, id: string | number, error: unknown, subRoom: any) {
+    const actionError = error instanceof ActionError
+      ? error
+      : new ActionError("ACTION_FAILED", "Action failed");
+    if (!(error instanceof ActionError)) {
+      console.error("Error executing action:", error);
+    }
+    await this.send(conn, {
+      type: "action.error",
+      id,
+      code: actionError.code,
+      message: actionError.message,
+      ...(actionError.details !== undefined ? { details: actionError.details } : {}),
+    }, subRoom);
+  }
+
   /**
    * @method handleShardMessage
    * @private
@@ -1660,6 +2453,8 @@ export class Server implements Party.Server {
       }
     };
 
+    (virtualConnection as any).viaShard = true;
+
     // Initialize the client's state in the shard state
     if (!shardState.clients.has(privateId)) {
       shardState.clients.set(privateId, {});
@@ -1719,6 +2514,8 @@ export class Server implements Party.Server {
       }
     };
 
+    (virtualConnection as any).viaShard = true;
+
     // Process the payload using the regular message handler
     const payloadString = typeof payload === 'string' ? payload : JSON.stringify(payload);
     await this.onMessage(payloadString, virtualConnection as Party.Connection);
@@ -1791,6 +2588,10 @@ export class Server implements Party.Server {
       subRoom.$pendingInitialSync.delete(conn);
     }
 
+    if (Array.from(this.room.getConnections()).length === 0) {
+      this.stopTicks(subRoom);
+    }
+
     const signal = this.getUsersProperty(subRoom);
 
     if (!conn.state) {
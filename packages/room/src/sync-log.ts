@@ -0,0 +1,107 @@
+import { DELETE_TOKEN } from "@signe/sync";
+
+/**
+ * Ring buffer of the last sync packets broadcast by a room, by version. The
+ * version is incremented by each packet, and sent with it, so that a client
+ * can detect the packets it missed and ask for them with a `resync` message.
+ *
+ * @example
+ * ```typescript
+ * const log = new SyncLog(100);
+ * log.record({ count: 1 }); // 1
+ * log.record({ users: { abc: { x: 3 } } }); // 2
+ * log.since(0); // { count: 1, users: { abc: { x: 3 } } }
+ * ```
+ */
+export class SyncLog {
+  private packets: Record<string, any>[] = [];
+  private lastVersion = 0;
+
+  constructor(private size = 100) {}
+
+  /**
+   * Version of the last recorded packet (0 before the first one)
+   */
+  get version(): number {
+    return this.lastVersion;
+  }
+
+  /**
+   * Records a broadcast packet. The packet is copied, since its values are
+   * shared with `$memoryAll`, which the next changes modify.
+   *
+   * @param {Record<string, any>} packet - The values of the packet, as sent to the clients.
+   * @returns {number} The version of the packet.
+   */
+  record(packet: Record<string, any>): number {
+    this.lastVersion++;
+    if (this.size > 0) {
+      this.packets.push(structuredClone(packet));
+      if (this.packets.length > this.size) {
+        this.packets.shift();
+      }
+    }
+    return this.lastVersion;
+  }
+
+  /**
+   * Merges the packets recorded after a version into a single packet.
+   *
+   * @param {number} version - The last version received by the client.
+   * @returns {Record<string, any> | null} The merged packet (empty if the client is up to date),
+   * or `null` if some of the packets are no longer retained or cannot be merged
+   * (see `mergeSyncPackets()`).
+   */
+  since(version: number): Record<string, any> | null {
+    const missed = this.lastVersion - version;
+    if (missed < 0 || missed > this.packets.length) {
+      return null;
+    }
+    let merged: Record<string, any> | null = {};
+    for (const packet of this.packets.slice(this.packets.length - missed)) {
+      merged = mergeSyncPackets(merged, packet);
+      if (!merged) {
+        return null;
+      }
+    }
+    return merged;
+  }
+}
+
+const isPlainObject = (value: any) =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Merges the values of a sync packet into the values of the packets sent
+ * before it. Neither is modified: the objects of the target are copied before
+ * merging into them.
+ *
+ * The packets cannot be merged when the later one sets an object deleted by the
+ * earlier ones: the client would merge the object into the deleted one, and keep
+ * its other keys.
+ *
+ * @param {Record<string, any>} target - The values of the earlier packets.
+ * @param {Record<string, any>} packet - The values of the later packet.
+ * @returns {Record<string, any> | null} The merged values, or `null` if the packets cannot be merged.
+ */
+export function mergeSyncPackets(
+  target: Record<string, any>,
+  packet: Record<string, any>
+): Record<string, any> | null {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(packet)) {
+    if (isPlainObject(value) && result[key] === DELETE_TOKEN) {
+      return null;
+    }
+    if (isPlainObject(value) && isPlainObject(result[key])) {
+      const merged = mergeSyncPackets(result[key], value);
+      if (!merged) {
+        return null;
+      }
+      result[key] = merged;
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,108 @@
+export type TickHandler = (dt: number, tick: number) => void | Promise<void>;
+
+export interface TickMetadata {
+  key: string;
+  hz: number;
+}
+
+/**
+ * Maximum number of steps run in a row to catch up after a stall (event loop
+ * blocked, machine asleep). Beyond that, the late steps are dropped instead of
+ * being run back to back.
+ */
+const MAX_CATCH_UP_STEPS = 5;
+
+/**
+ * Fixed timestep loop driving the `@Tick()` methods of a room.
+ *
+ * Steps are scheduled against an absolute deadline (`start + n * interval`)
+ * rather than with `setInterval`, so timer lateness does not accumulate: a late
+ * step is followed by a shorter wait, and several steps run at once to catch up
+ * when the process was blocked. The handler always receives the fixed step
+ * duration `dt` (ms) and the step number, starting at 1.
+ *
+ * A step is skipped while the promise returned by the previous one is
+ * pending, so async steps never overlap. Errors thrown by the handler are
+ * logged and do not stop the loop.
+ */
+export class TickLoop {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextAt = 0;
+  private count = 0;
+  private pending = false;
+
+  constructor(
+    private hz: number,
+    private handler: TickHandler,
+    private now: () => number = () => Date.now()
+  ) {
+    if (!(hz > 0)) {
+      throw new Error(`@Tick() expects a positive frequency, got ${hz}`);
+    }
+  }
+
+  /** Duration of a step in milliseconds */
+  get interval(): number {
+    return 1000 / this.hz;
+  }
+
+  get running(): boolean {
+    return this.timer !== null;
+  }
+
+  /** Number of steps run since the loop was created */
+  get tick(): number {
+    return this.count;
+  }
+
+  start() {
+    if (this.running) return;
+    this.nextAt = this.now() + this.interval;
+    this.schedule();
+  }
+
+  stop() {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private schedule() {
+    const delay = Math.max(0, this.nextAt - this.now());
+    this.timer = setTimeout(() => this.run(), delay);
+    // Do not keep a Node.js process alive only for a room loop
+    (this.timer as any)?.unref?.();
+  }
+
+  private run() {
+    let steps = 0;
+    while (this.running && this.now() >= this.nextAt && steps < MAX_CATCH_UP_STEPS) {
+      this.step();
+      this.nextAt += this.interval;
+      steps++;
+    }
+    if (!this.running) return;
+    if (this.now() >= this.nextAt) {
+      // Too far behind: drop the missed steps
+      this.nextAt = this.now() + this.interval;
+    }
+    this.schedule();
+  }
+
+  private step() {
+    if (this.pending) return;
+    try {
+      const result = this.handler(this.interval, ++this.count);
+      if (result instanceof Promise) {
+        this.pending = true;
+        result
+          .catch((error) => console.error("[Tick] Error in tick handler:", error))
+          .finally(() => {
+            this.pending = false;
+          });
+      }
+    } catch (error) {
+      console.error("[Tick] Error in tick handler:", error);
+    }
+  }
+}
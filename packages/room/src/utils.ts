@@ -54,25 +54,28 @@ export function isClass(obj: unknown): boolean {
  * The throttled function comes with a cancel method to cancel delayed invocations.
  * If the throttled function is invoked more than once during the wait timeout,
  * it will call the provided function with the latest arguments.
+ * The returned function has a `flush()` method calling the provided function at once
+ * with the latest pending arguments, if any.
  *
  * @template F - The type of the function to throttle.
  * @param {F} func - The function to throttle.
  * @param {number} wait - The number of milliseconds to throttle invocations to.
- * @returns {(...args: Parameters<F>) => void} - Returns the new throttled function.
+ * @returns {((...args: Parameters<F>) => void) & { flush: () => void }} - Returns the new throttled function.
  *
  * @example
  * const log = throttle((message) => console.log(message), 1000);
  * log("Hello"); // Will log "Hello" immediately
  * log("World"); // Will log "World" after 1 second, if no other calls to log() are made within the 1 second.
+ * log.flush(); // Logs "World" now
  */
 export function throttle<F extends (...args: any[]) => any>(
   func: F,
   wait: number
-): (...args: Parameters<F>) => void {
+): ((...args: Parameters<F>) => void) & { flush: () => void } {
   let timeout: ReturnType<typeof setTimeout> | null = null;
   let lastArgs: Parameters<F> | null = null;
 
-  return function (...args: Parameters<F>) {
+  const throttled = function (...args: Parameters<F>) {
     if (!timeout) {
       func(...args);
       timeout = setTimeout(() => {
@@ -86,6 +89,16 @@ export function throttle<F extends (...args: any[]) => any>(
       lastArgs = args;
     }
   };
+
+  return Object.assign(throttled, {
+    flush: () => {
+      if (lastArgs) {
+        const args = lastArgs;
+        lastArgs = null;
+        func(...args);
+      }
+    },
+  });
 }
 
 /**
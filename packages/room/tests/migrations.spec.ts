@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { signal } from "@signe/reactive";
+import { sync, users } from "@signe/sync";
+import { Room, Server, ServerIo } from "../src";
+
+class Player {
+  @sync() name = signal("");
+  @sync() gold = signal(0);
+}
+
+async function start(RoomClass: any, io: ServerIo) {
+  class DemoServer extends Server {
+    rooms = [RoomClass];
+  }
+  const server = new DemoServer(io as any);
+  await server.onStart();
+  return server;
+}
+
+describe("schema migrations", () => {
+  it("stores the room version when a room starts without state", async () => {
+    @Room({ path: "demo", version: 3 })
+    class DemoRoom {
+      @sync() title = signal("");
+    }
+
+    const io = new ServerIo("demo");
+    await start(DemoRoom, io);
+
+    expect(await io.storage.get("$room:schema-version")).toBe(3);
+  });
+
+  it("runs the migrations in order and compacts the migrated state", async () => {
+    const calls: string[] = [];
+
+    @Room({
+      path: "demo",
+      version: 3,
+      migrations: {
+        2: (snapshot, { fromVersion, toVersion }) => {
+          calls.push(`${fromVersion}->${toVersion}`);
+          return { ...snapshot, title: snapshot.name, name: undefined };
+        },
+        3: (snapshot, { toVersion }) => {
+          calls.push(`->${toVersion}`);
+          snapshot.title = snapshot.title.toUpperCase();
+        },
+      },
+    })
+    class DemoRoom {
+      @sync() title = signal("");
+
+      onStorageRestore({ snapshot }: { snapshot: any }) {
+        calls.push(`restore:${snapshot.title}`);
+      }
+    }
+
+    const io = new ServerIo("demo");
+    await io.storage.put("state:name", "arena");
+
+    const server = await start(DemoRoom, io);
+
+    expect(calls).toEqual(["1->2", "->3", "restore:ARENA"]);
+    expect((server.subRoom as any).title()).toBe("ARENA");
+    expect(await io.storage.get("$room:schema-version")).toBe(3);
+    const state = await io.storage.list({ prefix: "state:" });
+    expect(Array.from(state.keys())).toEqual(["state:."]);
+    expect(state.get("state:.")).toEqual({ title: "ARENA" });
+  });
+
+  it("only runs the migrations newer than the stored version", async () => {
+    const calls: number[] = [];
+
+    @Room({
+      path: "demo",
+      version: 3,
+      migrations: {
+        2: () => { calls.push(2); },
+        3: () => { calls.push(3); },
+      },
+    })
+    class DemoRoom {
+      @sync() title = signal("");
+    }
+
+    const io = new ServerIo("demo");
+    await io.storage.put("state:title", "arena");
+    await io.storage.put("$room:schema-version", 2);
+
+    await start(DemoRoom, io);
+    expect(calls).toEqual([3]);
+
+    calls.length = 0;
+    await start(DemoRoom, io);
+    expect(calls).toEqual([]);
+  });
+
+  it("migrates each user snapshot", async () => {
+    @Room({
+      path: "demo",
+      version: 2,
+      migrations: {
+        2: {
+          user: (userSnapshot, { publicId }) => ({
+            name: userSnapshot.username ?? publicId,
+            gold: (userSnapshot.coins ?? 0) * 10,
+          }),
+        },
+      },
+    })
+    class DemoRoom {
+      @users(Player) players = signal<Record<string, Player>>({});
+    }
+
+    const io = new ServerIo("demo");
+    await io.storage.put("state:players.p1", { username: "Alice", coins: 2 });
+    await io.storage.put("state:players.p2", { coins: 1 });
+
+    const server = await start(DemoRoom, io);
+    const players = (server.subRoom as any).players();
+
+    expect(players.p1.name()).toBe("Alice");
+    expect(players.p1.gold()).toBe(20);
+    expect(players.p2.name()).toBe("p2");
+    expect(players.p2.gold()).toBe(10);
+  });
+
+  it("refuses to start a room stored with a newer version", async () => {
+    @Room({ path: "demo", version: 2 })
+    class DemoRoom {
+      @sync() title = signal("");
+    }
+
+    const io = new ServerIo("demo");
+    await io.storage.put("state:title", "arena");
+    await io.storage.put("$room:schema-version", 3);
+
+    await expect(start(DemoRoom, io)).rejects.toThrow("schema version 3, newer than the room version 2");
+  });
+});
@@ -1,6 +1,7 @@
-import { describe, expect, it } from "vitest";
-import { signal } from "@signe/reactive";
-import { sync, users } from "@signe/sync";
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { signal, textSignal } from "@signe/reactive";
+import { bigintSyncType, dateSyncType, registerSyncType, sync, unregisterSyncType, users } from "@signe/sync";
 import { Room, Server, ServerIo } from "../src";
 
 class Item {
@@ -119,4 +120,141 @@ describe("storage restore hooks", () => {
     expect(storageEntries.get("state:items.a")).toBeUndefined();
     expect(storageEntries.get("state:.")).toEqual({ items: { b: 2 } });
   });
+
+  it("persists map and set signals key by key and restores them", async () => {
+    @Room({ path: "demo" })
+    class DemoRoom {
+      @sync()
+      scores = signal(new Map<string, number>());
+
+      @sync()
+      tags = signal(new Set<string>());
+    }
+
+    class DemoServer extends Server {
+      rooms = [DemoRoom];
+    }
+
+    const io = new ServerIo("demo");
+    const server = new DemoServer(io as any);
+    await server.onStart();
+
+    const room = server.subRoom as any;
+    room.scores().set("alice", 3);
+    room.tags().add("admin");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(await io.storage.get("state:scores.alice")).toBe(3);
+    expect(await io.storage.get("state:tags.admin")).toBe("admin");
+
+    const restarted = new DemoServer(io as any);
+    await restarted.onStart();
+    const restored = restarted.subRoom as any;
+
+    expect(restored.scores().get("alice")).toBe(3);
+    expect(restored.tags().has("admin")).toBe(true);
+  });
+
+  it("persists the elements of text signals by id and restores them", async () => {
+    @Room({ path: "demo" })
+    class DemoRoom {
+      @sync()
+      notes = textSignal("Hello");
+    }
+
+    class DemoServer extends Server {
+      rooms = [DemoRoom];
+    }
+
+    const io = new ServerIo("demo");
+    const server = new DemoServer(io as any);
+    await server.onStart();
+
+    const room = server.subRoom as any;
+    room.notes.append("!");
+    room.notes.delete(0);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(await io.storage.get("state:notes.1@0")).toEqual([null, null, 1]);
+
+    const restarted = new DemoServer(io as any);
+    await restarted.onStart();
+
+    expect((restarted.subRoom as any).notes()).toBe("ello!");
+  });
+
+  it("persists registered sync types with their tagged encoding and restores them", async () => {
+    registerSyncType(dateSyncType);
+    registerSyncType(bigintSyncType);
+
+    @Room({ path: "demo" })
+    class DemoRoom {
+      @sync()
+      startedAt = signal<Date | null>(null);
+
+      @sync()
+      gold = signal(0n);
+    }
+
+    class DemoServer extends Server {
+      rooms = [DemoRoom];
+    }
+
+    try {
+      const io = new ServerIo("demo");
+      const server = new DemoServer(io as any);
+      await server.onStart();
+
+      const room = server.subRoom as any;
+      room.startedAt.set(new Date("2024-05-01T10:00:00.000Z"));
+      room.gold.set(9007199254740993n);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(await io.storage.get("state:startedAt")).toEqual({
+        $type: "date",
+        $value: "2024-05-01T10:00:00.000Z",
+      });
+
+      const restarted = new DemoServer(io as any);
+      await restarted.onStart();
+      const restored = restarted.subRoom as any;
+
+      expect(restored.startedAt()).toEqual(new Date("2024-05-01T10:00:00.000Z"));
+      expect(restored.gold()).toBe(9007199254740993n);
+    } finally {
+      unregisterSyncType("date");
+      unregisterSyncType("bigint");
+    }
+  });
+
+  it("rejects persisted values that fail the schema of their property", async () => {
+    const onInvalid = vi.fn();
+
+    @Room({ path: "demo" })
+    class DemoRoom {
+      @sync({ schema: z.number().min(0), onInvalid })
+      gold = signal(0);
+
+      @sync()
+      title = signal("");
+    }
+
+    class DemoServer extends Server {
+      rooms = [DemoRoom];
+    }
+
+    const io = new ServerIo("demo");
+    await io.storage.put("state:gold", -20);
+    await io.storage.put("state:title", "saved");
+
+    const server = new DemoServer(io as any);
+    await server.onStart();
+
+    const room = server.subRoom as any;
+    expect(room.gold()).toBe(0);
+    expect(room.title()).toBe("saved");
+    expect(onInvalid).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "gold", path: "gold", value: -20 })
+    );
+  });
 });
@@ -398,7 +398,11 @@ function buildObjectSchema(schema: JSONSchema7): ZodType<unknown> {
         }
     }
 
-    const baseObject = z.object(shape);
+    // Keys not listed in `properties`, e.g. the entries of a record, are validated by `additionalProperties`
+    const additionalProperties = extendedSchema.additionalProperties;
+    const baseObject = additionalProperties && typeof additionalProperties === "object"
+        ? z.object(shape).catchall(jsonSchemaDefinitionToZod(additionalProperties, true))
+        : z.object(shape);
 
     if (!hasComposableValidation(extendedSchema)) {
         return baseObject;
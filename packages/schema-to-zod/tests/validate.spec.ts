@@ -1565,4 +1565,25 @@ describe('jsonSchemaToZod', () => {
             }).success).toBeTruthy()
         })
     })
+
+    test('Should validate the entries of a record with additionalProperties', () => {
+        const schema = {
+            type: 'object',
+            properties: {
+                name: { type: 'string' },
+            },
+            additionalProperties: {
+                type: 'object',
+                properties: {
+                    hp: { type: 'number' },
+                },
+            },
+        }
+
+        const zodSchema = jsonSchemaToZodSchema(schema as any)
+
+        expect(zodSchema.safeParse({ name: 'room', p1: { hp: 10 } }).success).toBeTruthy()
+        expect(zodSchema.safeParse({ name: 'room', p1: { hp: 'full' } }).success).toBeFalsy()
+        expect(zodSchema.safeParse({ name: 'room', p1: 'player' }).success).toBeFalsy()
+    })
 })
@@ -1,7 +1,30 @@
-import { load } from "@signe/sync";
+import { load, BinarySyncDecoder, DELETE_TOKEN, decodeSyncValue, encodeSyncValue, runWithSyncTime, SyncClock } from "@signe/sync";
 import PartySocket, { PartySocketOptions } from "partysocket";
+import { ClientStorage, getDefaultClientStorage, TokenStorage } from "./storage";
 
-export interface WorldConnectionOptions extends PartySocketOptions {
+export interface SessionOptions {
+  /** Where the session is kept. Defaults to the storage of `TokenStorage` */
+  storage?: ClientStorage;
+  /** Storage key of the private session id (default: `signe:session`) */
+  key?: string;
+}
+
+export interface RoomConnectionOptions extends PartySocketOptions {
+  /**
+   * Keeps the private session id in a storage, so that a page reload resumes
+   * the same user. The same id is used for every room, which keeps it through
+   * session transfers. An explicit `id` takes precedence and is stored.
+   */
+  session?: boolean | SessionOptions;
+  /**
+   * Token returned by `$sessionTransfer()` in the previous room. With `session`,
+   * it is stored until the target room is joined, so a reload in between still
+   * completes the transfer.
+   */
+  transferToken?: string;
+}
+
+export interface WorldConnectionOptions extends RoomConnectionOptions {
   host: string;
   room: string;
   worldId?: string;
@@ -20,10 +43,129 @@ interface RoomInstance {
   };
 }
 
-interface ConnectionResult {
+export interface CallOptions {
+  /**
+   * Time in milliseconds to wait for the server response before rejecting
+   * with a `TIMEOUT` error. Defaults to 10 seconds.
+   */
+  timeout?: number;
+}
+
+/**
+ * Error used to reject a `call()` promise.
+ * `code` is the code sent by the server in the `action.error` packet,
+ * or `TIMEOUT` / `CLOSED` when no response was received.
+ */
+export class RoomActionError extends Error {
+  constructor(
+    public code: string,
+    message: string = code,
+    public details?: any
+  ) {
+    super(message);
+    this.name = "RoomActionError";
+  }
+}
+
+const DEFAULT_CALL_TIMEOUT = 10000;
+
+interface PendingCall {
+  resolve: (value: any) => void;
+  reject: (error: RoomActionError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Local change applied by `predict()` before the server confirms the action.
+ */
+export type PredictionFn<T = any> = (roomInstance: T) => void;
+
+interface Prediction {
+  seq: number;
+  apply: PredictionFn;
+  /** Path loaded by a patch, whose keys are removed on rollback if the server does not have them */
+  path?: string;
+}
+
+export interface ReconnectingEvent {
+  /** Reconnection attempt, starting at 1 after the socket was lost */
+  attempt: number;
+}
+
+export interface ResumedEvent {
+  /** Public id of the user in the room */
+  publicId: string;
+  /** Public id before the socket was lost, `undefined` after a page reload or a transfer */
+  previousPublicId?: string;
+}
+
+interface ConnectionSession {
+  storage?: ClientStorage;
+  transferKey?: string;
+  transferToken?: string;
+  /** A stored session or a transfer token is sent on the first connection */
+  restored: boolean;
+}
+
+/**
+ * Payload types of the events sent by the room, by event name
+ *
+ * @example
+ * ```typescript
+ * type GameEvents = {
+ *   chat: { from: string; text: string }
+ *   explosion: { x: number; y: number }
+ * }
+ * const conn = await connectionRoom<GameEvents>(options, room)
+ * ```
+ */
+export type RoomEventMap = Record<string, any>;
+
+/**
+ * Events sent by the room with `$emit()` or `@Event()`, apart from the state sync.
+ * An event is received after the sync packets sent before it: the state already
+ * contains the changes made before the event when the listeners are called.
+ */
+export interface RoomEvents<Events extends RoomEventMap = RoomEventMap> {
+  /** Adds a listener. Returns a function removing it */
+  on<K extends keyof Events & string>(event: K, cb: (payload: Events[K]) => void): () => void;
+  /** Removes a listener added with `on()` or `once()` */
+  off<K extends keyof Events & string>(event: K, cb: (payload: Events[K]) => void): void;
+  /** Adds a listener called for the next event only. Returns a function removing it */
+  once<K extends keyof Events & string>(event: K, cb: (payload: Events[K]) => void): () => void;
+}
+
+interface RoomEventListener {
+  cb: (payload: any) => void;
+  once: boolean;
+}
+
+interface ConnectionResult<Events extends RoomEventMap = RoomEventMap> {
   emit: (key: string, value: any) => void;
+  call: <T = any>(key: string, value?: any, options?: CallOptions) => Promise<T>;
+  predict: (key: string, value: any, apply: PredictionFn) => number;
+  /**
+   * Changes a property declared with `@sync({ clientWritable })`: the value is
+   * loaded locally at once, then kept until the server acknowledges the patch.
+   * If the server rejects it, the next sync packet rolls it back and a
+   * `patch.rejected` packet is received with `{ path, seq }`.
+   * Returns the sequence number of the patch.
+   */
+  patch: (path: string, value: any) => number;
+  /** Listens to the raw packets of a type */
   on: (key: string, cb: (value: any) => void) => void;
   off: (key: string, cb: (value: any) => void) => void;
+  events: RoomEvents<Events>;
+  /**
+   * Called when the socket is lost, then before each new attempt of PartySocket
+   * to reconnect. Returns a function removing the listener.
+   */
+  onReconnecting: (cb: (event: ReconnectingEvent) => void) => () => void;
+  /**
+   * Called when the room is joined again after a reconnection, or with a
+   * stored session or a transfer token. Returns a function removing the listener.
+   */
+  onResumed: (cb: (event: ResumedEvent) => void) => () => void;
   close: () => void;
   conn: PartySocket;
   shardInfo?: {
@@ -32,22 +174,318 @@ interface ConnectionResult {
   };
 }
 
-interface WorldConnectionResult extends ConnectionResult {
+interface WorldConnectionResult<Events extends RoomEventMap = RoomEventMap> extends ConnectionResult<Events> {
   shardInfo: {
     shardId: string;
     url: string;
   };
 }
 
-function createConnection(options: PartySocketOptions, roomInstance: RoomInstance): ConnectionResult {
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Merges the value of a sync packet into a plain object, removing the `$delete` paths.
+ * Used to keep the last authoritative state of the room.
+ */
+function mergeSyncValue(target: Record<string, any>, value: Record<string, any>) {
+  for (const key of Object.keys(value)) {
+    const next = value[key];
+    if (next === DELETE_TOKEN) {
+      delete target[key];
+    } else if (isPlainObject(next)) {
+      if (!isPlainObject(target[key])) {
+        target[key] = {};
+      }
+      mergeSyncValue(target[key], next);
+    } else {
+      target[key] = structuredClone(next);
+    }
+  }
+}
+
+/**
+ * Returns the `$delete` paths of the keys of `previous` missing from `next`,
+ * as an object that can be loaded, or `undefined` if no key is missing.
+ * Used when a full state, or the initial state sent after a reconnection,
+ * replaces the last authoritative state.
+ */
+function deletedKeys(previous: Record<string, any>, next: Record<string, any>): Record<string, any> | undefined {
+  let deleted: Record<string, any> | undefined;
+  for (const key of Object.keys(previous)) {
+    if (next[key] === undefined) {
+      (deleted ??= {})[key] = DELETE_TOKEN;
+    } else if (isPlainObject(previous[key]) && isPlainObject(next[key])) {
+      const nested = deletedKeys(previous[key], next[key]);
+      if (nested) {
+        (deleted ??= {})[key] = nested;
+      }
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Returns the `$delete` paths of the keys created by the patched paths and
+ * missing from the authoritative state, as an object that can be loaded, or
+ * `undefined` if every key exists.
+ */
+function patchedKeys(state: Record<string, any>, paths: string[]): Record<string, any> | undefined {
+  let deleted: Record<string, any> | undefined;
+  for (const path of paths) {
+    const parts = path.split(".");
+    let current: any = state;
+    for (let i = 0; i < parts.length && isPlainObject(current); i++) {
+      if (!(parts[i] in current)) {
+        // The outermost missing key holds every key created below it
+        let target = (deleted ??= {});
+        for (const parent of parts.slice(0, i)) {
+          if (!isPlainObject(target[parent])) target[parent] = {};
+          target = target[parent];
+        }
+        target[parts[i]] = DELETE_TOKEN;
+        break;
+      }
+      current = current[parts[i]];
+    }
+  }
+  return deleted;
+}
+
+const DEFAULT_SESSION_KEY = "signe:session";
+
+function createSessionId(): string {
+  return globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Reads the stored session, then adds the private session id and the transfer
+ * token to the PartySocket options.
+ * @param options Connection options
+ * @param room Room the transfer token is for
+ */
+async function prepareSession(
+  options: RoomConnectionOptions,
+  room: string
+): Promise<[PartySocketOptions, ConnectionSession]> {
+  const { session, transferToken, ...socketOptions } = options;
+  if (!session) {
+    return [withTransferToken(socketOptions, () => transferToken), { transferToken, restored: !!transferToken }];
+  }
+
+  const { storage = TokenStorage.storage ?? getDefaultClientStorage(), key = DEFAULT_SESSION_KEY } = session === true ? {} : session;
+  const transferKey = `${key}:transfer:${room}`;
+  const storedId = await TokenStorage.getToken(key, storage);
+  const id = socketOptions.id ?? storedId ?? createSessionId();
+  if (id !== storedId) {
+    await TokenStorage.saveToken(id, key, storage);
+  }
+  if (transferToken) {
+    await TokenStorage.saveToken(transferToken, transferKey, storage);
+  }
+  const state: ConnectionSession = {
+    storage,
+    transferKey,
+    transferToken: transferToken ?? (await TokenStorage.getToken(transferKey, storage)) ?? undefined,
+    restored: false,
+  };
+  state.restored = id === storedId || !!state.transferToken;
+  return [withTransferToken({ ...socketOptions, id }, () => state.transferToken), state];
+}
+
+// The query is read by PartySocket before each connection: the token is no longer sent once used
+function withTransferToken(options: PartySocketOptions, getToken: () => string | undefined): PartySocketOptions {
+  if (!getToken()) {
+    return options;
+  }
+  const { query } = options;
+  return {
+    ...options,
+    query: async () => {
+      const params = typeof query === "function" ? await query() : query;
+      const transferToken = getToken();
+      return transferToken ? { ...params, transferToken } : { ...params };
+    },
+  };
+}
+
+function createConnection<Events extends RoomEventMap>(
+  options: PartySocketOptions,
+  roomInstance: RoomInstance,
+  session: ConnectionSession = { restored: false }
+): ConnectionResult<Events> {
   const conn = new PartySocket(options);
+  const pendingCalls = new Map<number, PendingCall>();
+  let lastCallId = 0;
+
+  const settleCall = (id: number, settle: (call: PendingCall) => void) => {
+    const pending = pendingCalls.get(id);
+    if (!pending) return;
+    pendingCalls.delete(id);
+    clearTimeout(pending.timer);
+    settle(pending);
+  };
+  
+  // Client-side prediction: last state sent by the server and actions not acknowledged yet
+  const authoritativeState: Record<string, any> = {};
+  let predictions: Prediction[] = [];
+  let predicted = false;
+  let lastSeq = 0;
+  // Version of the last sync packet received, to detect the packets lost while the socket was closed
+  let syncVersion: number | undefined;
+  // Each server has its own clock, estimated from the timestamps of its packets
+  const clock = new SyncClock();
+
+  // Session resumption: the private id is kept by PartySocket across its reconnects
+  const reconnectingListeners = new Set<(event: ReconnectingEvent) => void>();
+  const resumedListeners = new Set<(event: ResumedEvent) => void>();
+  let resuming = session.restored;
+  let closedByClient = false;
+  let publicId: string | undefined;
+
+  const joined = (pId: string) => {
+    if (session.transferToken) {
+      session.transferToken = undefined;
+      if (session.storage) TokenStorage.removeToken(session.transferKey, session.storage);
+    }
+    if (resuming) {
+      resuming = false;
+      const event: ResumedEvent = { publicId: pId, previousPublicId: publicId };
+      for (const cb of resumedListeners) cb(event);
+    }
+    publicId = pId;
+  };
+
+  let watchingClose = false;
+
+  // Added with the first listener, connections without one keep a single socket listener
+  const watchClose = () => {
+    if (watchingClose) return;
+    watchingClose = true;
+    conn.addEventListener("close", () => {
+      if (closedByClient) return;
+      resuming = true;
+      const event: ReconnectingEvent = { attempt: (conn.retryCount ?? 0) + 1 };
+      for (const cb of reconnectingListeners) cb(event);
+    });
+  };
+
+  const applySync = (object: any) => {
+    const value = object.value ?? {};
+    const patchedPaths = predictions.flatMap((prediction) => (prediction.path ? [prediction.path] : []));
+    if (typeof object.version === "number") {
+      // `from` is set when the packets in between were not meant for this client
+      const base = object.from ?? object.version - 1;
+      if (value.pId === undefined && syncVersion !== undefined && base > syncVersion) {
+        conn.send(JSON.stringify({ type: "resync", since: syncVersion }));
+      }
+      syncVersion = object.version;
+    }
+    // The whole state, sent when the missed packets are not in the sync log of the room anymore,
+    // or with the public id when the room is (re)joined. A full state does not repeat the public id
+    const deleted = object.full || value.pId !== undefined
+      ? deletedKeys(authoritativeState, { pId: authoritativeState.pId, ...value })
+      : undefined;
+    if (object.full) {
+      for (const key of Object.keys(authoritativeState)) {
+        if (key !== "pId") delete authoritativeState[key];
+      }
+    }
+    if (value.pId !== undefined) {
+      // (Re)joined the room: the full state is sent and previous sequence numbers are not acknowledged anymore
+      for (const key of Object.keys(authoritativeState)) {
+        delete authoritativeState[key];
+      }
+      predictions = [];
+      joined(value.pId);
+    }
+    mergeSyncValue(authoritativeState, value);
+    if (typeof object.ack === "number") {
+      predictions = predictions.filter((prediction) => prediction.seq > object.ack);
+    }
+    if (deleted) {
+      load(roomInstance, deleted, true);
+    }
+    if (!predicted) {
+      load(roomInstance, value, true);
+      return;
+    }
+    // Roll back to the authoritative state, then re-apply the actions the server has not processed yet
+    const created = patchedKeys(authoritativeState, patchedPaths);
+    if (created) {
+      load(roomInstance, created, true);
+    }
+    load(roomInstance, structuredClone(authoritativeState), true);
+    for (const prediction of predictions) {
+      prediction.apply(roomInstance);
+    }
+    predicted = predictions.length > 0;
+  };
+
+  const eventListeners = new Map<string, RoomEventListener[]>();
+  // Listeners of `on()`, by packet type, to remove them from the socket with `off()`
+  const messageListeners = new Map<string, Map<(value: any) => void, (event: MessageEvent) => void>>();
+
+  const addRoomEventListener = (event: string, cb: (payload: any) => void, once: boolean) => {
+    const listeners = eventListeners.get(event) ?? [];
+    const listener: RoomEventListener = { cb, once };
+    listeners.push(listener);
+    eventListeners.set(event, listeners);
+    return () => removeRoomEventListener(event, (entry) => entry === listener);
+  };
+
+  const removeRoomEventListener = (event: string, match: (listener: RoomEventListener) => boolean) => {
+    const listeners = eventListeners.get(event);
+    const index = listeners?.findIndex(match) ?? -1;
+    if (index === -1) return;
+    listeners!.splice(index, 1);
+    if (listeners!.length === 0) {
+      eventListeners.delete(event);
+    }
+  };
+
+  const dispatchRoomEvent = (event: string, payload: any) => {
+    // Copied, since listeners can be added or removed by the callbacks
+    for (const listener of [...(eventListeners.get(event) ?? [])]) {
+      if (listener.once) {
+        removeRoomEventListener(event, (entry) => entry === listener);
+      }
+      listener.cb(payload);
+    }
+  };
+
+  const binaryDecoder = new BinarySyncDecoder();
+  const decodedMessages = new WeakMap<MessageEvent, any>();
+  conn.binaryType = "arraybuffer";
+
+  // Binary frames (rooms using `protocol: 'binary'`) are decoded once, then shared by every listener
+  const readMessage = (event: MessageEvent) => {
+    if (typeof event.data === "string") {
+      return JSON.parse(event.data);
+    }
+    if (!decodedMessages.has(event)) {
+      decodedMessages.set(event, binaryDecoder.decode(event.data));
+    }
+    return decodedMessages.get(event);
+  };
   
   // Set up message handling
   conn.addEventListener("message", (event) => {
-    const object = JSON.parse(event.data);
+    const object = readMessage(event);
     switch (object.type) {
       case "sync":
-        load(roomInstance, object.value, true);
+        runWithSyncTime(object.timestamp, () => applySync(object), clock);
+        break;
+      case "event":
+        dispatchRoomEvent(object.event, decodeSyncValue(object.value));
+        break;
+      case "action.result":
+        settleCall(object.id, (pending) => pending.resolve(decodeSyncValue(object.value)));
+        break;
+      case "action.error":
+        settleCall(object.id, (pending) =>
+          pending.reject(new RoomActionError(object.code, object.message, object.details))
+        );
         break;
     }
   });
@@ -61,23 +499,99 @@ function createConnection(options: PartySocketOptions, roomInstance: RoomInstanc
         })
       );
     },
+    call: (key, value, callOptions = {}) => {
+      const id = ++lastCallId;
+      const timeout = callOptions.timeout ?? DEFAULT_CALL_TIMEOUT;
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          settleCall(id, (pending) =>
+            pending.reject(new RoomActionError("TIMEOUT", `Action "${key}" timed out after ${timeout}ms`))
+          );
+        }, timeout);
+        pendingCalls.set(id, { resolve, reject, timer });
+        conn.send(
+          JSON.stringify({
+            action: key,
+            value,
+            id,
+          })
+        );
+      });
+    },
+    predict: (key, value, apply) => {
+      const seq = ++lastSeq;
+      apply(roomInstance);
+      predictions.push({ seq, apply });
+      predicted = true;
+      conn.send(
+        JSON.stringify({
+          action: key,
+          value,
+          seq,
+        })
+      );
+      return seq;
+    },
+    patch: (path, value) => {
+      const seq = ++lastSeq;
+      // Applied again after each rollback, until the server acknowledges it
+      const apply: PredictionFn = (instance) => load(instance, { [path]: value });
+      apply(roomInstance);
+      predictions.push({ seq, apply, path });
+      predicted = true;
+      conn.send(
+        JSON.stringify({
+          type: "patch",
+          path,
+          value: encodeSyncValue(value),
+          seq,
+        })
+      );
+      return seq;
+    },
     on: (key, cb) => {
-      conn.addEventListener("message", (event) => {
-        const object = JSON.parse(event.data);
+      const listener = (event: MessageEvent) => {
+        const object = readMessage(event);
         if (object.type === key) {
           cb(object.value);
         }
-      });
+      };
+      if (!messageListeners.has(key)) {
+        messageListeners.set(key, new Map());
+      }
+      messageListeners.get(key)!.set(cb, listener);
+      conn.addEventListener("message", listener);
     },
     off: (key, cb) => {
-      conn.removeEventListener("message", (event) => {
-        const object = JSON.parse(event.data);
-        if (object.type === key) {
-          cb(object.value);
-        }
-      });
+      const listener = messageListeners.get(key)?.get(cb);
+      if (!listener) return;
+      messageListeners.get(key)!.delete(cb);
+      conn.removeEventListener("message", listener);
+    },
+    events: {
+      on: (event, cb) => addRoomEventListener(event, cb, false),
+      off: (event, cb) => removeRoomEventListener(event, (listener) => listener.cb === cb),
+      once: (event, cb) => addRoomEventListener(event, cb, true),
+    },
+    onReconnecting: (cb) => {
+      watchClose();
+      reconnectingListeners.add(cb);
+      return () => reconnectingListeners.delete(cb);
+    },
+    onResumed: (cb) => {
+      watchClose();
+      resumedListeners.add(cb);
+      return () => resumedListeners.delete(cb);
+    },
+    close: () => {
+      closedByClient = true;
+      for (const id of [...pendingCalls.keys()]) {
+        settleCall(id, (pending) =>
+          pending.reject(new RoomActionError("CLOSED", "Connection closed before the action completed"))
+        );
+      }
+      conn.close();
     },
-    close: () => conn.close(),
     conn
   };
 }
@@ -88,8 +602,12 @@ function createConnection(options: PartySocketOptions, roomInstance: RoomInstanc
  * @param roomInstance Instance to receive state updates
  * @returns Connection result with methods to interact with the room
  */
-export async function connectionRoom(options: PartySocketOptions, roomInstance: RoomInstance): Promise<ConnectionResult> {
-  return createConnection(options, roomInstance);
+export async function connectionRoom<Events extends RoomEventMap = RoomEventMap>(
+  options: RoomConnectionOptions,
+  roomInstance: RoomInstance
+): Promise<ConnectionResult<Events>> {
+  const [socketOptions, session] = await prepareSession(options, options.room);
+  return createConnection<Events>(socketOptions, roomInstance, session);
 }
 
 /**
@@ -98,17 +616,18 @@ export async function connectionRoom(options: PartySocketOptions, roomInstance:
  * @param roomInstance Instance to receive state updates
  * @returns Connection result with methods to interact with the room and shard information
  */
-export async function connectionWorld(
+export async function connectionWorld<Events extends RoomEventMap = RoomEventMap>(
   options: WorldConnectionOptions,
   roomInstance: RoomInstance
-): Promise<WorldConnectionResult> {
+): Promise<WorldConnectionResult<Events>> {
 
   const shardInfo = await getOptimalShard(options);
-  const result = createConnection({
+  const [socketOptions, session] = await prepareSession({
     ...options,
     party: 'shard',
     room: shardInfo.url
-  }, roomInstance);
+  }, options.room);
+  const result = createConnection<Events>(socketOptions, roomInstance, session);
 
   return {
     ...result,
@@ -182,4 +701,5 @@ async function getOptimalShard(worldOptions: WorldConnectionOptions): Promise<{
   throw new Error('Failed to get shard after all retry attempts');
 }
 
+export * from "./storage";
 export { PartySocket };
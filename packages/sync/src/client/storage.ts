@@ -1,28 +1,136 @@
+/**
+ * Key-value storage used by the client to keep its session between page loads.
+ * `localStorage` and `sessionStorage` can be used as is; the methods of custom
+ * adapters can return promises.
+ */
+export interface ClientStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Creates a storage kept in memory, for clients without `localStorage`
+ * (Node.js, workers, tests). The session is kept across reconnects, not
+ * across restarts.
+ */
+export function createMemoryStorage(): ClientStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+export interface IndexedDbStorageOptions {
+  /** Name of the database (default: `signe`) */
+  dbName?: string;
+  /** Name of the object store (default: `session`) */
+  storeName?: string;
+}
+
+/**
+ * Creates a storage backed by IndexedDB, available in workers and service
+ * workers, unlike `localStorage`. The database is opened on first use.
+ */
+export function createIndexedDbStorage(options: IndexedDbStorageOptions = {}): ClientStorage {
+  const { dbName = "signe", storeName = "session" } = options;
+  let database: Promise<IDBDatabase> | undefined;
+
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const store = (await open()).transaction(storeName, mode).objectStore(storeName);
+    return new Promise((resolve, reject) => {
+      const request = fn(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getItem: async (key) => (await run<string | undefined>("readonly", (store) => store.get(key))) ?? null,
+    setItem: async (key, value) => {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run("readwrite", (store) => store.delete(key));
+    },
+  };
+}
+
+let defaultStorage: ClientStorage | undefined;
+
+/**
+ * Returns `localStorage` when it can be used, otherwise a storage kept in memory
+ */
+export function getDefaultClientStorage(): ClientStorage {
+  if (!defaultStorage) {
+    try {
+      // Reading `localStorage` throws in some sandboxed contexts
+      defaultStorage = typeof localStorage !== "undefined" ? localStorage : createMemoryStorage();
+    } catch {
+      defaultStorage = createMemoryStorage();
+    }
+  }
+  return defaultStorage;
+}
+
+/**
+ * Reads and writes the tokens of the client: the party token, and the private
+ * session id and the transfer tokens kept by the `session` option of the
+ * connections. The errors of the storage are logged, not thrown.
+ */
 export class TokenStorage {
   private static TOKEN_KEY = 'party_token';
 
-  static async saveToken(token: string): Promise<void> {
+  /**
+   * Storage of the tokens, also used by the connections with `session: true`.
+   * Defaults to `localStorage`, or memory where it is not available.
+   */
+  static storage: ClientStorage | undefined;
+
+  private static get target(): ClientStorage {
+    return this.storage ?? getDefaultClientStorage();
+  }
+
+  static async saveToken(token: string, key = this.TOKEN_KEY, storage = this.target): Promise<void> {
     try {
-      localStorage.setItem(this.TOKEN_KEY, token);
+      await storage.setItem(key, token);
     } catch (error) {
       console.error('Failed to save token:', error);
     }
   }
 
-  static async getToken(): Promise<string | null> {
+  static async getToken(key = this.TOKEN_KEY, storage = this.target): Promise<string | null> {
     try {
-      return localStorage.getItem(this.TOKEN_KEY);
+      return await storage.getItem(key);
     } catch (error) {
       console.error('Failed to get token:', error);
       return null;
     }
   }
 
-  static removeToken(): void {
+  static removeToken(key = this.TOKEN_KEY, storage = this.target): void {
+    const failed = (error: unknown) => console.error('Failed to remove token:', error);
     try {
-      localStorage.removeItem(this.TOKEN_KEY);
+      // Not awaited: the token is removed at once from the synchronous storages
+      Promise.resolve(storage.removeItem(key)).catch(failed);
     } catch (error) {
-      console.error('Failed to remove token:', error);
+      failed(error);
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,242 @@
+/**
+ * Codec of a value type that JSON cannot represent, registered with
+ * `registerSyncType()`.
+ */
+export interface SyncType<T = any, E = any> {
+  /**
+   * Unique name of the type, written in its tagged encoding
+   */
+  name: string;
+  /**
+   * Checks if a value is of this type
+   */
+  test: (value: any) => boolean;
+  /**
+   * Converts a value to JSON-compatible data. The data can itself contain
+   * values of registered types.
+   */
+  encode: (value: T) => E;
+  /**
+   * Converts the encoded data back to a value
+   */
+  decode: (data: E) => T;
+}
+
+/**
+ * Tagged encoding of a value of a registered type
+ */
+export interface EncodedSyncValue {
+  $type: string;
+  $value: any;
+}
+
+// Kept on globalThis so that every copy of the library shares the registered types
+const getRegistry = (): Map<string, SyncType> => {
+  const global = globalThis as any;
+  if (!global.__SIGNE_SYNC_TYPES__) {
+    global.__SIGNE_SYNC_TYPES__ = new Map();
+  }
+  return global.__SIGNE_SYNC_TYPES__;
+};
+
+/**
+ * Registers a value type synced, persisted and restored with a tagged
+ * encoding, so that it round-trips exactly. Register the same types on the
+ * server and on the clients. Registering a name again replaces its codec.
+ *
+ * @param {SyncType} type - The codec of the type.
+ * @example
+ * class Vector2 {
+ *   constructor(public x = 0, public y = 0) {}
+ * }
+ *
+ * registerSyncType({
+ *   name: 'vector2',
+ *   test: (value) => value instanceof Vector2,
+ *   encode: (value: Vector2) => [value.x, value.y],
+ *   decode: ([x, y]) => new Vector2(x, y),
+ * });
+ *
+ * // Ready-made codecs
+ * registerSyncType(dateSyncType);
+ * registerSyncType(bigintSyncType);
+ */
+export function registerSyncType<T, E>(type: SyncType<T, E>): void {
+  getRegistry().set(type.name, type);
+}
+
+/**
+ * Removes a type registered with `registerSyncType()`.
+ *
+ * @param {string} name - The name of the type.
+ */
+export function unregisterSyncType(name: string): void {
+  getRegistry().delete(name);
+}
+
+/**
+ * Returns the registered type of a value.
+ *
+ * @param {any} value - The value to check.
+ * @returns {SyncType | undefined} The type, or undefined if no registered type matches.
+ */
+export function findSyncType(value: any): SyncType | undefined {
+  const registry = getRegistry();
+  if (registry.size === 0 || value === null || value === undefined) {
+    return undefined;
+  }
+  for (const type of registry.values()) {
+    if (type.test(value)) {
+      return type;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks if a value is the tagged encoding of a value of a registered type.
+ *
+ * @param {any} value - The value to check.
+ * @returns {boolean} True if the value is `{ $type, $value }`.
+ */
+export function isEncodedSyncValue(value: any): value is EncodedSyncValue {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return (
+    keys.length === 2 &&
+    typeof value.$type === "string" &&
+    "$value" in value
+  );
+}
+
+const isPlainObject = (value: any): boolean => {
+  if (!value || typeof value !== "object") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Replaces the values of registered types, in a value and in the plain
+ * objects and arrays it holds, with their tagged encoding. The objects and
+ * arrays are copied only if they hold such values.
+ *
+ * @param {any} value - The value to encode.
+ * @returns {any} The encoded value.
+ * @example
+ * registerSyncType(dateSyncType);
+ * encodeSyncValue({ at: new Date(0) });
+ * // { at: { $type: 'date', $value: '1970-01-01T00:00:00.000Z' } }
+ */
+export function encodeSyncValue(value: any): any {
+  if (getRegistry().size === 0) {
+    return value;
+  }
+  return encode(value);
+}
+
+function encode(value: any): any {
+  const type = findSyncType(value);
+  if (type) {
+    return { $type: type.name, $value: encode(type.encode(value)) };
+  }
+  if (Array.isArray(value)) {
+    let result: any[] | undefined;
+    value.forEach((item, index) => {
+      const encoded = encode(item);
+      if (encoded !== item) {
+        result ??= value.slice();
+        result[index] = encoded;
+      }
+    });
+    return result ?? value;
+  }
+  if (isPlainObject(value)) {
+    let result: Record<string, any> | undefined;
+    for (const key of Object.keys(value)) {
+      const encoded = encode(value[key]);
+      if (encoded !== value[key]) {
+        result ??= { ...value };
+        result[key] = encoded;
+      }
+    }
+    return result ?? value;
+  }
+  return value;
+}
+
+/**
+ * Replaces the tagged encodings, in a value and in the plain objects and
+ * arrays it holds, with the values they encode. Tagged encodings of types not
+ * registered are kept as is.
+ *
+ * @param {any} value - The value to decode.
+ * @returns {any} The decoded value.
+ * @example
+ * registerSyncType(dateSyncType);
+ * decodeSyncValue({ $type: 'date', $value: '1970-01-01T00:00:00.000Z' }); // Date
+ */
+export function decodeSyncValue(value: any): any {
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  if (isEncodedSyncValue(value)) {
+    const type = getRegistry().get(value.$type);
+    return type ? type.decode(decodeSyncValue(value.$value)) : value;
+  }
+  if (Array.isArray(value)) {
+    let result: any[] | undefined;
+    value.forEach((item, index) => {
+      const decoded = decodeSyncValue(item);
+      if (decoded !== item) {
+        result ??= value.slice();
+        result[index] = decoded;
+      }
+    });
+    return result ?? value;
+  }
+  if (isPlainObject(value)) {
+    let result: Record<string, any> | undefined;
+    for (const key of Object.keys(value)) {
+      const decoded = decodeSyncValue(value[key]);
+      if (decoded !== value[key]) {
+        result ??= { ...value };
+        result[key] = decoded;
+      }
+    }
+    return result ?? value;
+  }
+  return value;
+}
+
+/**
+ * Codec of `Date`, encoded as an ISO string
+ */
+export const dateSyncType: SyncType<Date, string> = {
+  name: "date",
+  test: (value) => value instanceof Date,
+  encode: (value) => value.toISOString(),
+  decode: (data) => new Date(data),
+};
+
+/**
+ * Codec of `bigint`, encoded as a decimal string
+ */
+export const bigintSyncType: SyncType<bigint, string> = {
+  name: "bigint",
+  test: (value) => typeof value === "bigint",
+  encode: (value) => value.toString(),
+  decode: (data) => BigInt(data),
+};
+
+/**
+ * Codec of the `Map` values held by signals, encoded as a list of entries.
+ * Map signals themselves are synced as objects, key by key.
+ */
+export const mapSyncType: SyncType<Map<any, any>, [any, any][]> = {
+  name: "map",
+  test: (value) => value instanceof Map,
+  encode: (value) => Array.from(value.entries()),
+  decode: (data) => new Map(data),
+};
@@ -1,13 +1,21 @@
 import {
   ArraySubject,
+  MapSubject,
   ObjectSubject,
+  SetSubject,
   isArraySubject,
+  isCrdtSignal,
+  isCrdtSubject,
+  isMapSubject,
   isObjectSubject,
+  isSetSubject,
   isSignal,
   isComputed,
+  onBatchEnd,
   type WritableSignal,
 } from "@signe/reactive";
 import { isInstanceOfClass, isObject } from "./utils";
+import { encodeSyncValue, findSyncType } from "./codec";
 import { type Observable } from "rxjs";
 import type { NormalizedSyncOptions } from "./decorators";
 
@@ -29,16 +37,19 @@ type SyncMetadata = Map<string, NormalizedSyncOptions>;
 interface ExtendedWritableSignal<T>
   extends Omit<WritableSignal<T>, "observable"> {
   options?: TypeOptions;
-  _subject?: ObjectSubject<T> | ArraySubject<T>;
+  _subject?: ObjectSubject<T> | ArraySubject<T> | MapSubject<any, any> | SetSubject<any>;
   observable: Observable<SubjectValue<T>>;
 }
 
 interface SubjectValue<T = any> {
-  type: "add" | "update" | "remove" | "reset";
+  type: "add" | "update" | "remove" | "reset" | "clear" | "change";
   value: T;
   key?: string;
   index?: number;
   items?: T[];
+  path?: (string | number)[];
+  entries?: Record<string, any>;
+  previous?: any;
 }
 
 interface SyncInstance {
@@ -54,12 +65,52 @@ interface SyncInstance {
 
 export const DELETE_TOKEN = "$delete";
 
+/**
+ * Converts the value of a map or set signal to the plain object synced and
+ * persisted for it: a map becomes an object of its entries, a set an object
+ * of its items keyed by their string form, so that the items keep their type.
+ * Other values are returned as is.
+ *
+ * @param {any} value - The value to convert.
+ * @returns {any} The plain object, or `value` itself.
+ * @example
+ * toSyncCollection(new Map([["sword", 1]])); // { sword: 1 }
+ * toSyncCollection(new Set(["admin", 2])); // { admin: "admin", 2: 2 }
+ */
+export function toSyncCollection(value: any): any {
+  if (value instanceof Map) {
+    return Object.fromEntries(value);
+  }
+  if (value instanceof Set) {
+    const result: Record<string, any> = {};
+    for (const item of value) {
+      result[String(item)] = item;
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Returns the value synced and persisted for a signal: the CRDT entries of a
+ * list or text signal, otherwise its value converted by `toSyncCollection`.
+ */
+const syncValueOf = (signal: any): any =>
+  isCrdtSignal(signal) ? signal.getState() : toSyncCollection(signal());
+
+// Class instances are synced property by property, unless a registered type encodes them
+const isSyncedInstance = (value: any): boolean =>
+  isInstanceOfClass(value) && !findSyncType(value);
+
 /**
  * Synchronizes an instance by adding `$valuesChanges` methods for state management.
  *
  * This function initializes a cache for syncing and persisting values. It adds methods to the instance
  * to set values, mark values for persistence, and check and retrieve values from the cache.
  * Optionally, callbacks can be provided to handle synchronization and persistence events.
+ * Changes made inside `batch()` call each callback once, when the batch ends.
+ * The values of the types registered with `registerSyncType()` are cached with
+ * their tagged encoding.
  *
  * @param {Record<string, any>} instance - The instance to be synchronized.
  * @param {SyncOptions} [options={}] - Optional synchronization options.
@@ -80,15 +131,17 @@ export const DELETE_TOKEN = "$delete";
 export const syncClass = (instance: any, options: SyncOptions = {}) => {
   const cacheSync = new Map();
   const cachePersist = new Map<string, any>();
+  const notifySync = () => options.onSync?.(cacheSync);
+  const notifyPersist = () => options.onPersist?.(cachePersist);
   instance.$valuesChanges = {
     set: (path: string, value: any) => {
-      cacheSync.set(path, value);
-      options.onSync?.(cacheSync);
+      cacheSync.set(path, encodeSyncValue(value));
+      onBatchEnd(notifySync);
     },
     setPersist: (path: string, value: any) => {
       if (path == "") path = ".";
-      cachePersist.set(path, value);
-      options.onPersist?.(cachePersist);
+      cachePersist.set(path, encodeSyncValue(value));
+      onBatchEnd(notifyPersist);
     },
     has: (path: string) => {
       return cacheSync.has(path);
@@ -105,7 +158,8 @@ export const syncClass = (instance: any, options: SyncOptions = {}) => {
  *
  * This function iterates over the signals stored in the instance's $snapshot property.
  * If a signal's value is not an object or array and the signal's persist option is true or undefined,
- * it adds the signal's value to the returned snapshot object.
+ * it adds the signal's value to the returned snapshot object. Values of the types registered with
+ * `registerSyncType()` are added with their tagged encoding.
  *
  * @param {Record<string, any>} instance - The instance containing the $snapshot map of signals.
  * @returns {Record<string, any>} - An object representing the persisted snapshot of the instance's state.
@@ -130,12 +184,12 @@ export function createStatesSnapshot(
     for (const key of instance.$snapshot.keys()) {
       const signal = instance.$snapshot.get(key);
       const persist = signal.options.persist ?? true;
-      let value = signal();
-      if (isObject(value) || Array.isArray(value)) {
+      let value = syncValueOf(signal);
+      if ((isObject(value) || Array.isArray(value)) && !findSyncType(value)) {
         continue;
       }
       if (persist) {
-        persistObject[key] = value;
+        persistObject[key] = encodeSyncValue(value);
       }
     }
   }
@@ -156,14 +210,19 @@ const serializeSnapshotDeep = (
   seen: WeakSet<object>
 ): any => {
   if (isSignal(value)) {
-    return serializeSnapshotDeep(value(), path, options, seen);
+    // Map and set signals are stored like objects, unlike the maps held by plain properties
+    return serializeSnapshotDeep(syncValueOf(value), path, options, seen);
   }
 
-  if (value instanceof Map) {
+  if (options.filter && !options.filter(value, path)) {
     return SNAPSHOT_SKIP;
   }
 
-  if (options.filter && !options.filter(value, path)) {
+  if (findSyncType(value)) {
+    return encodeSyncValue(value);
+  }
+
+  if (value instanceof Map) {
     return SNAPSHOT_SKIP;
   }
 
@@ -217,7 +276,10 @@ const serializeSnapshotDeep = (
  *
  * This function iterates over the signals stored in the instance's $snapshot property.
  * If a signal's persist option is true or undefined, it deep-serializes the signal's value.
- * Maps are skipped, and Date instances are converted to strings.
+ * Values of the types registered with `registerSyncType()` are stored with
+ * their tagged encoding. Otherwise, maps held by plain values are skipped, map
+ * and set signals are stored as objects (see `toSyncCollection`), and Date
+ * instances are converted to strings.
  */
 export function createStatesSnapshotDeep(
   instance: Record<string, any>,
@@ -232,7 +294,7 @@ export function createStatesSnapshotDeep(
         continue;
       }
 
-      const value = signal();
+      const value = syncValueOf(signal);
       const serialized = serializeSnapshotDeep(
         value,
         key,
@@ -279,14 +341,14 @@ export const createSyncClass = (
       const syncToClient = signal.options?.syncToClient ?? true;
       const persist = signal.options?.persist ?? true;
       const transform = signal.options?.transform;
-      let signalValue = signal();
+      let signalValue = syncValueOf(signal);
 
       // Apply transformation before converting array to object
       if (transform) {
         signalValue = transform(signalValue);
       }
 
-      if (isObject(signalValue) || Array.isArray(signalValue)) {
+      if ((isObject(signalValue) || Array.isArray(signalValue)) && !findSyncType(signalValue)) {
         signalValue = { ...signalValue };
       }
 
@@ -346,14 +408,34 @@ export const type = <T>(
   const { syncToClient = true, persist = true, transform, skipInitialSync = false } = options;
   let init = true;
 
+  // Change of a nested value of a deep signal, synced at its own path
+  const handleDeepChange = (value: SubjectValue, nestedValue: any, propPath: string) => {
+    const newPath = `${propPath}.${value.path!.join(".")}`;
+    if (value.type === "remove") {
+      savePath(newPath, DELETE_TOKEN);
+    } else if (isSyncedInstance(nestedValue)) {
+      createSyncClass(nestedValue, value.path![value.path!.length - 1], currentInstance, newPath);
+    } else if (Array.isArray(nestedValue)) {
+      // Reordered nested arrays are replaced as a whole
+      savePath(newPath, [...nestedValue]);
+    } else {
+      savePath(newPath, nestedValue);
+    }
+  };
+
   const handleObjectSubject = (value: SubjectValue, propPath: string) => {
+    if (value.path) {
+      handleDeepChange(value, value.value, propPath);
+      return;
+    }
     const newPath = `${propPath}${value.key ? `.${value.key}` : ""}`;
     if (["add", "reset", "update"].includes(value.type)) {
-      if (isInstanceOfClass(value.value)) {
+      if (isSyncedInstance(value.value)) {
         createSyncClass(value.value, value.key, currentInstance, newPath);
       } else if (
         value.type === "update" &&
-        (isObject(value.value) || Array.isArray(value.value))
+        (isObject(value.value) || Array.isArray(value.value)) &&
+        !findSyncType(value.value)
       ) {
         createSyncClass(value.value, value.key, currentInstance, newPath);
       } else {
@@ -365,10 +447,14 @@ export const type = <T>(
   };
 
   const handleArraySubject = (value: SubjectValue, propPath: string) => {
+    if (value.path) {
+      handleDeepChange(value, value.items?.[0], propPath);
+      return;
+    }
     if (value.type === "reset" && Array.isArray(value.items)) {
       value.items.forEach((item, index) => {
         const newPath = `${propPath}.${index}`;
-        if (isInstanceOfClass(item)) {
+        if (isSyncedInstance(item)) {
           createSyncClass(item, value.key, currentInstance, newPath);
         } else {
           savePath(newPath, item);
@@ -381,11 +467,12 @@ export const type = <T>(
     const firstItem = value.items?.[0];
 
     if (["add", "update"].includes(value.type) && firstItem !== undefined) {
-      if (isInstanceOfClass(firstItem)) {
+      if (isSyncedInstance(firstItem)) {
         createSyncClass(firstItem, value.key, currentInstance, newPath);
       } else if (
         value.type === "update" &&
-        (isObject(firstItem) || Array.isArray(firstItem))
+        (isObject(firstItem) || Array.isArray(firstItem)) &&
+        !findSyncType(firstItem)
       ) {
         createSyncClass(firstItem, value.key, currentInstance, newPath);
       } else {
@@ -396,6 +483,67 @@ export const type = <T>(
     }
   };
 
+  const saveMapEntry = (key: any, entry: any, propPath: string) => {
+    const newPath = `${propPath}.${key}`;
+    if (isSyncedInstance(entry)) {
+      createSyncClass(entry, key, currentInstance, newPath);
+    } else {
+      savePath(newPath, entry);
+    }
+  };
+
+  // A reset removes the keys of the replaced map or set missing from the new one
+  const removeResetKeys = (value: SubjectValue, propPath: string) => {
+    const kept = toSyncCollection(value.value);
+    for (const key of Object.keys(toSyncCollection(value.previous) ?? {})) {
+      if (!Object.prototype.hasOwnProperty.call(kept, key)) {
+        savePath(`${propPath}.${key}`, DELETE_TOKEN);
+      }
+    }
+  };
+
+  const handleMapSubject = (value: SubjectValue, propPath: string) => {
+    if (value.type === "reset") {
+      removeResetKeys(value, propPath);
+      for (const [key, entry] of value.value as Map<any, any>) {
+        saveMapEntry(key, entry, propPath);
+      }
+      return;
+    }
+    if (value.type === "clear") {
+      for (const key of value.value.keys()) {
+        savePath(`${propPath}.${key}`, DELETE_TOKEN);
+      }
+      return;
+    }
+    if (value.type === "remove") {
+      savePath(`${propPath}.${value.key}`, DELETE_TOKEN);
+    } else {
+      saveMapEntry(value.key, value.value, propPath);
+    }
+  };
+
+  const handleSetSubject = (value: SubjectValue, propPath: string) => {
+    if (value.type === "reset") {
+      removeResetKeys(value, propPath);
+      for (const item of value.value as Set<any>) {
+        savePath(`${propPath}.${item}`, item);
+      }
+      return;
+    }
+    const removed = value.type === "clear" ? Array.from(value.value) : [value.value];
+    for (const item of removed) {
+      savePath(`${propPath}.${item}`, value.type === "add" ? item : DELETE_TOKEN);
+    }
+  };
+
+  // Each element of a list or text signal is synced at its own path, by id
+  const handleCrdtSubject = (value: SubjectValue, propPath: string) => {
+    for (const [id, entry] of Object.entries(value.entries ?? {})) {
+      savePath(`${propPath}.${id}`, entry);
+    }
+  };
+
   const savePath = (propPath: string, value: any) => {
     // Apply transformation if provided and value is not DELETE_TOKEN
     const transformedValue = 
@@ -421,7 +569,7 @@ export const type = <T>(
 
     // For initial sync of direct property values
     if (syncToClient && !skipInitialSync && currentInstance.$valuesChanges) {
-      const initialValue = signal();
+      const initialValue = syncValueOf(signal);
       const transformedInitialValue = transform ? transform(initialValue) : initialValue;
       const initialPath = currentInstance.$path !== undefined
         ? `${currentInstance.$path ? `${currentInstance.$path}.` : ""}${signalPath}`
@@ -445,6 +593,12 @@ export const type = <T>(
           handleObjectSubject(value, fullPath);
         } else if (isArraySubject(signal._subject)) {
           handleArraySubject(value, fullPath);
+        } else if (isMapSubject(signal._subject)) {
+          handleMapSubject(value, fullPath);
+        } else if (isSetSubject(signal._subject)) {
+          handleSetSubject(value, fullPath);
+        } else if (isCrdtSubject(signal._subject)) {
+          handleCrdtSubject(value, fullPath);
         } else {
           savePath(fullPath, value);
         }
@@ -1,15 +1,84 @@
 import { type } from "./core";
+import type { InterpolationMode, InterpolationOptions } from "./interpolation";
+
+/**
+ * Decides if an entry of a synced collection is sent to a connection.
+ * `viewer` is the user of the connection (or `undefined` if the room has no users).
+ */
+export interface VisibilityPredicate<TViewer = any, TEntity = any> {
+  (viewer: TViewer, entity: TEntity): boolean;
+  /**
+   * Indexes the entries of the collection, so that the predicate only runs for
+   * the entries the index returns for a viewer (see `spatialGrid()`)
+   */
+  index?: (entities: Record<string, TEntity>) => VisibilityIndex<TViewer>;
+}
+
+/**
+ * Entries of a collection that a viewer may see, built once for all the
+ * connections receiving a sync packet.
+ */
+export interface VisibilityIndex<TViewer = any> {
+  /** Ids of the entries that may be visible to the viewer */
+  candidates(viewer: TViewer): Iterable<string>;
+}
+
+/**
+ * Schema validating the value of a synced property. Zod schemas match this
+ * interface, including the ones built by `@signe/schema-to-zod`.
+ */
+export interface SyncSchema<T = any> {
+  safeParse(value: unknown): { success: true; data: T } | { success: false; error: unknown };
+}
+
+/**
+ * Value rejected by the schema of a synced property when it was loaded
+ */
+export interface InvalidSyncValue {
+  /** The instance holding the property */
+  instance: any;
+  /** The name of the property */
+  key: string;
+  /** The loaded path, from the instance given to `load()` */
+  path: string;
+  /** The rejected value */
+  value: any;
+  /** The error returned by the schema */
+  error: unknown;
+}
+
+/**
+ * Decides if a client can change a synced property with a `patch` packet.
+ * `path` is the full path of the change, from the room, and `instance` is the
+ * object holding the property.
+ */
+export type ClientWritablePredicate<TUser = any> = (
+  user: TUser,
+  path: string,
+  value: any,
+  instance: any
+) => boolean | Promise<boolean>;
 
 export interface SyncOptions {
   classType?: Function;
   persist?: boolean;
   syncToClient?: boolean;
   transform?: (value: any) => any;
+  visibility?: VisibilityPredicate;
+  interpolate?: InterpolationMode | InterpolationOptions;
+  schema?: SyncSchema;
+  onInvalid?: (invalid: InvalidSyncValue) => void;
+  clientWritable?: ClientWritablePredicate;
 }
 
 export type NormalizedSyncOptions = Required<Pick<SyncOptions, "persist" | "syncToClient">> & {
   classType?: Function;
   transform?: (value: any) => any;
+  visibility?: VisibilityPredicate;
+  interpolate?: InterpolationMode | InterpolationOptions;
+  schema?: SyncSchema;
+  onInvalid?: (invalid: InvalidSyncValue) => void;
+  clientWritable?: ClientWritablePredicate;
 };
 
 export function normalizeSyncOptions(options?: SyncOptions | Function): NormalizedSyncOptions {
@@ -17,6 +86,11 @@ export function normalizeSyncOptions(options?: SyncOptions | Function): Normaliz
   let persist = true;
   let syncToClient = true;
   let transform: ((value: any) => any) | undefined;
+  let visibility: VisibilityPredicate | undefined;
+  let interpolate: InterpolationMode | InterpolationOptions | undefined;
+  let schema: SyncSchema | undefined;
+  let onInvalid: ((invalid: InvalidSyncValue) => void) | undefined;
+  let clientWritable: ClientWritablePredicate | undefined;
 
   if (typeof options === "function") {
     classType = options;
@@ -31,9 +105,24 @@ export function normalizeSyncOptions(options?: SyncOptions | Function): Normaliz
     if (options.hasOwnProperty("transform")) {
       transform = options.transform;
     }
+    if (options.hasOwnProperty("visibility")) {
+      visibility = options.visibility;
+    }
+    if (options.hasOwnProperty("interpolate")) {
+      interpolate = options.interpolate;
+    }
+    if (options.hasOwnProperty("schema")) {
+      schema = options.schema;
+    }
+    if (options.hasOwnProperty("onInvalid")) {
+      onInvalid = options.onInvalid;
+    }
+    if (options.hasOwnProperty("clientWritable")) {
+      clientWritable = options.clientWritable;
+    }
   }
 
-  return { classType, persist, syncToClient, transform };
+  return { classType, persist, syncToClient, transform, visibility, interpolate, schema, onInvalid, clientWritable };
 }
 
 function setSyncMetadata(
@@ -58,6 +147,11 @@ function setSyncMetadata(
  * @param {boolean} [options.persist=true] - Enable/disable persistence.
  * @param {boolean} [options.syncToClient=true] - Enable/disable client synchronization.
  * @param {Function} [options.transform] - Transform the value before synchronization. Receives the original value and should return the transformed value.
+ * @param {Function} [options.visibility] - On a collection of a room, only sends the entries for which `visibility(viewer, entity)` returns true to each connection.
+ * @param {string | object} [options.interpolate] - On the client, buffers the values received from the server so they can be read with `interpolated()` (`linear`, `angle` or `InterpolationOptions`).
+ * @param {SyncSchema} [options.schema] - Validates the values loaded by `load()` (storage restore, client sync). Rejected values are not written.
+ * @param {Function} [options.onInvalid] - Receives the values rejected by `schema`. Without it, they are reported with `console.warn`.
+ * @param {Function} [options.clientWritable] - In a room, lets the clients change the property with `patch()` when `clientWritable(user, path, value, instance)` returns true.
  * @returns {PropertyDecorator} - The property decorator function.
  * @example
  * ```typescript
@@ -71,6 +165,12 @@ function setSyncMetadata(
  * 
  *   // Transform string to number during sync
  *   @sync({ transform: (val) => +val }) value = signal(1);
+ *
+ *   // Reject the loaded values that are not positive integers
+ *   @sync({ schema: z.number().int().min(0) }) gold = signal(0);
+ *
+ *   // Each player can move their own cursor
+ *   @sync({ clientWritable: (user, path, value, player) => user === player }) cursor = signal({ x: 0, y: 0 });
  * }
  * ```
  */
@@ -1,4 +1,9 @@
 export * from './core';
+export * from './codec';
 export * from './decorators';
 export * from './load';
 export * from './utils';
+export * from './protocol';
+export * from './interest';
+export * from './interpolation';
+export * from './state-schema';
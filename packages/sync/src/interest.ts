@@ -0,0 +1,99 @@
+import { isSignal } from "@signe/reactive";
+import type { VisibilityIndex, VisibilityPredicate } from "./decorators";
+
+export interface SpatialGridOptions {
+  /** Size of a grid cell, in the same unit as the `x`/`y` signals */
+  cellSize: number;
+  /** Number of neighbouring cells visible around the viewer's cell (default: 1) */
+  radius?: number;
+  /** Name of the property holding the horizontal position (default: "x") */
+  x?: string;
+  /** Name of the property holding the vertical position (default: "y") */
+  y?: string;
+}
+
+function readPosition(entity: any, key: string): number | undefined {
+  const value = entity?.[key];
+  const position = isSignal(value) ? value() : value;
+  return typeof position === "number" ? position : undefined;
+}
+
+/**
+ * Creates a visibility predicate based on a spatial grid: the world is divided
+ * in cells of `cellSize`, and a viewer sees the entities located in its cell and
+ * in the `radius` cells around it. Positions are read from the `x`/`y` signals
+ * (or plain properties) of the viewer and of the entity.
+ *
+ * Entities without a position are always visible, and a viewer without a
+ * position sees nothing but entities without a position.
+ *
+ * The predicate comes with a cell index: the room places the entities in their
+ * cells once per sync packet, then only checks, for each connection, the
+ * entities of the cells around its viewer.
+ *
+ * @param {SpatialGridOptions} options - The grid options.
+ * @returns {VisibilityPredicate} - A predicate for `@sync({ visibility })`.
+ * @example
+ * ```typescript
+ * class GameRoom {
+ *   @users({ classType: Player, visibility: spatialGrid({ cellSize: 256 }) })
+ *   players = signal<Record<string, Player>>({});
+ * }
+ * ```
+ */
+export function spatialGrid(options: SpatialGridOptions): VisibilityPredicate {
+  const { cellSize, radius = 1, x = "x", y = "y" } = options;
+  const cell = (position: number) => Math.floor(position / cellSize);
+
+  const visibility: VisibilityPredicate = (viewer, entity) => {
+    const entityX = readPosition(entity, x);
+    const entityY = readPosition(entity, y);
+    if (entityX === undefined || entityY === undefined) {
+      return true;
+    }
+    const viewerX = readPosition(viewer, x);
+    const viewerY = readPosition(viewer, y);
+    if (viewerX === undefined || viewerY === undefined) {
+      return false;
+    }
+    return (
+      Math.abs(cell(entityX) - cell(viewerX)) <= radius &&
+      Math.abs(cell(entityY) - cell(viewerY)) <= radius
+    );
+  };
+
+  visibility.index = (entities): VisibilityIndex => {
+    const cells = new Map<string, string[]>();
+    const unplaced: string[] = [];
+    for (const [entityId, entity] of Object.entries(entities)) {
+      const entityX = readPosition(entity, x);
+      const entityY = readPosition(entity, y);
+      if (entityX === undefined || entityY === undefined) {
+        unplaced.push(entityId);
+        continue;
+      }
+      const key = `${cell(entityX)}:${cell(entityY)}`;
+      const ids = cells.get(key);
+      if (ids) ids.push(entityId);
+      else cells.set(key, [entityId]);
+    }
+    return {
+      candidates(viewer) {
+        const viewerX = readPosition(viewer, x);
+        const viewerY = readPosition(viewer, y);
+        if (viewerX === undefined || viewerY === undefined) {
+          return unplaced;
+        }
+        const ids = [...unplaced];
+        for (let cellX = cell(viewerX) - radius; cellX <= cell(viewerX) + radius; cellX++) {
+          for (let cellY = cell(viewerY) - radius; cellY <= cell(viewerY) + radius; cellY++) {
+            ids.push(...(cells.get(`${cellX}:${cellY}`) ?? []));
+          }
+        }
+        return ids;
+      },
+    };
+  };
+
+  return visibility;
+}
@@ -0,0 +1,233 @@
+export type InterpolationMode = "linear" | "angle";
+
+export interface InterpolationOptions {
+  /** `linear` (default), or `angle` to interpolate along the shortest arc */
+  mode?: InterpolationMode;
+  /** How far behind the server time values are read, in ms (default: 100) */
+  delay?: number;
+  /** Maximum number of values kept per signal (default: 32) */
+  bufferSize?: number;
+  /** Length of a full turn for the `angle` mode (default: 2π, use 360 for degrees) */
+  period?: number;
+}
+
+interface Sample {
+  time: number;
+  value: any;
+}
+
+/**
+ * Offset between the clock of a server and the local clock, estimated from the
+ * timestamps of the sync packets it sends. Keep one per connection: each server
+ * has its own clock.
+ *
+ * @example
+ * ```typescript
+ * const clock = new SyncClock();
+ * runWithSyncTime(packet.timestamp, () => load(room, packet.value, true), clock);
+ * ```
+ */
+export class SyncClock {
+  private offset: number | undefined;
+
+  /**
+   * Updates the offset with the timestamp of a packet received now.
+   * Packets that arrive quickly give the best estimate; slower ones only pull the offset down slowly.
+   *
+   * @param {number} timestamp - The server time of the packet.
+   */
+  update(timestamp: number) {
+    const offset = timestamp - Date.now();
+    this.offset = this.offset === undefined || offset > this.offset
+      ? offset
+      : this.offset + (offset - this.offset) * 0.05;
+  }
+
+  /**
+   * Estimates the server time.
+   *
+   * @param {number} [local=Date.now()] - The local time.
+   * @returns {number} - The server time at that local time.
+   */
+  now(local: number = Date.now()): number {
+    return local + (this.offset ?? 0);
+  }
+
+  reset() {
+    this.offset = undefined;
+  }
+}
+
+interface InterpolationBuffer {
+  options: Required<InterpolationOptions>;
+  samples: Sample[];
+  /** Clock of the server the samples were received from */
+  clock: SyncClock;
+}
+
+const DEFAULT_DELAY = 100;
+const DEFAULT_BUFFER_SIZE = 32;
+
+const buffers = new WeakMap<object, InterpolationBuffer>();
+// Used when `runWithSyncTime()` is called without a clock
+const defaultClock = new SyncClock();
+let currentSyncTime: number | undefined;
+let currentClock = defaultClock;
+
+/**
+ * Normalizes the `interpolate` option of `@sync()`.
+ *
+ * @param {InterpolationMode | InterpolationOptions} interpolate - The option value.
+ * @returns {Required<InterpolationOptions>} - The options with their default values.
+ */
+export function normalizeInterpolationOptions(
+  interpolate: InterpolationMode | InterpolationOptions
+): Required<InterpolationOptions> {
+  const options = typeof interpolate === "string" ? { mode: interpolate } : interpolate;
+  return {
+    mode: options.mode ?? "linear",
+    delay: options.delay ?? DEFAULT_DELAY,
+    bufferSize: Math.max(2, options.bufferSize ?? DEFAULT_BUFFER_SIZE),
+    period: options.period ?? Math.PI * 2,
+  };
+}
+
+/**
+ * Runs `fn` (usually `load()`) with the server timestamp of the sync packet being loaded.
+ * Values loaded into signals declared with `@sync({ interpolate })` are buffered with this
+ * timestamp, and the offset between the server clock and the local clock is updated.
+ *
+ * @param {number | undefined} timestamp - The `timestamp` field of the sync packet.
+ * @param {() => T} fn - The function loading the packet.
+ * @param {SyncClock} [clock] - The clock of the server sending the packet. A clock shared by the
+ * calls without one is used by default.
+ * @returns {T} - The value returned by `fn`.
+ * @example
+ * ```typescript
+ * runWithSyncTime(packet.timestamp, () => load(room, packet.value, true), clock);
+ * ```
+ */
+export function runWithSyncTime<T>(timestamp: number | undefined, fn: () => T, clock: SyncClock = defaultClock): T {
+  if (typeof timestamp === "number") {
+    clock.update(timestamp);
+  }
+  const previous = currentSyncTime;
+  const previousClock = currentClock;
+  currentSyncTime = timestamp;
+  currentClock = clock;
+  try {
+    return fn();
+  } finally {
+    currentSyncTime = previous;
+    currentClock = previousClock;
+  }
+}
+
+/**
+ * Buffers a value loaded into a signal declared with `@sync({ interpolate })`.
+ * Values loaded outside `runWithSyncTime()` are not timestamped: the buffer is
+ * reset and the signal snaps to the new value.
+ *
+ * @param {any} signal - The signal receiving the value.
+ * @param {any} value - The loaded value.
+ */
+export function recordSyncValue(signal: any, value: any) {
+  const interpolate = signal?.options?.interpolate;
+  if (!interpolate) return;
+  let buffer = buffers.get(signal);
+  if (!buffer) {
+    buffer = { options: normalizeInterpolationOptions(interpolate), samples: [], clock: currentClock };
+    buffers.set(signal, buffer);
+  }
+  const { samples } = buffer;
+  if (currentSyncTime === undefined) {
+    samples.length = 0;
+    return;
+  }
+  if (buffer.clock !== currentClock) {
+    // Times of another server are not comparable
+    samples.length = 0;
+    buffer.clock = currentClock;
+  }
+  const last = samples[samples.length - 1];
+  if (last && last.time > currentSyncTime) {
+    // Out of order value: the buffer only goes forward
+    return;
+  }
+  if (last && last.time === currentSyncTime) {
+    last.value = value;
+    return;
+  }
+  samples.push({ time: currentSyncTime, value });
+  if (samples.length > buffer.options.bufferSize) {
+    samples.shift();
+  }
+}
+
+function lerp(from: number, to: number, t: number) {
+  return from + (to - from) * t;
+}
+
+function lerpAngle(from: number, to: number, t: number, period: number) {
+  let diff = (to - from) % period;
+  if (diff > period / 2) diff -= period;
+  if (diff < -period / 2) diff += period;
+  return from + diff * t;
+}
+
+/**
+ * Reads the value of a signal declared with `@sync({ interpolate })` as it was on the
+ * server `delay` ms ago, interpolated between the two values received around that time.
+ * Falls back to the current value of the signal when nothing is buffered, when the
+ * values are not numbers, or for signals without the `interpolate` option.
+ *
+ * @param {() => T} signal - A synced signal.
+ * @param {number} [now=Date.now()] - Local time of the frame being rendered.
+ * @returns {T} - The interpolated value.
+ * @example
+ * ```typescript
+ * class Player {
+ *   @sync({ interpolate: 'linear' }) x = signal(0);
+ *   @sync({ interpolate: { mode: 'angle', period: 360 } }) direction = signal(0);
+ * }
+ *
+ * // In the render loop
+ * sprite.x = interpolated(player.x);
+ * sprite.angle = interpolated(player.direction);
+ * ```
+ */
+export function interpolated<T>(signal: () => T, now: number = Date.now()): T {
+  const buffer = buffers.get(signal);
+  if (!buffer || buffer.samples.length === 0) {
+    return signal();
+  }
+  const { samples, options } = buffer;
+  const target = buffer.clock.now(now) - options.delay;
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  if (target <= first.time) return first.value;
+  if (target >= last.time) return last.value;
+
+  let index = samples.length - 2;
+  while (index > 0 && samples[index].time > target) {
+    index--;
+  }
+  const from = samples[index];
+  const to = samples[index + 1];
+  if (typeof from.value !== "number" || typeof to.value !== "number") {
+    return from.value;
+  }
+  const t = (target - from.time) / (to.time - from.time);
+  const value = options.mode === "angle"
+    ? lerpAngle(from.value, to.value, t, options.period)
+    : lerp(from.value, to.value, t);
+  return value as T;
+}
+
+/**
+ * Resets the estimated offset of the clock shared by the `runWithSyncTime()` calls
+ * without a clock, e.g. when connecting to another server.
+ */
+export function resetSyncClock() {
+  defaultClock.reset();
+}
@@ -1,9 +1,15 @@
-import { isSignal } from "@signe/reactive";
+import { isCrdtSignal, isMapSubject, isSetSubject, isSignal } from "@signe/reactive";
 import { DELETE_TOKEN, setMetadata } from "./core";
 import { isClass } from "./utils";
+import { recordSyncValue } from "./interpolation";
+import { decodeSyncValue, isEncodedSyncValue } from "./codec";
+import type { NormalizedSyncOptions } from "./decorators";
 
 /**
  * Loads values into the root instance by paths or from an object.
+ * The tagged encodings of the types registered with `registerSyncType()` are
+ * decoded. The values of the properties declared with a `schema` in `@sync()`
+ * are validated, and the rejected values are not written.
  * 
  * @param {object} rootInstance - The instance into which values will be loaded.
  * @param {object} values - The values to load, either as paths or an object.
@@ -65,7 +71,12 @@ function loadFromObject(
   for (let key in values) {
     const value = values[key];
     const newPath = currentPath ? `${currentPath}.${key}` : key;
-    if (typeof value === "object" && !Array.isArray(value) && value !== null) {
+    if (
+      typeof value === "object" &&
+      !Array.isArray(value) &&
+      value !== null &&
+      !isEncodedSyncValue(value)
+    ) {
       loadFromObject(rootInstance, value, newPath);
     } else {
       const parts = newPath.split(".");
@@ -85,19 +96,62 @@ function loadFromObject(
  */
 function loadValue(rootInstance: any, parts: string[], value: any) {
   let current: any = rootInstance;
+  value = decodeSyncValue(value);
 
   for (let i = 0; i < parts.length; i++) {
     const part = parts[i];
+    const options = isSignal(current) ? undefined : getSyncOptions(current, part);
+
+    // Removing the property itself is not validated
+    if (options?.schema && !(value === DELETE_TOKEN && i === parts.length - 1)) {
+      const checked = validateField(current, part, parts.slice(i + 1), value, options);
+      if (checked.success === false) {
+        const invalid = { instance: current, key: part, path: parts.join("."), value, error: checked.error };
+        if (options.onInvalid) {
+          options.onInvalid(invalid);
+        } else {
+          console.warn(`Invalid value loaded at "${invalid.path}":`, checked.error);
+        }
+        return;
+      }
+      if (i === parts.length - 1) {
+        value = checked.data;
+      }
+    }
 
     if (i === parts.length - 1) {
       if (value == DELETE_TOKEN) {
         if (isSignal(current)) {
           current = current();
         }
-        Reflect.deleteProperty(current, part);
+        if (current instanceof Map) {
+          current.delete(part);
+        } else if (current instanceof Set) {
+          deleteSetItem(current, part);
+        } else {
+          Reflect.deleteProperty(current, part);
+        }
+      }
+      else if (isCrdtSignal(current[part])) {
+        // Entries by element id, or plain values loaded as an edit
+        if (typeof value === "string" || Array.isArray(value)) {
+          current[part].set(value);
+        } else {
+          current[part].merge(value);
+        }
+      }
+      else if (isCrdtSignal(current)) {
+        current.merge({ [part]: value });
       }
       else if (current[part]?._subject) {
-        current[part].set(value);
+        recordSyncValue(current[part], value);
+        current[part].set(toCollection(current[part], value));
+      }
+      else if (isSignal(current) && current() instanceof Map) {
+        current().set(part, value);
+      }
+      else if (isSignal(current) && current() instanceof Set) {
+        current().add(value);
       }
       else if (isSignal(current) && Array.isArray(current()) && !isNaN(Number(part))) {
         current()[Number(part)] = value;
@@ -109,21 +163,27 @@ function loadValue(rootInstance: any, parts: string[], value: any) {
       if (isSignal(current)) {
         current = current();
       }
-      const currentValue = current[part];
+      const currentValue = getChild(current, part);
       if (currentValue === undefined) {
         const parentInstance = getByPath(
           rootInstance,
           parts.slice(0, i).join(".")
         );
         const classType = parentInstance?.options?.classType;
+        let child: any;
         if (classType) {
-          current[part] = !isClass(classType) ? classType(part) : new classType();
-          setMetadata(current[part], 'id', part)
+          child = !isClass(classType) ? classType(part) : new classType();
+          setMetadata(child, 'id', part)
+        } else {
+          child = {};
+        }
+        if (current instanceof Map) {
+          current.set(part, child);
         } else {
-          current[part] = {};
+          current[part] = child;
         }
       }
-      current = current[part];
+      current = getChild(current, part);
     }
   }
 }
@@ -144,11 +204,125 @@ export function getByPath(root: any, path: string) {
     if (isSignal(current)) {
       current = current();
     }
-    if (current[part]) {
-      current = current[part];
+    const child = getChild(current, part);
+    if (child) {
+      current = child;
     } else {
       return undefined;
     }
   }
   return current;
+}
+
+/**
+ * Property declared with `@sync()`, found on a path
+ */
+export interface SyncField {
+  /** The object holding the property */
+  instance: any;
+  key: string;
+  /** The path of the property, from the root instance */
+  path: string;
+  options: NormalizedSyncOptions;
+}
+
+/**
+ * Returns the properties declared with `@sync()` that contain a path, from the
+ * outermost to the innermost. The path is not created if it does not exist.
+ *
+ * @param {object} root - The root instance.
+ * @param {string} path - The path of a value.
+ * @returns {SyncField[]} The properties containing the value.
+ * @example
+ * getSyncFieldsByPath(room, 'players.p1.position.x');
+ * // [{ key: 'players', ... }, { key: 'position', instance: player, path: 'players.p1.position', ... }]
+ */
+export function getSyncFieldsByPath(root: any, path: string): SyncField[] {
+  const fields: SyncField[] = [];
+  const parts = path.split(".");
+  let current = root;
+  for (let i = 0; i < parts.length && current !== null && current !== undefined; i++) {
+    if (isSignal(current)) {
+      current = current();
+    }
+    const options = getSyncOptions(current, parts[i]);
+    if (options) {
+      fields.push({ instance: current, key: parts[i], path: parts.slice(0, i + 1).join("."), options });
+    }
+    current = current && typeof current === "object" ? getChild(current, parts[i]) : undefined;
+  }
+  return fields;
+}
+
+function getSyncOptions(instance: any, key: string): NormalizedSyncOptions | undefined {
+  return instance?.constructor?._syncMetadata?.get(key);
+}
+
+/**
+ * Validates the value of a property once `value` is loaded at `rest`, a path
+ * inside it (or the property itself if `rest` is empty).
+ */
+function validateField(
+  instance: any,
+  key: string,
+  rest: string[],
+  value: any,
+  options: NormalizedSyncOptions
+) {
+  if (rest.length === 0) {
+    return options.schema!.safeParse(value);
+  }
+  let fieldValue = instance[key];
+  if (isSignal(fieldValue)) {
+    fieldValue = fieldValue();
+  }
+  // The nested objects are copied, so that the property is unchanged if the value is rejected
+  const copy = (target: any) => {
+    if (Array.isArray(target)) return [...target];
+    if (target instanceof Map) return Object.fromEntries(target);
+    return target && typeof target === "object" ? { ...target } : {};
+  };
+  const candidate = copy(fieldValue);
+  let target = candidate;
+  for (const part of rest.slice(0, -1)) {
+    target = target[part] = copy(getChild(target, part));
+  }
+  const last = rest[rest.length - 1];
+  if (value === DELETE_TOKEN) {
+    delete target[last];
+  } else {
+    target[last] = value;
+  }
+  return options.schema!.safeParse(candidate);
+}
+
+function getChild(parent: any, key: string) {
+  return parent instanceof Map ? parent.get(key) : parent[key];
+}
+
+/**
+ * Converts the plain object synced for a map or set signal back to a Map or a Set.
+ */
+function toCollection(signal: any, value: any) {
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  if (isMapSubject(signal._subject) && !(value instanceof Map)) {
+    return new Map(Object.entries(value));
+  }
+  if (isSetSubject(signal._subject) && !(value instanceof Set)) {
+    return new Set(Object.values(value));
+  }
+  return value;
+}
+
+/**
+ * Removes the item of a set whose string form is `key`, the key it is synced at.
+ */
+function deleteSetItem(set: Set<any>, key: string) {
+  for (const item of set) {
+    if (String(item) === key) {
+      set.delete(item);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,495 @@
+import { DELETE_TOKEN } from "./core";
+import { isObject } from "./utils";
+
+/**
+ * Operation codes used in binary sync frames.
+ */
+export const BINARY_SYNC_OP = {
+  SET: 0,
+  DELTA: 1,
+  DELETE: 2,
+} as const;
+
+const BINARY_SYNC_FRAME_VERSION = 1;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  private ensure(size: number) {
+    if (this.offset + size <= this.buffer.length) return;
+    let length = this.buffer.length * 2;
+    while (length < this.offset + size) length *= 2;
+    const buffer = new Uint8Array(length);
+    buffer.set(this.buffer);
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+
+  u8(value: number) {
+    this.ensure(1);
+    this.buffer[this.offset++] = value;
+  }
+
+  u16(value: number) {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  u32(value: number) {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value);
+    this.offset += 4;
+  }
+
+  i8(value: number) {
+    this.ensure(1);
+    this.view.setInt8(this.offset, value);
+    this.offset += 1;
+  }
+
+  i16(value: number) {
+    this.ensure(2);
+    this.view.setInt16(this.offset, value);
+    this.offset += 2;
+  }
+
+  i32(value: number) {
+    this.ensure(4);
+    this.view.setInt32(this.offset, value);
+    this.offset += 4;
+  }
+
+  f64(value: number) {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  bytes(value: Uint8Array) {
+    this.ensure(value.length);
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  result() {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+function writeLength(writer: ByteWriter, length: number, fix: number, fixMax: number, code16: number, code32: number) {
+  if (length <= fixMax) {
+    writer.u8(fix | length);
+  } else if (length <= 0xffff) {
+    writer.u8(code16);
+    writer.u16(length);
+  } else {
+    writer.u8(code32);
+    writer.u32(length);
+  }
+}
+
+function writeNumber(writer: ByteWriter, value: number) {
+  if (!Number.isInteger(value) || value > 0xffffffff || value < -0x80000000) {
+    writer.u8(0xcb);
+    writer.f64(value);
+  } else if (value >= 0) {
+    if (value <= 0x7f) {
+      writer.u8(value);
+    } else if (value <= 0xff) {
+      writer.u8(0xcc);
+      writer.u8(value);
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd);
+      writer.u16(value);
+    } else {
+      writer.u8(0xce);
+      writer.u32(value);
+    }
+  } else if (value >= -0x20) {
+    writer.i8(value);
+  } else if (value >= -0x80) {
+    writer.u8(0xd0);
+    writer.i8(value);
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1);
+    writer.i16(value);
+  } else {
+    writer.u8(0xd2);
+    writer.i32(value);
+  }
+}
+
+function writeValue(writer: ByteWriter, value: any) {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0);
+  } else if (value === false) {
+    writer.u8(0xc2);
+  } else if (value === true) {
+    writer.u8(0xc3);
+  } else if (typeof value === "number") {
+    writeNumber(writer, value);
+  } else if (typeof value === "string") {
+    const bytes = textEncoder.encode(value);
+    if (bytes.length <= 31) {
+      writer.u8(0xa0 | bytes.length);
+    } else if (bytes.length <= 0xff) {
+      writer.u8(0xd9);
+      writer.u8(bytes.length);
+    } else if (bytes.length <= 0xffff) {
+      writer.u8(0xda);
+      writer.u16(bytes.length);
+    } else {
+      writer.u8(0xdb);
+      writer.u32(bytes.length);
+    }
+    writer.bytes(bytes);
+  } else if (value instanceof Uint8Array) {
+    if (value.length <= 0xff) {
+      writer.u8(0xc4);
+      writer.u8(value.length);
+    } else if (value.length <= 0xffff) {
+      writer.u8(0xc5);
+      writer.u16(value.length);
+    } else {
+      writer.u8(0xc6);
+      writer.u32(value.length);
+    }
+    writer.bytes(value);
+  } else if (Array.isArray(value)) {
+    writeLength(writer, value.length, 0x90, 15, 0xdc, 0xdd);
+    for (const item of value) {
+      writeValue(writer, item);
+    }
+  } else if (typeof value.toJSON === "function") {
+    // Same behavior as JSON.stringify (e.g. Date -> ISO string)
+    writeValue(writer, value.toJSON());
+  } else if (typeof value === "object") {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    writeLength(writer, entries.length, 0x80, 15, 0xde, 0xdf);
+    for (const [key, item] of entries) {
+      writeValue(writer, key);
+      writeValue(writer, item);
+    }
+  } else {
+    // Functions, symbols and bigints are not serializable, as with JSON.stringify
+    writer.u8(0xc0);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private buffer: Uint8Array) {
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
+
+  private move(size: number) {
+    const offset = this.offset;
+    if (offset + size > this.buffer.length) {
+      throw new Error("Unexpected end of binary sync frame");
+    }
+    this.offset += size;
+    return offset;
+  }
+
+  u8() { return this.view.getUint8(this.move(1)); }
+  u16() { return this.view.getUint16(this.move(2)); }
+  u32() { return this.view.getUint32(this.move(4)); }
+  i8() { return this.view.getInt8(this.move(1)); }
+  i16() { return this.view.getInt16(this.move(2)); }
+  i32() { return this.view.getInt32(this.move(4)); }
+  f32() { return this.view.getFloat32(this.move(4)); }
+  f64() { return this.view.getFloat64(this.move(8)); }
+
+  bytes(length: number) {
+    const offset = this.move(length);
+    return this.buffer.subarray(offset, offset + length);
+  }
+
+  string(length: number) {
+    return textDecoder.decode(this.bytes(length));
+  }
+}
+
+function readArray(reader: ByteReader, length: number) {
+  const array: any[] = new Array(length);
+  for (let i = 0; i < length; i++) {
+    array[i] = readValue(reader);
+  }
+  return array;
+}
+
+function readMap(reader: ByteReader, length: number) {
+  const object: Record<string, any> = {};
+  for (let i = 0; i < length; i++) {
+    const key = readValue(reader);
+    object[String(key)] = readValue(reader);
+  }
+  return object;
+}
+
+function readValue(reader: ByteReader): any {
+  const byte = reader.u8();
+  if (byte <= 0x7f) return byte;
+  if (byte >= 0xe0) return byte - 0x100;
+  if (byte >= 0xa0 && byte <= 0xbf) return reader.string(byte & 0x1f);
+  if (byte >= 0x90 && byte <= 0x9f) return readArray(reader, byte & 0x0f);
+  if (byte >= 0x80 && byte <= 0x8f) return readMap(reader, byte & 0x0f);
+
+  switch (byte) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return reader.bytes(reader.u8()).slice();
+    case 0xc5: return reader.bytes(reader.u16()).slice();
+    case 0xc6: return reader.bytes(reader.u32()).slice();
+    case 0xca: return reader.f32();
+    case 0xcb: return reader.f64();
+    case 0xcc: return reader.u8();
+    case 0xcd: return reader.u16();
+    case 0xce: return reader.u32();
+    case 0xd0: return reader.i8();
+    case 0xd1: return reader.i16();
+    case 0xd2: return reader.i32();
+    case 0xd9: return reader.string(reader.u8());
+    case 0xda: return reader.string(reader.u16());
+    case 0xdb: return reader.string(reader.u32());
+    case 0xdc: return readArray(reader, reader.u16());
+    case 0xdd: return readArray(reader, reader.u32());
+    case 0xde: return readMap(reader, reader.u16());
+    case 0xdf: return readMap(reader, reader.u32());
+  }
+  throw new Error(`Unsupported MessagePack type 0x${byte.toString(16)}`);
+}
+
+/**
+ * Encodes a value with the MessagePack format.
+ *
+ * Only the JSON data model is supported (null, booleans, numbers, strings,
+ * arrays and plain objects) plus `Uint8Array` as binary data.
+ *
+ * @param {any} value - The value to encode.
+ * @returns {Uint8Array} - The encoded bytes.
+ * @example
+ * const bytes = encodeMessagePack({ x: 10, name: "Alice" });
+ * decodeMessagePack(bytes); // { x: 10, name: "Alice" }
+ */
+export function encodeMessagePack(value: any): Uint8Array {
+  const writer = new ByteWriter();
+  writeValue(writer, value);
+  return writer.result();
+}
+
+/**
+ * Decodes MessagePack bytes produced by `encodeMessagePack`.
+ *
+ * @param {ArrayBuffer | ArrayBufferView} data - The bytes to decode.
+ * @returns {any} - The decoded value.
+ */
+export function decodeMessagePack(data: ArrayBuffer | ArrayBufferView): any {
+  return readValue(new ByteReader(toUint8Array(data)));
+}
+
+function toUint8Array(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (data instanceof Uint8Array) return data;
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  return new Uint8Array(data);
+}
+
+function flattenSyncValue(value: any, path: string, leaves: Map<string, any>) {
+  if (isObject(value) && typeof value.toJSON !== "function" && Object.keys(value).length > 0) {
+    for (const key in value) {
+      if (value[key] === undefined) continue;
+      flattenSyncValue(value[key], path ? `${path}.${key}` : key, leaves);
+    }
+    return;
+  }
+  leaves.set(path, value);
+}
+
+function setSyncPath(target: Record<string, any>, path: string, value: any) {
+  const parts = path.split(".");
+  let current = target;
+  for (let i = 0; i < parts.length - 1; i++) {
+    const part = parts[i];
+    if (!isObject(current[part])) {
+      current[part] = {};
+    }
+    current = current[part];
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+function deletePathsWithPrefix(values: Map<string, any>, path: string) {
+  const prefix = `${path}.`;
+  values.delete(path);
+  for (const key of values.keys()) {
+    if (key.startsWith(prefix)) {
+      values.delete(key);
+    }
+  }
+}
+
+/**
+ * Server-side encoder of `sync` packets for the binary protocol.
+ *
+ * One encoder must be kept per connection: it remembers the path dictionary
+ * already sent to the client and the last value sent for each path, so that
+ * a path is only sent once as a string and integer values are sent as deltas.
+ *
+ * A frame is a MessagePack array `[version, definitions, entries, meta]`:
+ * - `definitions`: flat list of `id, path` pairs introduced by this frame
+ * - `entries`: flat list of `id, op, value` triples (see `BINARY_SYNC_OP`)
+ * - `meta`: the other packet fields (everything except `type` and `value`), or `null`
+ *
+ * @example
+ * const encoder = new BinarySyncEncoder();
+ * conn.send(encoder.encode({ type: "sync", value: { users: { abc: { x: 10 } } } }));
+ */
+export class BinarySyncEncoder {
+  private pathIds = new Map<string, number>();
+  private values = new Map<string, any>();
+  private nextId = 0;
+
+  encode(packet: { value?: any; [key: string]: any }): Uint8Array {
+    const { type, value, ...meta } = packet;
+    const leaves = new Map<string, any>();
+    flattenSyncValue(value ?? {}, "", leaves);
+
+    const definitions: any[] = [];
+    const entries: any[] = [];
+
+    for (const [path, leaf] of leaves) {
+      let id = this.pathIds.get(path);
+      if (id === undefined) {
+        id = this.nextId++;
+        this.pathIds.set(path, id);
+        definitions.push(id, path);
+      }
+
+      if (leaf === DELETE_TOKEN) {
+        entries.push(id, BINARY_SYNC_OP.DELETE, null);
+        deletePathsWithPrefix(this.values, path);
+        for (const key of [...this.pathIds.keys()]) {
+          if (key !== path && key.startsWith(`${path}.`)) {
+            this.pathIds.delete(key);
+          }
+        }
+        continue;
+      }
+
+      const previous = this.values.get(path);
+      if (
+        Number.isSafeInteger(previous) &&
+        Number.isSafeInteger(leaf) &&
+        Math.abs(leaf - previous) < Math.abs(leaf)
+      ) {
+        entries.push(id, BINARY_SYNC_OP.DELTA, leaf - previous);
+      } else {
+        entries.push(id, BINARY_SYNC_OP.SET, leaf);
+      }
+      this.values.set(path, leaf);
+    }
+
+    return encodeMessagePack([
+      BINARY_SYNC_FRAME_VERSION,
+      definitions,
+      entries,
+      Object.keys(meta).length > 0 ? meta : null,
+    ]);
+  }
+
+  /**
+   * Forgets the dictionary and the values already sent,
+   * e.g. when the underlying connection is replaced.
+   */
+  reset() {
+    this.pathIds.clear();
+    this.values.clear();
+    this.nextId = 0;
+  }
+}
+
+/**
+ * Client-side decoder of binary sync frames produced by `BinarySyncEncoder`.
+ *
+ * Returns the same packet shape as the JSON protocol (`{ type: "sync", value, ...meta }`),
+ * so the value can be passed to `load(instance, packet.value, true)`.
+ * A frame that redefines the path id `0` starts a new dictionary (new server
+ * connection), so the decoder can be kept across reconnections.
+ *
+ * @example
+ * const decoder = new BinarySyncDecoder();
+ * socket.addEventListener("message", (event) => {
+ *   const packet = decoder.decode(event.data);
+ *   load(instance, packet.value, true);
+ * });
+ */
+export class BinarySyncDecoder {
+  private paths = new Map<number, string>();
+  private values = new Map<string, any>();
+
+  decode(data: ArrayBuffer | ArrayBufferView): { type: "sync"; value: Record<string, any>; [key: string]: any } {
+    const frame = decodeMessagePack(data);
+    if (!Array.isArray(frame) || frame[0] !== BINARY_SYNC_FRAME_VERSION) {
+      throw new Error("Unsupported binary sync frame");
+    }
+    const [, definitions, entries, meta] = frame;
+
+    // The server starts a new dictionary (from id 0) for every connection
+    if (definitions[0] === 0) {
+      this.reset();
+    }
+
+    for (let i = 0; i < definitions.length; i += 2) {
+      this.paths.set(definitions[i], definitions[i + 1]);
+    }
+
+    const value: Record<string, any> = {};
+    for (let i = 0; i < entries.length; i += 3) {
+      const path = this.paths.get(entries[i]);
+      if (path === undefined) {
+        throw new Error(`Unknown path id ${entries[i]} in binary sync frame`);
+      }
+      const op = entries[i + 1];
+      let leaf = entries[i + 2];
+
+      if (op === BINARY_SYNC_OP.DELETE) {
+        deletePathsWithPrefix(this.values, path);
+        for (const [id, knownPath] of this.paths) {
+          if (knownPath.startsWith(`${path}.`)) {
+            this.paths.delete(id);
+          }
+        }
+        leaf = DELETE_TOKEN;
+      } else {
+        if (op === BINARY_SYNC_OP.DELTA) {
+          leaf = (this.values.get(path) ?? 0) + leaf;
+        }
+        this.values.set(path, leaf);
+      }
+
+      if (path === "") {
+        Object.assign(value, leaf);
+      } else {
+        setSyncPath(value, path, leaf);
+      }
+    }
+
+    return { ...(meta ?? {}), type: "sync", value };
+  }
+
+  reset() {
+    this.paths.clear();
+    this.values.clear();
+  }
+}
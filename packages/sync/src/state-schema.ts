@@ -0,0 +1,285 @@
+import { isComputed, isCrdtSignal, isSignal } from "@signe/reactive";
+import { DELETE_TOKEN } from "./core";
+import type { NormalizedSyncOptions } from "./decorators";
+import { isClass, isInstanceOfClass } from "./utils";
+
+/**
+ * Subset of JSON Schema (draft 7) used to describe the synced state
+ */
+export interface SyncJsonSchema {
+  title?: string;
+  type?: "object" | "array" | "string" | "number" | "boolean" | "null";
+  properties?: Record<string, SyncJsonSchema>;
+  required?: string[];
+  additionalProperties?: SyncJsonSchema;
+  items?: SyncJsonSchema;
+  anyOf?: SyncJsonSchema[];
+  const?: any;
+  readOnly?: boolean;
+}
+
+export interface SyncJsonSchemaOptions {
+  /**
+   * Describes the sync packets instead of the whole state: no property is
+   * required, the entries of collections can be `"$delete"`, and arrays can be
+   * sent as objects keyed by index.
+   * @default false
+   */
+  partial?: boolean;
+  /**
+   * Title of the root schema, and name of the root interface of the
+   * declarations. Defaults to the name of the class.
+   */
+  title?: string;
+}
+
+const ANY: SyncJsonSchema = {};
+
+/**
+ * Creates the JSON Schema of the state that an instance of a class decorated
+ * with `@sync()` sends to the clients.
+ *
+ * The properties are read from the `@sync()`, `@users()`, `@connected()` and
+ * `@id()` decorators, and their types are inferred from the values of a new
+ * instance of the class (or of the instance given). The properties with
+ * `syncToClient: false`, such as `@persist()` ones, are excluded. The
+ * collections of a class type are objects whose entries follow the schema of
+ * the class, and the computed signals and `@id()` properties are read-only.
+ *
+ * @param {any} target - The class, or an instance of it if the class cannot be created without arguments.
+ * @param {SyncJsonSchemaOptions} [options] - Generation options.
+ * @returns {SyncJsonSchema} The JSON Schema.
+ * @example
+ * class Player {
+ *   @id() id = signal('');
+ *   @sync() hp = signal(100);
+ * }
+ *
+ * class GameRoom {
+ *   @users(Player) players = signal({});
+ *   @sync() round = signal(1);
+ *   @persist() seed = signal(0);
+ * }
+ *
+ * createSyncJsonSchema(GameRoom);
+ * // {
+ * //   title: 'GameRoom', type: 'object',
+ * //   properties: {
+ * //     players: { type: 'object', additionalProperties: { title: 'Player', ... } },
+ * //     round: { type: 'number' },
+ * //   },
+ * //   required: ['players', 'round'],
+ * // }
+ */
+export function createSyncJsonSchema(
+  target: any,
+  options: SyncJsonSchemaOptions = {}
+): SyncJsonSchema {
+  const schema = classSchema(target, !!options.partial, new Set());
+  return options.title ? { ...schema, title: options.title } : schema;
+}
+
+function classSchema(target: any, partial: boolean, seen: Set<Function>): SyncJsonSchema {
+  const classType = typeof target === "function" ? target : target?.constructor;
+  if (!classType || seen.has(classType)) {
+    // Recursive classes are not expanded again
+    return ANY;
+  }
+  let instance = typeof target === "function" ? undefined : target;
+  if (!instance) {
+    try {
+      instance = new classType();
+    } catch {
+      // The types are unknown, but the properties are still listed
+    }
+  }
+
+  seen.add(classType);
+  const properties: Record<string, SyncJsonSchema> = {};
+  const syncMetadata: Map<string, NormalizedSyncOptions> = classType._syncMetadata ?? new Map();
+  const idKey: string | undefined = classType._propertyMetadata?.get("id");
+
+  if (idKey && !syncMetadata.has(idKey)) {
+    // Set from the key of the entry by `load()`
+    properties[idKey] = { type: "string", readOnly: true };
+  }
+  for (const [key, syncOptions] of syncMetadata) {
+    if (!syncOptions.syncToClient) continue;
+    const schema = propertySchema(instance?.[key], syncOptions, partial, seen);
+    properties[key] = key === idKey ? { ...schema, readOnly: true } : schema;
+  }
+  seen.delete(classType);
+
+  return {
+    ...(classType.name && { title: classType.name }),
+    type: "object",
+    properties,
+    ...(!partial && { required: Object.keys(properties) }),
+  };
+}
+
+function propertySchema(
+  value: any,
+  syncOptions: NormalizedSyncOptions,
+  partial: boolean,
+  seen: Set<Function>
+): SyncJsonSchema {
+  const { classType, transform } = syncOptions;
+  if (isCrdtSignal(value)) {
+    // List and text signals are synced as their entries by element id: [origin, value, deleted?]
+    return { type: "object", additionalProperties: { type: "array" } };
+  }
+  const readOnly = isComputed(value);
+  let current = isSignal(value) ? value() : value;
+
+  if (classType) {
+    // Factories can only be called with the id of an entry
+    const entry = isClass(classType) ? classSchema(classType, partial, seen) : ANY;
+    return Array.isArray(current)
+      ? arraySchema(entry, partial)
+      : { type: "object", additionalProperties: entrySchema(entry, partial) };
+  }
+  if (transform) {
+    try {
+      current = transform(current);
+    } catch {
+      return ANY;
+    }
+  }
+  const schema = valueSchema(current, partial, seen);
+  return readOnly ? { ...schema, readOnly: true } : schema;
+}
+
+function valueSchema(value: any, partial: boolean, seen: Set<Function>): SyncJsonSchema {
+  if (isSignal(value)) {
+    return valueSchema(value(), partial, seen);
+  }
+  switch (typeof value) {
+    case "string":
+      return { type: "string" };
+    case "number":
+      return { type: "number" };
+    case "boolean":
+      return { type: "boolean" };
+  }
+  if (!value || typeof value !== "object") {
+    return ANY;
+  }
+  if (value instanceof Map || value instanceof Set) {
+    // Map and set signals are synced as objects of their values (see `toSyncCollection`)
+    const first = value.values().next();
+    const entry = first.done ? ANY : valueSchema(first.value, partial, seen);
+    return { type: "object", additionalProperties: entrySchema(entry, partial) };
+  }
+  if (Array.isArray(value)) {
+    return arraySchema(value.length ? valueSchema(value[0], partial, seen) : ANY, partial);
+  }
+  if (isInstanceOfClass(value)) {
+    return value.constructor?._syncMetadata ? classSchema(value, partial, seen) : ANY;
+  }
+  const properties: Record<string, SyncJsonSchema> = {};
+  for (const [key, child] of Object.entries(value)) {
+    properties[key] = valueSchema(child, partial, seen);
+  }
+  if (Object.keys(properties).length === 0) {
+    // Empty objects are used as records
+    return { type: "object", additionalProperties: entrySchema(ANY, partial) };
+  }
+  return {
+    type: "object",
+    properties,
+    ...(!partial && { required: Object.keys(properties) }),
+  };
+}
+
+function entrySchema(schema: SyncJsonSchema, partial: boolean): SyncJsonSchema {
+  return partial ? { anyOf: [schema, { const: DELETE_TOKEN }] } : schema;
+}
+
+function arraySchema(items: SyncJsonSchema, partial: boolean): SyncJsonSchema {
+  const schema: SyncJsonSchema = { type: "array", items };
+  if (!partial) {
+    return schema;
+  }
+  // The initial sync and the changes of an array signal send its items keyed by index
+  return {
+    anyOf: [schema, { type: "object", additionalProperties: entrySchema(items, partial) }],
+  };
+}
+
+/**
+ * Creates the TypeScript declarations of the state that an instance of a
+ * class decorated with `@sync()` sends to the clients, from the schema
+ * created by `createSyncJsonSchema()`. Each class of the state is declared as
+ * an interface, named after the class.
+ *
+ * @param {any} target - The class, or an instance of it.
+ * @param {SyncJsonSchemaOptions} [options] - Generation options.
+ * @returns {string} The content of a `.d.ts` file.
+ * @example
+ * import { writeFileSync } from 'node:fs';
+ *
+ * writeFileSync('game-room.d.ts', createSyncTypeDeclarations(GameRoom));
+ * // export interface Player { readonly id: string; hp: number; }
+ * // export interface GameRoom { players: Record<string, Player>; round: number; }
+ */
+export function createSyncTypeDeclarations(
+  target: any,
+  options: SyncJsonSchemaOptions = {}
+): string {
+  const schema = createSyncJsonSchema(target, options);
+  const declarations = new Map<string, string>();
+  const root = schemaToType(schema, declarations, "");
+  if (!declarations.has(root)) {
+    declarations.set(root, `export type ${options.title ?? "SyncState"} = ${root};`);
+  }
+  return Array.from(declarations.values()).join("\n\n") + "\n";
+}
+
+function schemaToType(schema: SyncJsonSchema, declarations: Map<string, string>, indent: string): string {
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.anyOf) {
+    return schema.anyOf.map((item) => schemaToType(item, declarations, indent)).join(" | ");
+  }
+  switch (schema.type) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "null":
+      return schema.type;
+    case "array": {
+      const items = schemaToType(schema.items ?? ANY, declarations, indent);
+      return /[|&]/.test(items) ? `Array<${items}>` : `${items}[]`;
+    }
+    case "object":
+      break;
+    default:
+      return "any";
+  }
+  if (!schema.properties || Object.keys(schema.properties).length === 0) {
+    return `Record<string, ${schemaToType(schema.additionalProperties ?? ANY, declarations, indent)}>`;
+  }
+  if (schema.title && declarations.has(schema.title)) {
+    return schema.title;
+  }
+  if (schema.title) {
+    // Reserved first, so that recursive references use the name
+    declarations.set(schema.title, "");
+  }
+  const bodyIndent = schema.title ? "  " : `${indent}  `;
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties).map(([key, property]) => {
+    const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+    const optional = required.has(key) ? "" : "?";
+    const readOnly = property.readOnly ? "readonly " : "";
+    return `${bodyIndent}${readOnly}${name}${optional}: ${schemaToType(property, declarations, bodyIndent)};`;
+  });
+  if (!schema.title) {
+    return `{\n${lines.join("\n")}\n${indent}}`;
+  }
+  declarations.delete(schema.title);
+  declarations.set(schema.title, `export interface ${schema.title} {\n${lines.join("\n")}\n}`);
+  return schema.title;
+}
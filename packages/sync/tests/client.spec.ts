@@ -1,19 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { connectionRoom, connectionWorld, WorldConnectionOptions } from "../src/client";
-import { load } from "@signe/sync";
+import { BinarySyncEncoder, dateSyncType, load, registerSyncType, unregisterSyncType } from "@signe/sync";
 import PartySocket from "partysocket";
-import { TokenStorage } from "../src/client/storage";
+import { createMemoryStorage, TokenStorage } from "../src/client/storage";
 
 // Mock all dependencies
 vi.mock("partysocket");
-vi.mock("../src/client/storage", () => ({
-  TokenStorage: {
-    saveToken: vi.fn(),
-    getToken: vi.fn().mockReturnValue(Promise.resolve("default-token"))
-  }
-}));
-
-vi.mock("@signe/sync", () => ({
+vi.mock("@signe/sync", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@signe/sync")>()),
   load: vi.fn(),
 }));
 
@@ -134,6 +128,20 @@ describe("Sync Client", () => {
       expect(load).toHaveBeenCalledWith(roomInstance, messageData.value, true);
     });
 
+    it("should decode binary sync frames into load", async () => {
+      const roomInstance = {};
+      await connectionRoom(defaultOptions, roomInstance);
+      const encoder = new BinarySyncEncoder();
+
+      const frame = encoder.encode({ type: "sync", value: { users: { abc: { x: 10, y: 2 } } } });
+      eventListeners.get("message")[0](new MessageEvent("message", { data: frame.buffer }));
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { users: { abc: { x: 10, y: 2 } } }, true);
+
+      const delta = encoder.encode({ type: "sync", value: { users: { abc: { x: 11 } } } });
+      eventListeners.get("message")[0](new MessageEvent("message", { data: delta.buffer }));
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { users: { abc: { x: 11 } } }, true);
+    });
+
     it("should ignore non-sync messages in the default handler", async () => {
       const roomInstance = {};
       await connectionRoom(defaultOptions, roomInstance);
@@ -231,11 +239,243 @@ describe("Sync Client", () => {
       
       // Verify removeEventListener was called
       expect(mockSocket.removeEventListener).toHaveBeenCalled();
+
+      eventListeners.get("message").forEach(listener =>
+        listener(new MessageEvent("message", { data: JSON.stringify({ type: "custom-event", value: 1 }) }))
+      );
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it("should send calls with an id and resolve with the action result", async () => {
+      const conn = await connectionRoom(defaultOptions, {});
+
+      const promise = conn.call("buy", { itemId: "sword" });
+
+      expect(mockSocket.send).toHaveBeenCalledWith(
+        JSON.stringify({
+          action: "buy",
+          value: { itemId: "sword" },
+          id: 1,
+        })
+      );
+
+      eventListeners.get("message")[0](new MessageEvent("message", {
+        data: JSON.stringify({ type: "action.result", id: 1, value: { gold: 90 } }),
+      }));
+
+      await expect(promise).resolves.toEqual({ gold: 90 });
+    });
+
+    it("should decode the registered types of an action result", async () => {
+      registerSyncType(dateSyncType);
+      const conn = await connectionRoom(defaultOptions, {});
+
+      const promise = conn.call("open", {});
+
+      eventListeners.get("message")[0](new MessageEvent("message", {
+        data: JSON.stringify({
+          type: "action.result",
+          id: 1,
+          value: { openedAt: { $type: "date", $value: "2024-01-01T00:00:00.000Z" } },
+        }),
+      }));
+
+      const result: any = await promise;
+      expect(result.openedAt).toBeInstanceOf(Date);
+      expect(result.openedAt.toISOString()).toBe("2024-01-01T00:00:00.000Z");
+      unregisterSyncType(dateSyncType.name);
+    });
+
+    it("should reject calls with the error code sent by the server", async () => {
+      const conn = await connectionRoom(defaultOptions, {});
+
+      const promise = conn.call("buy", { itemId: "sword" });
+
+      eventListeners.get("message")[0](new MessageEvent("message", {
+        data: JSON.stringify({
+          type: "action.error",
+          id: 1,
+          code: "NOT_ENOUGH_GOLD",
+          message: "Not enough gold",
+          details: { missing: 4 },
+        }),
+      }));
+
+      await expect(promise).rejects.toMatchObject({
+        name: "RoomActionError",
+        code: "NOT_ENOUGH_GOLD",
+        message: "Not enough gold",
+        details: { missing: 4 },
+      });
+    });
+
+    it("should reject calls that time out", async () => {
+      vi.useFakeTimers();
+      try {
+        const conn = await connectionRoom(defaultOptions, {});
+        const promise = conn.call("slow", undefined, { timeout: 50 });
+        const assertion = expect(promise).rejects.toMatchObject({ code: "TIMEOUT" });
+
+        await vi.advanceTimersByTimeAsync(50);
+        await assertion;
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should reject pending calls when the connection is closed", async () => {
+      const conn = await connectionRoom(defaultOptions, {});
+      const promise = conn.call("slow");
+
+      conn.close();
+
+      await expect(promise).rejects.toMatchObject({ code: "CLOSED" });
+    });
+
+    it("should send predicted actions with a sequence number and apply them locally", async () => {
+      const roomInstance = { x: 0 };
+      const conn = await connectionRoom(defaultOptions, roomInstance);
+      const apply = vi.fn((room) => room.x++);
+
+      expect(conn.predict("move", { dx: 1 }, apply)).toBe(1);
+      expect(conn.predict("move", { dx: 1 }, apply)).toBe(2);
+
+      expect(roomInstance.x).toBe(2);
+      expect(mockSocket.send).toHaveBeenLastCalledWith(
+        JSON.stringify({
+          action: "move",
+          value: { dx: 1 },
+          seq: 2,
+        })
+      );
+    });
+
+    it("should roll back to the server state and re-apply unacknowledged predictions", async () => {
+      const roomInstance = {};
+      const conn = await connectionRoom(defaultOptions, roomInstance);
+      const receive = (packet: any) =>
+        eventListeners.get("message")[0](new MessageEvent("message", { data: JSON.stringify(packet) }));
+
+      receive({ type: "sync", value: { pId: "p1", x: 0, y: 0 } });
+      const first = vi.fn();
+      const second = vi.fn();
+      conn.predict("move", { dx: 1 }, first);
+      conn.predict("move", { dx: 1 }, second);
+
+      // First action processed by the server
+      receive({ type: "sync", value: { x: 1 }, ack: 1 });
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { pId: "p1", x: 1, y: 0 }, true);
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(2);
+
+      // Change made by another client: the pending prediction is applied again
+      receive({ type: "sync", value: { y: 5 } });
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { pId: "p1", x: 1, y: 5 }, true);
+      expect(second).toHaveBeenCalledTimes(3);
+
+      receive({ type: "sync", value: { x: 2 }, ack: 2 });
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { pId: "p1", x: 2, y: 5 }, true);
+      expect(second).toHaveBeenCalledTimes(3);
+
+      // Nothing predicted anymore: packets are loaded as they are
+      receive({ type: "sync", value: { y: 6 } });
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { y: 6 }, true);
+    });
+
+    it("should send patches and load them locally until they are acknowledged", async () => {
+      const roomInstance = {};
+      const conn = await connectionRoom(defaultOptions, roomInstance);
+      const receive = (packet: any) =>
+        eventListeners.get("message")[0](new MessageEvent("message", { data: JSON.stringify(packet) }));
+
+      receive({ type: "sync", value: { pId: "p1", cursor: { x: 0 } } });
+      expect(conn.patch("cursor.x", 4)).toBe(1);
+
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { "cursor.x": 4 });
+      expect(mockSocket.send).toHaveBeenLastCalledWith(
+        JSON.stringify({ type: "patch", path: "cursor.x", value: 4, seq: 1 })
+      );
+
+      // Rolled back to the server state, then the pending patch is loaded again
+      receive({ type: "sync", value: { other: 1 } });
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { "cursor.x": 4 });
+
+      receive({ type: "sync", value: {}, ack: 1 });
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { pId: "p1", cursor: { x: 0 }, other: 1 }, true);
+    });
+
+    it("should remove the keys created by a rejected patch", async () => {
+      const roomInstance = {};
+      const conn = await connectionRoom(defaultOptions, roomInstance);
+      const receive = (packet: any) =>
+        eventListeners.get("message")[0](new MessageEvent("message", { data: JSON.stringify(packet) }));
+
+      receive({ type: "sync", value: { pId: "p1", npcs: { n1: { hp: 5 } } } });
+      conn.patch("npcs.n9.hp", 1);
+      vi.mocked(load).mockClear();
+
+      receive({ type: "sync", value: {}, ack: 1 });
+      expect(load).toHaveBeenNthCalledWith(1, roomInstance, { npcs: { n9: "$delete" } }, true);
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { pId: "p1", npcs: { n1: { hp: 5 } } }, true);
+    });
+
+    it("should ask for a resync when sync packets were missed", async () => {
+      await connectionRoom(defaultOptions, {});
+      const receive = (packet: any) =>
+        eventListeners.get("message")[0](new MessageEvent("message", { data: JSON.stringify(packet) }));
+      const resyncs = () =>
+        mockSocket.send.mock.calls.filter(([data]) => JSON.parse(data).type === "resync");
+
+      receive({ type: "sync", value: { pId: "p1", count: 0 }, version: 4 });
+      receive({ type: "sync", value: { count: 1 }, version: 5 });
+      // Versions 6 and 7 were not sent to this client
+      receive({ type: "sync", value: { count: 2 }, version: 8, from: 5 });
+      receive({ type: "sync", value: {}, version: 8 });
+      expect(resyncs()).toHaveLength(0);
+
+      receive({ type: "sync", value: { count: 4 }, version: 10 });
+      expect(resyncs()).toEqual([[JSON.stringify({ type: "resync", since: 8 })]]);
+
+      // The answer and the packets received meanwhile do not ask again
+      receive({ type: "sync", value: { count: 4 }, version: 10, from: 8 });
+      receive({ type: "sync", value: { count: 5 }, version: 11 });
+      expect(resyncs()).toHaveLength(1);
+    });
+
+    it("should delete the keys missing from a full state", async () => {
+      const roomInstance = {};
+      await connectionRoom(defaultOptions, roomInstance);
+      const receive = (packet: any) =>
+        eventListeners.get("message")[0](new MessageEvent("message", { data: JSON.stringify(packet) }));
+
+      receive({ type: "sync", value: { pId: "p1", count: 0, users: { a: { x: 1 }, b: { x: 2 } } }, version: 1 });
+      receive({ type: "sync", value: { count: 3, users: { a: { x: 1 } } }, version: 9, from: 1, full: true });
+
+      expect(load).toHaveBeenNthCalledWith(2, roomInstance, { users: { b: "$delete" } }, true);
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { count: 3, users: { a: { x: 1 } } }, true);
+
+      // The next full state is compared with the one it replaced
+      receive({ type: "sync", value: { users: { a: { x: 1 } } }, version: 12, from: 9, full: true });
+      expect(load).toHaveBeenNthCalledWith(4, roomInstance, { count: "$delete" }, true);
+    });
+
+    it("should delete the keys missing from the initial state sent after a reconnection", async () => {
+      const roomInstance = {};
+      await connectionRoom(defaultOptions, roomInstance);
+      const receive = (packet: any) =>
+        eventListeners.get("message")[0](new MessageEvent("message", { data: JSON.stringify(packet) }));
+
+      receive({ type: "sync", value: { pId: "p1", users: { a: { x: 1 }, b: { x: 2 } } }, version: 1 });
+      // `b` was deleted while the socket was closed
+      receive({ type: "sync", value: { pId: "p1", users: { a: { x: 1 } } }, version: 5 });
+
+      expect(load).toHaveBeenNthCalledWith(2, roomInstance, { users: { b: "$delete" } }, true);
+      expect(load).toHaveBeenLastCalledWith(roomInstance, { pId: "p1", users: { a: { x: 1 } } }, true);
     });
 
     it("should close the connection", async () => {
       const conn = await connectionRoom(defaultOptions, {});
-      
+
       // Close the connection
       conn.close();
       
@@ -244,6 +484,182 @@ describe("Sync Client", () => {
     });
   });
 
+  /**
+   * Tests for the events sent with $emit() / @Event()
+   */
+  describe("events", () => {
+    type GameEvents = {
+      chat: { text: string };
+      round: { startedAt: Date };
+    };
+    const receive = (packet: any) =>
+      eventListeners.get("message")[0](new MessageEvent("message", { data: JSON.stringify(packet) }));
+
+    it("should call the listeners of an event with its decoded payload", async () => {
+      registerSyncType(dateSyncType);
+      const conn = await connectionRoom<GameEvents>({ host: "test-host" }, {});
+      const chat = vi.fn();
+      const round = vi.fn();
+      conn.events.on("chat", chat);
+      conn.events.on("round", round);
+
+      receive({ type: "event", event: "chat", value: { text: "Hello" } });
+      receive({ type: "event", event: "round", value: { startedAt: { $type: "date", $value: "2024-01-01T00:00:00.000Z" } } });
+
+      expect(chat).toHaveBeenCalledWith({ text: "Hello" });
+      expect(round.mock.calls[0][0].startedAt).toBeInstanceOf(Date);
+      // Events do not change the state
+      expect(load).not.toHaveBeenCalled();
+      unregisterSyncType(dateSyncType.name);
+    });
+
+    it("should remove listeners with off() and the returned function", async () => {
+      const conn = await connectionRoom<GameEvents>({ host: "test-host" }, {});
+      const first = vi.fn();
+      const second = vi.fn();
+      conn.events.on("chat", first);
+      const offSecond = conn.events.on("chat", second);
+
+      conn.events.off("chat", first);
+      offSecond();
+      receive({ type: "event", event: "chat", value: { text: "Hello" } });
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it("should call once() listeners for the next event only", async () => {
+      const conn = await connectionRoom<GameEvents>({ host: "test-host" }, {});
+      const listener = vi.fn();
+      conn.events.once("chat", listener);
+
+      receive({ type: "event", event: "chat", value: { text: "1" } });
+      receive({ type: "event", event: "chat", value: { text: "2" } });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ text: "1" });
+    });
+
+    it("should call the listeners after the sync packets received before the event", async () => {
+      const conn = await connectionRoom<GameEvents>({ host: "test-host" }, {});
+      const order: string[] = [];
+      vi.mocked(load).mockImplementation(() => {
+        order.push("sync");
+      });
+      conn.events.on("chat", () => order.push("chat"));
+
+      receive({ type: "sync", value: { count: 1 } });
+      receive({ type: "event", event: "chat", value: { text: "Hello" } });
+
+      expect(order).toEqual(["sync", "chat"]);
+    });
+  });
+
+  /**
+   * Tests for session resumption
+   */
+  describe("session", () => {
+    const defaultOptions = { host: "test-host", room: "lobby" };
+    const receive = (packet: any) =>
+      eventListeners.get("message")[0](new MessageEvent("message", { data: JSON.stringify(packet) }));
+    const lastOptions = () => vi.mocked(PartySocket).mock.calls.at(-1)![0];
+
+    it("should store the private session id and reuse it on the next connection", async () => {
+      const storage = createMemoryStorage();
+
+      await connectionRoom({ ...defaultOptions, session: { storage } }, {});
+      const id = lastOptions().id;
+      expect(id).toBeTypeOf("string");
+      expect(storage.getItem("signe:session")).toBe(id);
+      expect(lastOptions()).not.toHaveProperty("session");
+
+      await connectionRoom({ ...defaultOptions, session: { storage } }, {});
+      expect(lastOptions().id).toBe(id);
+    });
+
+    it("should store an explicit id under a custom key", async () => {
+      const storage = createMemoryStorage();
+      await connectionRoom({ ...defaultOptions, id: "player-1", session: { storage, key: "game" } }, {});
+
+      expect(lastOptions().id).toBe("player-1");
+      expect(storage.getItem("game")).toBe("player-1");
+    });
+
+    it("should send the transfer token until the room is joined", async () => {
+      const storage = createMemoryStorage();
+      await connectionRoom(
+        { ...defaultOptions, query: { name: "Ann" }, transferToken: "token-1", session: { storage } },
+        {}
+      );
+      const query = lastOptions().query as () => Promise<Record<string, string>>;
+
+      expect(await query()).toEqual({ name: "Ann", transferToken: "token-1" });
+      expect(storage.getItem("signe:session:transfer:lobby")).toBe("token-1");
+
+      receive({ type: "sync", value: { pId: "p1" } });
+      expect(await query()).toEqual({ name: "Ann" });
+      expect(storage.getItem("signe:session:transfer:lobby")).toBeNull();
+    });
+
+    it("should keep the session in the storage of TokenStorage by default", async () => {
+      const storage = createMemoryStorage();
+      TokenStorage.storage = storage;
+      try {
+        await connectionRoom({ ...defaultOptions, transferToken: "token-1", session: true }, {});
+
+        expect(storage.getItem("signe:session")).toBe(lastOptions().id);
+        expect(storage.getItem("signe:session:transfer:lobby")).toBe("token-1");
+        receive({ type: "sync", value: { pId: "p1" } });
+        expect(storage.getItem("signe:session:transfer:lobby")).toBeNull();
+      } finally {
+        TokenStorage.storage = undefined;
+      }
+    });
+
+    it("should notify reconnections and resumed sessions", async () => {
+      const conn = await connectionRoom(defaultOptions, {});
+      const reconnecting = vi.fn();
+      const resumed = vi.fn();
+      conn.onReconnecting(reconnecting);
+      const offResumed = conn.onResumed(resumed);
+
+      receive({ type: "sync", value: { pId: "p1" } });
+      expect(resumed).not.toHaveBeenCalled();
+
+      eventListeners.get("close")[0](new Event("close"));
+      expect(reconnecting).toHaveBeenCalledWith({ attempt: 1 });
+
+      receive({ type: "sync", value: { pId: "p1" } });
+      expect(resumed).toHaveBeenCalledWith({ publicId: "p1", previousPublicId: "p1" });
+
+      offResumed();
+      eventListeners.get("close")[0](new Event("close"));
+      receive({ type: "sync", value: { pId: "p1" } });
+      expect(resumed).toHaveBeenCalledTimes(1);
+    });
+
+    it("should notify the session restored from the storage", async () => {
+      const storage = createMemoryStorage();
+      storage.setItem("signe:session", "stored-id");
+      const conn = await connectionRoom({ ...defaultOptions, session: { storage } }, {});
+      const resumed = vi.fn();
+      conn.onResumed(resumed);
+
+      receive({ type: "sync", value: { pId: "p1" } });
+      expect(resumed).toHaveBeenCalledWith({ publicId: "p1", previousPublicId: undefined });
+    });
+
+    it("should not notify a reconnection when closed by the client", async () => {
+      const conn = await connectionRoom(defaultOptions, {});
+      const reconnecting = vi.fn();
+      conn.onReconnecting(reconnecting);
+
+      conn.close();
+      eventListeners.get("close")[0](new Event("close"));
+      expect(reconnecting).not.toHaveBeenCalled();
+    });
+  });
+
   /**
    * Tests for the World-based connection function
    */
@@ -448,6 +864,16 @@ describe("Sync Client", () => {
    * Tests for TokenStorage
    */
   describe("TokenStorage", () => {
+    beforeEach(() => {
+      vi.spyOn(TokenStorage, "saveToken").mockResolvedValue();
+      vi.spyOn(TokenStorage, "getToken").mockResolvedValue("default-token");
+    });
+
+    afterEach(() => {
+      vi.mocked(TokenStorage.saveToken).mockRestore();
+      vi.mocked(TokenStorage.getToken).mockRestore();
+    });
+
     it("should save tokens", async () => {
       await TokenStorage.saveToken("new-token");
       
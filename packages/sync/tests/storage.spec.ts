@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { TokenStorage } from "../src/client/storage";
+import { createMemoryStorage, TokenStorage } from "../src/client/storage";
 
 describe("TokenStorage", () => {
   const localStorageMock = {
@@ -32,6 +32,27 @@ describe("TokenStorage", () => {
     expect(localStorageMock.removeItem).toHaveBeenCalledWith("party_token");
   });
 
+  it("reads and writes the tokens of a key in a given storage", async () => {
+    const storage = createMemoryStorage();
+
+    await TokenStorage.saveToken("id-1", "signe:session", storage);
+    await expect(TokenStorage.getToken("signe:session", storage)).resolves.toBe("id-1");
+    TokenStorage.removeToken("signe:session", storage);
+
+    await expect(TokenStorage.getToken("signe:session", storage)).resolves.toBeNull();
+    expect(localStorageMock.setItem).not.toHaveBeenCalled();
+  });
+
+  it("logs the failures of asynchronous storages", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const storage = { ...createMemoryStorage(), removeItem: () => Promise.reject(new Error("remove failed")) };
+
+    expect(TokenStorage.removeToken("key", storage)).toBeUndefined();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(console.error).toHaveBeenCalledWith("Failed to remove token:", expect.any(Error));
+  });
+
   it("swallows localStorage failures", async () => {
     vi.spyOn(console, "error").mockImplementation(() => {});
     localStorageMock.setItem.mockImplementation(() => {
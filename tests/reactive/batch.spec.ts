@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from "vitest";
+import { batch, computed, effect, isBatching, onBatchEnd, signal } from "../../packages/reactive/src";
+
+describe("batch", () => {
+  it("should return the function result", () => {
+    expect(batch(() => 42)).toBe(42);
+  });
+
+  it("should recompute a computed once with the final values", () => {
+    const x = signal(0);
+    const y = signal(0);
+    const direction = signal("up");
+    const compute = vi.fn(() => `${x()},${y()},${direction()}`);
+    const position = computed(compute);
+
+    batch(() => {
+      x.set(1);
+      y.set(2);
+      direction.set("left");
+      x.set(3);
+    });
+
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect(position()).toBe("3,2,left");
+  });
+
+  it("should notify each subscriber once with the final value", () => {
+    const count = signal(0);
+    const values: number[] = [];
+    count.observable.subscribe((value) => values.push(value));
+
+    batch(() => {
+      count.set(1);
+      count.set(2);
+      expect(count()).toBe(2);
+      expect(values).toEqual([0]);
+    });
+
+    expect(values).toEqual([0, 2]);
+  });
+
+  it("should deliver every change of array and object signals in order", () => {
+    const items = signal<number[]>([]);
+    const changes: any[] = [];
+    items.observable.subscribe((change) => changes.push(change.type));
+
+    batch(() => {
+      items().push(1);
+      items().push(2);
+      expect(changes).toEqual(["init"]);
+    });
+
+    expect(changes).toEqual(["init", "add", "add"]);
+  });
+
+  it("should only flush when the outermost batch exits", () => {
+    const count = signal(0);
+    const runs = vi.fn();
+    effect(() => {
+      count();
+      runs();
+    });
+
+    batch(() => {
+      count.set(1);
+      batch(() => count.set(2));
+      expect(runs).toHaveBeenCalledTimes(1);
+      count.set(3);
+    });
+
+    expect(runs).toHaveBeenCalledTimes(2);
+    expect(isBatching()).toBe(false);
+  });
+
+  it("should notify the writes made before an error and rethrow it", () => {
+    const count = signal(0);
+    const double = computed(() => count() * 2);
+
+    expect(() =>
+      batch(() => {
+        count.set(5);
+        throw new Error("failed");
+      })
+    ).toThrow("failed");
+
+    expect(double()).toBe(10);
+    expect(isBatching()).toBe(false);
+
+    count.set(6);
+    expect(double()).toBe(12);
+  });
+
+  it("should call batch end callbacks once after the notifications", () => {
+    const count = signal(0);
+    const double = computed(() => count() * 2);
+    const callback = vi.fn(() => double());
+
+    batch(() => {
+      count.set(1);
+      onBatchEnd(callback);
+      onBatchEnd(callback);
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveReturnedWith(2);
+
+    onBatchEnd(callback);
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computed, effect, listSignal, textSignal } from '../../packages/reactive/src';
+
+describe('listSignal', () => {
+  it('should insert, push and delete values', () => {
+    const list = listSignal(['b']);
+    list.insert(0, 'a');
+    list.push('c', 'd');
+    list.delete(2);
+
+    expect(list()).toEqual(['a', 'b', 'd']);
+  });
+
+  it('should converge when replicas insert at the same place concurrently', () => {
+    const a = listSignal(['x'], { replicaId: 'a' });
+    const b = listSignal<string>([], { replicaId: 'b' });
+    b.merge(a.getState());
+
+    a.insert(1, 'a1', 'a2');
+    b.insert(1, 'b1', 'b2');
+    a.merge(b.getState());
+    b.merge(a.getState());
+
+    expect(a()).toEqual(b());
+    // The runs of each replica are not interleaved
+    expect(a()).toEqual(['x', 'b1', 'b2', 'a1', 'a2']);
+  });
+
+  it('should converge whatever the order of the merged entries', () => {
+    const source = listSignal<number>([], { replicaId: 'src' });
+    const changes: any[] = [];
+    source.observable.subscribe((change) => {
+      if (change.type === 'change') changes.push(change.entries);
+    });
+    source.push(1, 2);
+    source.insert(1, 3);
+    source.delete(0);
+
+    const ordered = listSignal<number>([], { replicaId: 'r1' });
+    const reversed = listSignal<number>([], { replicaId: 'r2' });
+    for (const entries of changes) ordered.merge(entries);
+    for (const entries of [...changes].reverse()) reversed.merge(entries);
+
+    expect(ordered()).toEqual(source());
+    expect(reversed()).toEqual(source());
+    expect(source()).toEqual([3, 2]);
+  });
+
+  it('should keep concurrent insertions next to a deleted value', () => {
+    const a = listSignal(['x', 'y'], { replicaId: 'a' });
+    const b = listSignal<string>([], { replicaId: 'b' });
+    b.merge(a.getState());
+
+    a.delete(0);
+    b.insert(1, 'z');
+    a.merge(b.getState());
+    b.merge(a.getState());
+
+    expect(a()).toEqual(['z', 'y']);
+    expect(b()).toEqual(['z', 'y']);
+  });
+
+  it('should ignore entries already merged', () => {
+    const a = listSignal([1, 2]);
+    const b = listSignal<number>([]);
+
+    expect(b.merge(a.getState())).toBe(true);
+    expect(b.merge(a.getState())).toBe(false);
+    expect(b()).toEqual([1, 2]);
+  });
+
+  it('should drop the oldest entries waiting for an unknown origin beyond 1000', () => {
+    const list = listSignal<number>([], { replicaId: 'a' });
+    const orphans: Record<string, [string, number]> = {};
+    for (let i = 1; i <= 1001; i++) {
+      orphans[`${i}@x`] = [`${i}@missing`, i];
+    }
+    list.merge(orphans);
+    list.merge({ '1@missing': [null, 0], '1001@missing': [null, 0] });
+
+    expect(list()).toContain(1001);
+    expect(list()).not.toContain(1);
+  });
+
+  it('should replace only the values that differ', () => {
+    const list = listSignal(['a', 'b', 'c']);
+    const changes: any[] = [];
+    list.observable.subscribe((change) => changes.push(change));
+
+    list.set(['a', 'x', 'c']);
+
+    expect(list()).toEqual(['a', 'x', 'c']);
+    expect(changes[1]).toEqual({ type: 'change', entries: expect.any(Object), local: true });
+    expect(Object.values(changes[1].entries)).toEqual([
+      [expect.any(String), null, 1],
+      [expect.any(String), 'x'],
+    ]);
+  });
+
+  it('should notify computed signals and effects', () => {
+    const list = listSignal([1]);
+    const total = computed(() => list().reduce((sum, value) => sum + value, 0));
+    const spy = vi.fn();
+    effect(() => spy(list().length));
+
+    const other = listSignal<number>([]);
+    other.push(5);
+    list.push(2);
+    list.merge(other.getState());
+
+    expect(total()).toBe(8);
+    expect(spy.mock.calls.map(([length]) => length)).toEqual([1, 2, 3]);
+  });
+
+  it('should give the initial values the same ids on every replica', () => {
+    const a = listSignal(['x', 'y']);
+    const b = listSignal(['x', 'y']);
+    a.push('z');
+
+    b.merge(a.getState());
+
+    expect(b()).toEqual(['x', 'y', 'z']);
+  });
+
+  it('should reject replica ids that cannot be used in element ids', () => {
+    expect(() => listSignal([], { replicaId: 'a.b' })).toThrow();
+    expect(() => listSignal([], { replicaId: '0' })).toThrow();
+  });
+});
+
+describe('textSignal', () => {
+  it('should edit the text by string indexes', () => {
+    const text = textSignal('Hello');
+    text.insert(5, ' world');
+    text.append('!');
+    text.delete(0, 1);
+
+    expect(text()).toBe('ello world!');
+  });
+
+  it('should merge concurrent edits of the same text', () => {
+    const a = textSignal('The cat', { replicaId: 'a' });
+    const b = textSignal('', { replicaId: 'b' });
+    b.merge(a.getState());
+
+    a.set('The black cat');
+    b.set('The cat sat');
+    a.merge(b.getState());
+    b.merge(a.getState());
+
+    expect(a()).toBe('The black cat sat');
+    expect(b()).toBe(a());
+  });
+
+  it('should emit merged changes as not local', () => {
+    const a = textSignal('hi');
+    const b = textSignal();
+    const spy = vi.fn();
+    b.observable.subscribe(spy);
+
+    b.merge(a.getState());
+
+    expect(spy).toHaveBeenLastCalledWith({ type: 'change', entries: a.getState(), local: false });
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  clearReactiveTrace,
+  computed,
+  disableReactiveDebug,
+  effect,
+  enableReactiveDebug,
+  getDebugId,
+  getReactiveDebugSnapshot,
+  getReactiveGraph,
+  getReactiveTrace,
+  setDebugName,
+  signal,
+} from "../../packages/reactive/src";
+import { reactiveStore } from "../../packages/reactive/src/store";
+
+describe("reactive debug mode", () => {
+  afterEach(() => {
+    disableReactiveDebug();
+  });
+
+  it("should give an id to every node", () => {
+    const a = signal(0);
+    const b = computed(() => a());
+
+    expect(getDebugId(a)).toBeTypeOf("number");
+    expect(getDebugId(b)).toBeGreaterThan(getDebugId(a)!);
+    expect(getReactiveGraph()).toEqual([]);
+  });
+
+  it("should expose the dependency graph of the nodes created while enabled", () => {
+    enableReactiveDebug();
+    const count = signal(1, { debugName: "count" });
+    const double = setDebugName(computed(() => count() * 2), "double");
+    const log = effect(() => {
+      double();
+    }, { debugName: "log" });
+    const [countId, doubleId, logId] = [count, double, log].map(getDebugId);
+
+    expect(getReactiveGraph()).toEqual([
+      { id: countId, name: "count", kind: "signal", version: 0, sources: [], observers: [doubleId] },
+      { id: doubleId, name: "double", kind: "computed", version: 0, sources: [countId], observers: [logId] },
+      { id: logId, name: "log", kind: "effect", version: 0, sources: [doubleId], observers: [] },
+    ]);
+
+    log.subscription.unsubscribe();
+    expect(getReactiveGraph().map((node) => node.name)).toEqual(["count", "double"]);
+  });
+
+  it("should trace the writes, recomputations and notifications", () => {
+    enableReactiveDebug();
+    const count = signal(1, { debugName: "count" });
+    const double = setDebugName(computed(() => count() * 2), "double");
+    double.observable.subscribe(() => {});
+    clearReactiveTrace();
+
+    count.set(2);
+
+    expect(getReactiveTrace().map(({ type, name, causes }) => ({ type, name, causes }))).toEqual([
+      { type: "write", name: "count", causes: undefined },
+      { type: "recompute", name: "double", causes: [getDebugId(count)] },
+      { type: "notify", name: "double", causes: undefined },
+    ]);
+  });
+
+  it("should capture the stack of the writes and limit the trace", () => {
+    enableReactiveDebug({ captureStack: true, traceLimit: 2 });
+    const count = signal(0);
+
+    count.set(1);
+    count.set(2);
+    count.set(3);
+
+    const trace = getReactiveTrace();
+    expect(trace.map((event) => event.version)).toEqual([2, 3]);
+    expect(trace[0].stack).toContain("debug.spec.ts");
+  });
+
+  it("should dump a JSON serializable snapshot", () => {
+    enableReactiveDebug();
+    const count = signal(0, { debugName: "count" });
+    count.set(1);
+
+    const snapshot = getReactiveDebugSnapshot();
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+    expect(snapshot.nodes).toHaveLength(1);
+    expect(snapshot.trace[0]).toMatchObject({ type: "write", name: "count", kind: "signal", version: 1 });
+  });
+
+  it("should not keep alive the nodes dropped by their owner", () => {
+    enableReactiveDebug();
+    const kept = signal(0, { debugName: "kept" });
+    const dropped = signal(0, { debugName: "dropped" });
+    const nodes = reactiveStore.debug.nodes;
+    // The registry must not hold the nodes themselves
+    for (const ref of nodes.values()) {
+      expect(ref).toBeInstanceOf(WeakRef);
+    }
+    expect(nodes.get(getDebugId(dropped)).deref()).toBe(dropped);
+
+    // Same as the weak reference of a garbage collected node
+    nodes.set(getDebugId(dropped), { deref: () => undefined });
+
+    expect(getReactiveGraph().map((node) => node.name)).toEqual(["kept"]);
+    expect(Array.from(nodes.keys())).toEqual([getDebugId(kept)]);
+  });
+});
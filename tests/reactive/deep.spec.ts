@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computed, signal } from '../../packages/reactive/src';
+
+describe('deep signals', () => {
+  it('should not track nested values without the deep option', () => {
+    const player = signal({ stats: { hp: 10 } });
+    const mockFn = vi.fn();
+    player.observable.subscribe(mockFn);
+
+    player().stats.hp = 3;
+
+    expect(mockFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit the path of nested object changes', () => {
+    const player = signal<any>({ stats: { hp: 10, buffs: {} } }, { deep: true });
+    const mockFn = vi.fn();
+    player.observable.subscribe(mockFn);
+
+    player().stats.hp = 3;
+    player().stats.buffs.speed = 2;
+    delete player().stats.buffs.speed;
+
+    expect(mockFn).toHaveBeenCalledWith({ type: 'update', key: 'stats', path: ['stats', 'hp'], value: 3 });
+    expect(mockFn).toHaveBeenCalledWith({ type: 'add', key: 'stats', path: ['stats', 'buffs', 'speed'], value: 2 });
+    expect(mockFn).toHaveBeenCalledWith({ type: 'remove', key: 'stats', path: ['stats', 'buffs', 'speed'], value: 2 });
+    expect(player().stats.hp).toBe(3);
+  });
+
+  it('should emit the path of nested array changes', () => {
+    const player = signal({ items: [{ name: 'sword' }] }, { deep: true });
+    const changes: any[] = [];
+    // Copied, as the emitted values are the nested values themselves
+    player.observable.subscribe((change) => changes.push(JSON.parse(JSON.stringify(change))));
+
+    player().items.push({ name: 'shield' });
+    player().items[1].name = 'axe';
+    player().items.pop();
+    player().items.unshift({ name: 'bow' });
+
+    expect(changes.slice(1)).toEqual([
+      { type: 'add', key: 'items', path: ['items', 1], value: { name: 'shield' } },
+      { type: 'update', key: 'items', path: ['items', 1, 'name'], value: 'axe' },
+      { type: 'remove', key: 'items', path: ['items', 1], value: { name: 'axe' } },
+      { type: 'update', key: 'items', path: ['items'], value: [{ name: 'bow' }, { name: 'sword' }] },
+    ]);
+  });
+
+  it('should track the objects nested in an array signal', () => {
+    const players = signal([{ hp: 10 }], { deep: true });
+    const mockFn = vi.fn();
+    players.observable.subscribe(mockFn);
+
+    players()[0].hp = 3;
+
+    expect(mockFn).toHaveBeenCalledWith({ type: 'update', index: 0, items: [3], path: [0, 'hp'] });
+  });
+
+  it('should keep the identity of nested proxies and never store them', () => {
+    const state = signal<any>({ a: { value: 1 }, b: null }, { deep: true });
+
+    expect(state().a).toBe(state().a);
+
+    state().b = state().a;
+    state().b.value = 2;
+    expect(state().a.value).toBe(2);
+  });
+
+  it('should recompute computed signals on nested changes', () => {
+    const player = signal({ stats: { hp: 10 } }, { deep: true });
+    const hp = computed(() => player().stats.hp);
+
+    player().stats.hp = 3;
+
+    expect(hp()).toBe(3);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
-import { effect, signal } from "../../packages/reactive/src";
+import { computed, effect, onCleanup, signal } from "../../packages/reactive/src";
 
 describe("effect", () => {
   it("should create an effect and run the function immediately", () => {
@@ -75,4 +75,74 @@ describe("effect", () => {
     numSignal.set(1);
     expect(cleanupFn).toHaveBeenCalledTimes(0);
   });
+
+  it("should call onCleanup before each rerun and when disposed", () => {
+    const numSignal = signal(0);
+    const calls: string[] = [];
+
+    const myEffect = effect(() => {
+      const value = numSignal();
+      calls.push(`run ${value}`);
+      onCleanup(() => calls.push(`cleanup ${value}`));
+    });
+
+    numSignal.set(1);
+    myEffect.subscription.unsubscribe();
+
+    expect(calls).toEqual(["run 0", "cleanup 0", "run 1", "cleanup 1"]);
+  });
+
+  it("should dispose the computed signals created by the previous run", () => {
+    const numSignal = signal(0);
+    const other = signal(0);
+    const compute = vi.fn(() => other());
+
+    effect(() => {
+      numSignal();
+      computed(compute);
+    });
+
+    numSignal.set(1);
+    compute.mockClear();
+    other.set(1);
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it("should rerun once in a microtask with the microtask scheduler", async () => {
+    const numSignal = signal(0);
+    const values: number[] = [];
+
+    effect(() => {
+      values.push(numSignal());
+    }, { scheduler: "microtask" });
+
+    numSignal.set(1);
+    numSignal.set(2);
+    expect(values).toEqual([0]);
+
+    await Promise.resolve();
+    expect(values).toEqual([0, 2]);
+  });
+
+  it("should use a custom scheduler", () => {
+    const numSignal = signal(0);
+    const values: number[] = [];
+    const queue: (() => void)[] = [];
+
+    const myEffect = effect(() => {
+      values.push(numSignal());
+    }, { scheduler: (run) => queue.push(run) });
+
+    numSignal.set(1);
+    numSignal.set(2);
+    expect(queue).toHaveLength(1);
+
+    queue.shift()!();
+    expect(values).toEqual([0, 2]);
+
+    numSignal.set(3);
+    myEffect.subscription.unsubscribe();
+    queue.shift()!();
+    expect(values).toEqual([0, 2]);
+  });
 });
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computed, signal } from '../../packages/reactive/src';
+
+describe('MapSubject', () => {
+  it('should create a map signal', () => {
+    const map = new Map([['a', 1]]);
+    const mapSignal = signal(map);
+    const mockFn = vi.fn();
+
+    mapSignal.observable.subscribe(mockFn);
+
+    expect(mapSignal().get('a')).toBe(1);
+    expect(mapSignal().size).toBe(1);
+    expect(mapSignal() instanceof Map).toBe(true);
+    expect(mockFn).toHaveBeenCalledWith({ type: 'init', value: map });
+  });
+
+  it('should notify subscribers on entry add and update', () => {
+    const mapSignal = signal(new Map<string, number>());
+    const mockFn = vi.fn();
+
+    mapSignal.observable.subscribe(mockFn);
+
+    mapSignal().set('a', 1).set('a', 2);
+
+    expect(mockFn).toHaveBeenCalledWith({ type: 'add', key: 'a', value: 1 });
+    expect(mockFn).toHaveBeenCalledWith({ type: 'update', key: 'a', value: 2 });
+  });
+
+  it('should notify subscribers on entry delete', () => {
+    const mapSignal = signal(new Map([['a', 1]]));
+    const mockFn = vi.fn();
+
+    mapSignal.observable.subscribe(mockFn);
+
+    expect(mapSignal().delete('missing')).toBe(false);
+    expect(mapSignal().delete('a')).toBe(true);
+
+    expect(mockFn).toHaveBeenCalledTimes(2);
+    expect(mockFn).toHaveBeenCalledWith({ type: 'remove', key: 'a', value: 1 });
+  });
+
+  it('should notify subscribers on clear with the removed entries', () => {
+    const mapSignal = signal(new Map([['a', 1], ['b', 2]]));
+    const mockFn = vi.fn();
+
+    mapSignal.observable.subscribe(mockFn);
+
+    mapSignal().clear();
+    mapSignal().clear();
+
+    expect(mockFn).toHaveBeenCalledTimes(2);
+    expect(mockFn).toHaveBeenCalledWith({ type: 'clear', value: new Map([['a', 1], ['b', 2]]) });
+    expect(mapSignal().size).toBe(0);
+  });
+
+  it('should notify subscribers on reset', () => {
+    const mapSignal = signal(new Map([['a', 1]]));
+    const mockFn = vi.fn();
+    const newMap = new Map([['b', 2]]);
+
+    mapSignal.observable.subscribe(mockFn);
+    mapSignal.set(newMap);
+
+    const change = mockFn.mock.calls[1][0];
+    expect(change).toMatchObject({ type: 'reset', value: newMap });
+    expect(Array.from(change.previous.entries())).toEqual([['a', 1]]);
+    expect(Array.from(mapSignal().entries())).toEqual([['b', 2]]);
+  });
+
+  it('should recompute computed signals when the map is mutated', () => {
+    const mapSignal = signal(new Map<string, number>());
+    const total = computed(() => {
+      let sum = 0;
+      mapSignal().forEach((value) => (sum += value));
+      return sum;
+    });
+
+    mapSignal().set('a', 1);
+    mapSignal().set('b', 2);
+    expect(total()).toBe(3);
+
+    mapSignal().delete('a');
+    expect(total()).toBe(2);
+  });
+});
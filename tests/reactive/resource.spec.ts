@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from "vitest";
+import { computed, effectScope, resource, signal, untracked } from "../../packages/reactive/src";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("resource", () => {
+  it("should load the value and expose the status", async () => {
+    const user = resource({ loader: async () => ({ name: "Alice" }) });
+
+    expect(user.status()).toBe("loading");
+    expect(user.isLoading()).toBe(true);
+    expect(user.value()).toBeUndefined();
+
+    await flush();
+
+    expect(user.status()).toBe("resolved");
+    expect(user.value()).toEqual({ name: "Alice" });
+  });
+
+  it("should reload when the source changes and abort the previous load", async () => {
+    const userId = signal("u1");
+    const loads: { source: string; abortSignal: AbortSignal; result: ReturnType<typeof deferred<string>> }[] = [];
+    const user = resource({
+      source: () => userId(),
+      loader: ({ source, abortSignal }) => {
+        const result = deferred<string>();
+        loads.push({ source, abortSignal, result });
+        return result.promise;
+      },
+    });
+
+    userId.set("u2");
+    expect(loads.map((load) => load.source)).toEqual(["u1", "u2"]);
+    expect(loads[0].abortSignal.aborted).toBe(true);
+
+    loads[1].result.resolve("Bob");
+    loads[0].result.resolve("Alice");
+    await flush();
+
+    expect(user.value()).toBe("Bob");
+    expect(user.status()).toBe("resolved");
+  });
+
+  it("should stay idle while the source is undefined", async () => {
+    const userId = signal<string | undefined>(undefined);
+    const loader = vi.fn(async ({ source }: { source: string }) => source.toUpperCase());
+    const user = resource({ source: () => userId(), loader });
+
+    expect(user.status()).toBe("idle");
+    expect(loader).not.toHaveBeenCalled();
+
+    userId.set("u1");
+    await flush();
+    expect(user.value()).toBe("U1");
+  });
+
+  it("should clear the error and the value when the source becomes undefined", async () => {
+    const userId = signal<string | undefined>("u1");
+    let fail = false;
+    const user = resource({
+      source: () => userId(),
+      loader: async ({ source }) => {
+        if (fail) throw new Error("unavailable");
+        return source.toUpperCase();
+      },
+      initialValue: "guest",
+    });
+    await flush();
+
+    fail = true;
+    userId.set("u2");
+    await flush();
+    expect(user.status()).toBe("error");
+    expect(user.value()).toBe("U1");
+
+    userId.set(undefined);
+    expect(user.status()).toBe("idle");
+    expect(user.error()).toBeUndefined();
+    expect(user.value()).toBe("guest");
+  });
+
+  it("should expose the error and keep the previous value", async () => {
+    let fail = false;
+    const data = resource({
+      loader: async () => {
+        if (fail) throw new Error("unavailable");
+        return 1;
+      },
+    });
+    await flush();
+
+    fail = true;
+    data.reload();
+    await flush();
+
+    expect(data.status()).toBe("error");
+    expect((data.error() as Error).message).toBe("unavailable");
+    expect(data.value()).toBe(1);
+  });
+
+  it("should compose with computed and untracked", async () => {
+    const page = signal(1);
+    const items = resource({
+      source: () => page(),
+      loader: async ({ source }) => [`item ${source}`],
+      initialValue: [],
+    });
+    const compute = vi.fn(() => items.value()!.length);
+    const count = computed(compute);
+    const label = computed(() => `${untracked(() => items.status())}`);
+
+    expect(count()).toBe(0);
+    await flush();
+
+    expect(count()).toBe(1);
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect(label()).toBe("loading");
+  });
+
+  it("should abort the load when its scope stops", () => {
+    const scope = effectScope();
+    let abortSignal!: AbortSignal;
+    const data = scope.run(() =>
+      resource({
+        loader: (params) => {
+          abortSignal = params.abortSignal;
+          return new Promise<number>(() => {});
+        },
+      })
+    )!;
+
+    scope.stop();
+
+    expect(abortSignal.aborted).toBe(true);
+    expect(data.subscription.closed).toBe(true);
+  });
+});
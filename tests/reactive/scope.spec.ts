@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest";
+import { computed, createRoot, effect, effectScope, onCleanup, signal } from "../../packages/reactive/src";
+
+describe("effectScope", () => {
+  it("should dispose the effects and computed signals created inside it", () => {
+    const count = signal(0);
+    const runs = vi.fn();
+    const compute = vi.fn(() => count() * 2);
+    const cleanup = vi.fn();
+    const scope = effectScope();
+
+    const double = scope.run(() => {
+      effect(() => {
+        count();
+        runs();
+      });
+      onCleanup(cleanup);
+      return computed(compute);
+    });
+    expect(double!()).toBe(0);
+
+    scope.stop();
+    count.set(1);
+
+    expect(runs).toHaveBeenCalledTimes(1);
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(scope.active).toBe(false);
+    expect(scope.run(() => 1)).toBeUndefined();
+  });
+
+  it("should stop the nested scopes unless they are detached", () => {
+    const parent = effectScope();
+    let child: ReturnType<typeof effectScope>;
+    let detached: ReturnType<typeof effectScope>;
+    parent.run(() => {
+      child = effectScope();
+      detached = effectScope(true);
+    });
+
+    parent.stop();
+
+    expect(child!.active).toBe(false);
+    expect(detached!.active).toBe(true);
+  });
+});
+
+describe("createRoot", () => {
+  it("should dispose the graph when dispose is called", () => {
+    const count = signal(0);
+    const values: number[] = [];
+
+    const dispose = createRoot((dispose) => {
+      effect(() => {
+        values.push(count());
+      });
+      return dispose;
+    });
+
+    count.set(1);
+    dispose();
+    count.set(2);
+
+    expect(values).toEqual([0, 1]);
+  });
+
+  it("should not be owned by the current effect nor track its reads", () => {
+    const trigger = signal(0);
+    const count = signal(0);
+    const runs = vi.fn();
+    const values: number[] = [];
+
+    effect(() => {
+      trigger();
+      runs();
+      createRoot(() => {
+        count();
+        effect(() => {
+          values.push(count());
+        });
+      });
+    });
+
+    count.set(1);
+    expect(runs).toHaveBeenCalledTimes(1);
+    expect(values).toEqual([0, 1]);
+
+    trigger.set(1);
+    count.set(2);
+    // The effect of the first root is still alive next to the one of the second root
+    expect(values).toEqual([0, 1, 1, 2, 2]);
+  });
+});
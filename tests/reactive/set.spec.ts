@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computed, signal } from '../../packages/reactive/src';
+
+describe('SetSubject', () => {
+  it('should create a set signal', () => {
+    const set = new Set(['a']);
+    const setSignal = signal(set);
+    const mockFn = vi.fn();
+
+    setSignal.observable.subscribe(mockFn);
+
+    expect(setSignal().has('a')).toBe(true);
+    expect(setSignal().size).toBe(1);
+    expect(mockFn).toHaveBeenCalledWith({ type: 'init', value: set });
+  });
+
+  it('should notify subscribers when a new value is added', () => {
+    const setSignal = signal(new Set(['a']));
+    const mockFn = vi.fn();
+
+    setSignal.observable.subscribe(mockFn);
+
+    setSignal().add('a').add('b');
+
+    expect(mockFn).toHaveBeenCalledTimes(2);
+    expect(mockFn).toHaveBeenCalledWith({ type: 'add', value: 'b' });
+  });
+
+  it('should notify subscribers on delete and clear', () => {
+    const setSignal = signal(new Set(['a', 'b', 'c']));
+    const mockFn = vi.fn();
+
+    setSignal.observable.subscribe(mockFn);
+
+    expect(setSignal().delete('missing')).toBe(false);
+    expect(setSignal().delete('a')).toBe(true);
+    setSignal().clear();
+
+    expect(mockFn).toHaveBeenCalledTimes(3);
+    expect(mockFn).toHaveBeenCalledWith({ type: 'remove', value: 'a' });
+    expect(mockFn).toHaveBeenCalledWith({ type: 'clear', value: new Set(['b', 'c']) });
+  });
+
+  it('should notify subscribers on reset', () => {
+    const setSignal = signal(new Set(['a']));
+    const mockFn = vi.fn();
+    const newSet = new Set(['b']);
+
+    setSignal.observable.subscribe(mockFn);
+    setSignal.set(newSet);
+
+    const change = mockFn.mock.calls[1][0];
+    expect(change).toMatchObject({ type: 'reset', value: newSet });
+    expect(Array.from(change.previous)).toEqual(['a']);
+    expect(setSignal().has('a')).toBe(false);
+  });
+
+  it('should recompute computed signals when the set is mutated', () => {
+    const setSignal = signal(new Set<string>());
+    const size = computed(() => setSignal().size);
+
+    setSignal().add('a');
+    expect(size()).toBe(1);
+    setSignal().delete('a');
+    expect(size()).toBe(0);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
-import { computed, isSignal, signal } from "../../packages/reactive/src";
+import { computed, effect, isSignal, linkedSignal, signal } from "../../packages/reactive/src";
 
 describe("signal", () => {
   it("should create a signal with a primitive value", () => {
@@ -309,3 +309,88 @@ describe("computed", () => {
     expect(currentRadius()).toBe(30 + 10 * Math.sin(2));
   });
 });
+
+describe("computed propagation", () => {
+  it("should recompute the bottom of a diamond once with consistent values", () => {
+    const first = signal("Ada");
+    const upper = computed(() => first().toUpperCase());
+    const lower = computed(() => first().toLowerCase());
+    const seen: string[] = [];
+    const both = computed(() => {
+      const value = `${upper()} ${lower()}`;
+      seen.push(value);
+      return value;
+    });
+    const emitted: string[] = [];
+    both.observable.subscribe((value) => emitted.push(value));
+
+    first.set("Grace");
+
+    expect(seen).toEqual(["ADA ada", "GRACE grace"]);
+    expect(emitted).toEqual(["ADA ada", "GRACE grace"]);
+    expect(both()).toBe("GRACE grace");
+  });
+
+  it("should run an effect once per change of a diamond", () => {
+    const count = signal(1);
+    const double = computed(() => count() * 2);
+    const triple = computed(() => count() * 3);
+    const runs: number[][] = [];
+    effect(() => {
+      runs.push([double(), triple()]);
+    });
+
+    count.set(2);
+
+    expect(runs).toEqual([[2, 3], [4, 6]]);
+  });
+
+  it("should stop depending on the signals not read anymore", () => {
+    const useFirst = signal(true);
+    const first = signal(1);
+    const second = signal(2);
+    const compute = vi.fn(() => (useFirst() ? first() : second()));
+    const value = computed(compute);
+
+    useFirst.set(false);
+    expect(value()).toBe(2);
+    expect(value.dependencies.has(first)).toBe(false);
+
+    first.set(10);
+    expect(compute).toHaveBeenCalledTimes(2);
+
+    second.set(20);
+    expect(value()).toBe(20);
+    expect(compute).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not recompute dependents when a computed value does not change", () => {
+    const count = signal(1);
+    const isEven = computed(() => count() % 2 === 0);
+    const compute = vi.fn(() => (isEven() ? "even" : "odd"));
+    const label = computed(compute);
+
+    count.set(3);
+    expect(label()).toBe("odd");
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    count.set(4);
+    expect(label()).toBe("even");
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it("should propagate through linked signals without glitches", () => {
+    const count = signal(1);
+    const double = linkedSignal(() => count() * 2);
+    const seen: number[] = [];
+    computed(() => {
+      seen.push(double() + count());
+    });
+
+    count.set(2);
+    expect(seen).toEqual([3, 6]);
+
+    double.set(10);
+    expect(seen).toEqual([3, 6, 12]);
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { signal } from "@signe/reactive";
+import { dateSyncType, id, registerSyncType, sync, unregisterSyncType, users } from "@signe/sync";
+import {
+  Action,
+  ActionError,
+  Guard,
+  Room,
+  testRoom,
+} from "../../packages/room/src";
+
+class Player {
+  @id() id: string;
+  @sync() gold = signal(10);
+}
+
+@Room({
+  path: "shop",
+})
+class ShopRoom {
+  @users(Player) users = signal({});
+
+  @Action("buy", z.object({ price: z.number() }))
+  buy(player: Player, { price }: { price: number }) {
+    if (player.gold() < price) {
+      throw new ActionError("NOT_ENOUGH_GOLD", "Not enough gold", { missing: price - player.gold() });
+    }
+    player.gold.update((gold) => gold - price);
+    return { gold: player.gold() };
+  }
+
+  @Action("slow")
+  async slow() {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    return "done";
+  }
+
+  @Action("open")
+  open() {
+    return { openedAt: new Date(0) };
+  }
+
+  @Action("crash")
+  crash() {
+    throw new Error("boom");
+  }
+
+  @Action("forbidden")
+  @Guard([() => false])
+  forbidden() {
+    return "never";
+  }
+}
+
+describe("Request/response actions", () => {
+  let client: any;
+  let messages: any[];
+
+  beforeEach(async () => {
+    const test = await testRoom(ShopRoom);
+    client = await test.createClient();
+    messages = [];
+    client.addEventListener("message", (data: string) => {
+      messages.push(JSON.parse(data));
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    client?.conn.close();
+    vi.restoreAllMocks();
+  });
+
+  const responseFor = (id: string | number) =>
+    messages.find((message) => message.id === id && message.type.startsWith("action."));
+
+  it("sends the return value back in an action.result packet", async () => {
+    await client.send({ action: "buy", value: { price: 4 }, id: 1 });
+    expect(responseFor(1)).toEqual({ type: "action.result", id: 1, value: { gold: 6 } });
+  });
+
+  it("resolves the promise returned by an async handler", async () => {
+    await client.send({ action: "slow", id: "req-1" });
+    expect(responseFor("req-1")).toEqual({ type: "action.result", id: "req-1", value: "done" });
+  });
+
+  it("encodes the registered types of the return value", async () => {
+    registerSyncType(dateSyncType);
+    await client.send({ action: "open", id: "req-2" });
+    unregisterSyncType(dateSyncType.name);
+    expect(responseFor("req-2")).toEqual({
+      type: "action.result",
+      id: "req-2",
+      value: { openedAt: { $type: "date", $value: "1970-01-01T00:00:00.000Z" } },
+    });
+  });
+
+  it("sends the code and details of an ActionError", async () => {
+    await client.send({ action: "buy", value: { price: 30 }, id: 2 });
+    expect(responseFor(2)).toEqual({
+      type: "action.error",
+      id: 2,
+      code: "NOT_ENOUGH_GOLD",
+      message: "Not enough gold",
+      details: { missing: 20 },
+    });
+  });
+
+  it("reports invalid bodies with the validation issues", async () => {
+    await client.send({ action: "buy", value: { price: "free" }, id: 3 });
+    const response = responseFor(3);
+    expect(response.type).toBe("action.error");
+    expect(response.code).toBe("INVALID_BODY");
+    expect(response.details[0].path).toEqual(["price"]);
+  });
+
+  it("reports guard rejections as UNAUTHORIZED", async () => {
+    await client.send({ action: "forbidden", id: 4 });
+    expect(responseFor(4)).toMatchObject({ type: "action.error", code: "UNAUTHORIZED" });
+  });
+
+  it("reports unknown actions as ACTION_NOT_FOUND", async () => {
+    await client.send({ action: "unknown", id: 5 });
+    expect(responseFor(5)).toMatchObject({ type: "action.error", code: "ACTION_NOT_FOUND" });
+  });
+
+  it("reports thrown errors as ACTION_FAILED without their message", async () => {
+    await client.send({ action: "crash", id: 6 });
+    expect(responseFor(6)).toMatchObject({ type: "action.error", code: "ACTION_FAILED", message: "Action failed" });
+    expect(JSON.stringify(responseFor(6))).not.toContain("boom");
+  });
+
+  it("keeps fire-and-forget messages silent", async () => {
+    await expect(client.send({ action: "buy", value: { price: 30 } })).rejects.toThrow("Not enough gold");
+    await client.send({ action: "buy", value: { price: "free" } });
+    await client.send({ action: "unknown" });
+    expect(messages.filter((message) => message.type.startsWith("action."))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { signal } from "@signe/reactive";
+import { BINARY_SYNC_OP, BinarySyncDecoder, decodeMessagePack, id, sync, users } from "@signe/sync";
+import { Action, MockConnection, Room, testRoom, tick } from "../../packages/room/src";
+
+class Player {
+  @id() id: string;
+  @sync() x = signal(0);
+  @sync() y = signal(0);
+}
+
+@Room({
+  path: "binary",
+  protocol: "binary",
+})
+class BinaryRoom {
+  @sync() count = signal(0);
+  @users(Player) users = signal({});
+
+  @Action("move")
+  move(player: Player, { x, y }: { x: number; y: number }) {
+    player.x.set(x);
+    player.y.set(y);
+  }
+
+  @Action("ping")
+  ping() {
+    return "pong";
+  }
+}
+
+describe("Binary sync protocol", () => {
+  let test: any;
+  let room: any;
+  let client: any;
+  let sendSpy: any;
+
+  const framesOf = (conn: MockConnection) =>
+    sendSpy.mock.calls
+      .filter((_: any, index: number) => sendSpy.mock.contexts[index] === conn)
+      .map(([data]: [any]) => data);
+
+  beforeEach(async () => {
+    sendSpy = vi.spyOn(MockConnection.prototype, "send");
+    test = await testRoom(BinaryRoom);
+    room = test.room;
+    client = await test.createClient();
+  });
+
+  afterEach(() => {
+    client?.conn.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should send sync packets as binary frames that decode into the state", async () => {
+    const decoder = new BinarySyncDecoder();
+
+    const [initial] = framesOf(client.conn);
+    expect(initial).toBeInstanceOf(Uint8Array);
+    const initialPacket = decoder.decode(initial);
+    expect(initialPacket.type).toBe("sync");
+    expect(initialPacket.value.count).toBe(0);
+    const publicId = initialPacket.value.pId;
+    expect(initialPacket.value.users[publicId]).toMatchObject({ x: 0, y: 0 });
+
+    await client.send({ action: "move", value: { x: 12, y: 5 } });
+    await tick();
+
+    const frames = framesOf(client.conn);
+    let state: any = {};
+    for (const frame of frames.slice(1)) {
+      state = { ...state, ...decoder.decode(frame).value.users?.[publicId] };
+    }
+    expect(state).toMatchObject({ x: 12, y: 5 });
+  });
+
+  it("should keep JSON for other packets", async () => {
+    await client.send({ action: "ping", id: 1 });
+    const result = framesOf(client.conn).find((frame: any) => typeof frame === "string");
+    expect(JSON.parse(result)).toEqual({ type: "action.result", id: 1, value: "pong" });
+  });
+
+  it("should use one dictionary per connection", async () => {
+    const other = await test.createClient();
+    await tick();
+    const publicId = (await test.getServerUser(client)).id;
+    await client.send({ action: "move", value: { x: 100, y: 5 } });
+    await client.send({ action: "move", value: { x: 103, y: 5 } });
+    await tick();
+
+    for (const conn of [client.conn, other.conn]) {
+      const frames = framesOf(conn);
+      const raw = frames.map((frame: Uint8Array) => decodeMessagePack(frame));
+      // Each connection has its own dictionary, starting at 0
+      expect(raw[0][1][0]).toBe(0);
+
+      const definitions = new Map<string, number>();
+      for (const [, pairs] of raw) {
+        for (let i = 0; i < pairs.length; i += 2) definitions.set(pairs[i + 1], pairs[i]);
+      }
+      const xId = definitions.get(`users.${publicId}.x`);
+      const [, , entries] = raw[raw.length - 1];
+      expect(entries.slice(entries.indexOf(xId), entries.indexOf(xId) + 3)).toEqual([xId, BINARY_SYNC_OP.DELTA, 3]);
+
+      const decoder = new BinarySyncDecoder();
+      const packets = frames.map((frame: Uint8Array) => decoder.decode(frame));
+      expect(packets[packets.length - 1].value.users[publicId].x).toBe(103);
+    }
+
+    other.conn.close();
+  });
+});
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { signal } from "@signe/reactive";
+import { id, sync, users } from "@signe/sync";
+import { Action, Event, Room, testRoom, tick } from "../../packages/room/src";
+
+class Player {
+  @id() id: string;
+  @sync() team = signal("red");
+}
+
+@Room({
+  path: "events",
+})
+class EventsRoom {
+  @users(Player) users = signal<Record<string, Player>>({});
+  @sync() count = signal(0);
+
+  @Event("chat")
+  chat(from: Player, text: string) {
+    return { from: from.id, text };
+  }
+
+  @Event("scored")
+  async scored(points: number) {
+    await Promise.resolve();
+    return points > 0 ? { points } : undefined;
+  }
+
+  @Action("say")
+  say(player: Player, { text }: { text: string }) {
+    this.chat(player, text);
+  }
+}
+
+@Room({
+  path: "events-throttled",
+  throttleSync: 1000,
+})
+class ThrottledRoom {
+  @sync() count = signal(0);
+}
+
+const listen = (client: any) => {
+  const packets: any[] = [];
+  client.addEventListener("message", (data: string) => {
+    const message = JSON.parse(data);
+    if (message.type === "sync" || message.type === "event") packets.push(message);
+  });
+  return packets;
+};
+
+describe("Room events", () => {
+  let test: any;
+  let first: any;
+  let second: any;
+  let firstPackets: any[];
+  let secondPackets: any[];
+
+  beforeEach(async () => {
+    test = await testRoom(EventsRoom);
+    first = await test.createClient();
+    second = await test.createClient();
+    await tick();
+    firstPackets = listen(first);
+    secondPackets = listen(second);
+  });
+
+  afterEach(() => {
+    first?.conn.close();
+    second?.conn.close();
+  });
+
+  const events = (packets: any[]) => packets.filter((packet) => packet.type === "event");
+
+  it("should send an event to all the clients", async () => {
+    test.room.$emit("explosion", { x: 1, y: 2 });
+    await tick();
+
+    expect(events(firstPackets)).toEqual([{ type: "event", event: "explosion", value: { x: 1, y: 2 } }]);
+    expect(events(secondPackets)).toEqual(events(firstPackets));
+  });
+
+  it("should send an event to the given users and public ids", async () => {
+    const player = await test.getServerUser(first);
+    test.room.$emit("whisper", { text: "a" }, { to: player });
+    test.room.$emit("whisper", { text: "b" }, { to: [player.id] });
+    await tick();
+
+    expect(events(firstPackets).map((packet) => packet.value.text)).toEqual(["a", "b"]);
+    expect(events(secondPackets)).toEqual([]);
+  });
+
+  it("should send an event to the users matching a filter", async () => {
+    const player = await test.getServerUser(second);
+    player.team.set("blue");
+    test.room.$emit("alert", { zone: 2 }, { to: (user: Player) => user?.team() === "blue" });
+    await tick();
+
+    expect(events(firstPackets)).toEqual([]);
+    expect(events(secondPackets)).toEqual([{ type: "event", event: "alert", value: { zone: 2 } }]);
+  });
+
+  it("should forward an event to the given users connected through a shard", async () => {
+    const shardConnection = {
+      id: "shard",
+      state: {
+        shard: true,
+        clients: new Map([
+          ["private-a", { publicId: "shard-user-a" }],
+          ["private-b", { publicId: "shard-user-b" }],
+        ]),
+      },
+      send: vi.fn(),
+    };
+    test.server.room.clients.set("shard", { conn: shardConnection });
+
+    test.room.$emit("whisper", { text: "a" }, { to: ["shard-user-a"] });
+    await tick();
+
+    expect(shardConnection.send).toHaveBeenCalledTimes(1);
+    const forwarded = JSON.parse(shardConnection.send.mock.calls[0][0]);
+    expect(forwarded.targetClientId).toBe("private-a");
+    expect(JSON.parse(forwarded.data)).toEqual({ type: "event", event: "whisper", value: { text: "a" } });
+    expect(events(firstPackets)).toEqual([]);
+  });
+
+  it("should emit the value returned by an @Event method", async () => {
+    const player = await test.getServerUser(first);
+    await first.send({ action: "say", value: { text: "Hello" } });
+
+    expect(events(secondPackets)).toEqual([
+      { type: "event", event: "chat", value: { from: player.id, text: "Hello" } },
+    ]);
+  });
+
+  it("should emit the resolved value of an async @Event method, unless undefined", async () => {
+    await expect(test.room.scored(3)).resolves.toEqual({ points: 3 });
+    await test.room.scored(0);
+    await tick();
+
+    expect(events(firstPackets).map((packet) => packet.value)).toEqual([{ points: 3 }]);
+  });
+
+  it("should send an event after the sync packet of a batch it was emitted in", async () => {
+    test.room.$batchSync(() => {
+      test.room.count.set(1);
+      test.room.$emit("counted", { count: 1 });
+      test.room.count.set(2);
+    });
+    await tick();
+
+    expect(firstPackets.map((packet) => packet.type)).toEqual(["sync", "event"]);
+    expect(firstPackets[0].value).toEqual({ count: 2 });
+  });
+});
+
+describe("Room events with throttled sync", () => {
+  it("should send the throttled changes before the event", async () => {
+    const test = await testRoom(ThrottledRoom);
+    const client = await test.createClient();
+    await tick();
+    const packets = listen(client);
+
+    test.room.count.set(1);
+    test.room.count.set(2);
+    test.room.$emit("counted", { count: 2 });
+    await tick();
+
+    expect(packets.map((packet) => packet.type)).toEqual(["sync", "sync", "event"]);
+    expect(packets[1].value).toEqual({ count: 2 });
+    client.conn.close();
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { signal } from "@signe/reactive";
+import { id, sync, users } from "@signe/sync";
+import { Room, RoomHistory, testRoom, tick } from "../../packages/room/src";
+
+describe("RoomHistory", () => {
+  let now: number;
+  let history: RoomHistory;
+
+  beforeEach(() => {
+    now = 1000;
+    history = new RoomHistory({ size: 3 }, () => now);
+  });
+
+  it("should not record when disabled", () => {
+    const disabled = new RoomHistory();
+    disabled.record(new Map([["count", 1]]));
+    expect(disabled.enabled).toBe(false);
+    expect(disabled.length).toBe(0);
+  });
+
+  it("should return the state at a given time", () => {
+    history.record(new Map([["position", { x: 0, y: 0 }]]), 1000);
+    history.record(new Map([["position.x", 10]]), 1100);
+    history.record(new Map([["position.x", 20]]), 1200);
+
+    expect(history.tick).toBe(3);
+    expect(history.at(999)).toEqual({});
+    expect(history.at(1150)).toEqual({ position: { x: 10, y: 0 } });
+    expect(history.at(5000)).toEqual({ position: { x: 20, y: 0 } });
+  });
+
+  it("should rewind from the current time", () => {
+    history.record(new Map([["hp", 100]]), 1000);
+    history.record(new Map([["hp", 50]]), 1100);
+    now = 1150;
+    expect(history.rewind(100, (state) => state.hp)).toBe(100);
+    expect(history.rewind(0, (state) => state.hp)).toBe(50);
+  });
+
+  it("should fold evicted entries into the oldest state", () => {
+    history.record(new Map([["a", 1]]), 1000);
+    history.record(new Map([["b", 2]]), 1100);
+    history.record(new Map([["a", "$delete"]]), 1200);
+    history.record(new Map([["c", 3]]), 1300);
+
+    expect(history.length).toBe(3);
+    expect([...history.entries()].map((entry) => entry.tick)).toEqual([2, 3, 4]);
+    // Clamped to the oldest retained state
+    expect(history.at(0)).toEqual({ a: 1 });
+    expect(history.at(1300)).toEqual({ b: 2, c: 3 });
+  });
+
+  it("should drop entries older than maxAge", () => {
+    history = new RoomHistory({ size: 10, maxAge: 100 }, () => now);
+    history.record(new Map([["x", 1]]), 1000);
+    history.record(new Map([["x", 2]]), 1050);
+    history.record(new Map([["x", 3]]), 1200);
+
+    expect(history.length).toBe(1);
+    expect(history.at(1000)).toEqual({ x: 2 });
+  });
+
+  it("should not be affected by later mutations of the recorded values", () => {
+    const position = { x: 1 };
+    history.record(new Map([["position", position]]), 1000);
+    position.x = 2;
+    const state = history.at(1000);
+    state.position.x = 3;
+    expect(history.at(1000)).toEqual({ position: { x: 1 } });
+  });
+});
+
+class Player {
+  @id() id: string;
+  @sync() x = signal(0);
+}
+
+@Room({
+  path: "arena",
+  history: 50,
+})
+class ArenaRoom {
+  @users(Player) players = signal<Record<string, Player>>({});
+}
+
+describe("Room history", () => {
+  let test: any;
+  let client: any;
+
+  beforeEach(async () => {
+    test = await testRoom(ArenaRoom);
+    client = await test.createClient();
+    await tick();
+  });
+
+  afterEach(() => {
+    client?.conn.close();
+  });
+
+  it("should record the synchronized changes of the room", async () => {
+    const room: any = test.room;
+    const player: Player = await test.getServerUser(client, "players");
+
+    const before = Date.now();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    player.x.set(100);
+    await tick();
+
+    expect(room.$history.enabled).toBe(true);
+    expect(room.$history.length).toBeGreaterThan(0);
+    expect(room.$history.at(before).players[player.id].x).toBe(0);
+    expect(room.$history.at(Date.now()).players[player.id].x).toBe(100);
+    expect(room.$history.rewind(0, (state) => state.players[player.id].x)).toBe(100);
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { signal } from "@signe/reactive";
+import { id, spatialGrid, sync, users } from "@signe/sync";
+import { Room, testRoom, tick } from "../../packages/room/src";
+
+class Player {
+  @id() id: string;
+  @sync() x = signal(0);
+  @sync() y = signal(0);
+  @sync() name = signal("");
+}
+
+class Npc {
+  @id() id: string;
+  @sync() team = signal("red");
+}
+
+// Records its checks, to make sure that its cell index keeps it from running for every entity
+const grid = spatialGrid({ cellSize: 100, radius: 0 });
+const gridChecks: [viewer: Player, entity: Player][] = [];
+const gridVisibility = Object.assign((viewer: Player, entity: Player) => {
+  gridChecks.push([viewer, entity]);
+  return grid(viewer, entity);
+}, { index: grid.index });
+
+@Room({
+  path: "interest",
+})
+class InterestRoom {
+  @users({ classType: Player, visibility: gridVisibility })
+  users = signal<Record<string, Player>>({});
+
+  @sync({ classType: Npc, visibility: (viewer: Player, npc: Npc) => viewer?.name() === npc.team() })
+  npcs = signal<Record<string, Npc>>({});
+
+  @sync() title = signal("arena");
+}
+
+describe("Interest management", () => {
+  let test: any;
+  let room: InterestRoom;
+  let clientA: any;
+  let clientB: any;
+  let playerA: Player;
+  let playerB: Player;
+  let messagesA: any[];
+
+  beforeEach(async () => {
+    test = await testRoom(InterestRoom);
+    room = test.room;
+    clientA = await test.createClient();
+    messagesA = [];
+    clientA.addEventListener("message", (data: string) => messagesA.push(JSON.parse(data)));
+    clientB = await test.createClient();
+    playerA = await test.getServerUser(clientA);
+    playerB = await test.getServerUser(clientB);
+    await tick();
+  });
+
+  afterEach(() => {
+    clientA?.conn.close();
+    clientB?.conn.close();
+  });
+
+  const syncs = () => messagesA.filter((message) => message.type === "sync");
+
+  it("should send entities in the viewer's area", () => {
+    const lastSync = syncs().at(-1);
+    expect(lastSync.value.users[playerB.id]).toBeDefined();
+    expect(messagesA).toContainEqual({ type: "interest.add", value: { users: [playerB.id] } });
+  });
+
+  it("should remove entities leaving the area and send them again when they come back", async () => {
+    messagesA.length = 0;
+    playerB.x.set(500);
+    await tick();
+
+    expect(syncs().at(-1).value.users).toEqual({ [playerB.id]: "$delete" });
+    expect(messagesA).toContainEqual({ type: "interest.remove", value: { users: [playerB.id] } });
+
+    messagesA.length = 0;
+    playerB.y.set(42);
+    await tick();
+    // Changes of an entity out of sight are not sent
+    expect(syncs()).toHaveLength(0);
+
+    playerB.x.set(10);
+    await tick();
+    expect(syncs().at(-1).value.users[playerB.id]).toMatchObject({ x: 10, y: 42 });
+    expect(messagesA).toContainEqual({ type: "interest.add", value: { users: [playerB.id] } });
+  });
+
+  it("should always send the viewer its own entity", async () => {
+    messagesA.length = 0;
+    playerA.x.set(1000);
+    await tick();
+    expect(syncs().some((message) => message.value.users?.[playerA.id]?.x === 1000)).toBe(true);
+  });
+
+  it("should only check the entities of the cells around the viewer", async () => {
+    const checked = () => gridChecks.some(([viewer, entity]) => viewer === playerA && entity === playerB);
+    gridChecks.length = 0;
+    room.title.set("near");
+    await tick();
+    expect(checked()).toBe(true);
+
+    playerB.x.set(500);
+    await tick();
+    gridChecks.length = 0;
+    room.title.set("far");
+    await tick();
+    expect(checked()).toBe(false);
+  });
+
+  it("should filter with a custom predicate", async () => {
+    messagesA.length = 0;
+    const npc = new Npc();
+    npc.team.set("blue");
+    room.npcs()["npc-1"] = npc;
+    await tick();
+    expect(syncs().some((message) => message.value.npcs)).toBe(false);
+
+    playerA.name.set("blue");
+    await tick();
+    expect(syncs().at(-1).value.npcs["npc-1"]).toMatchObject({ team: "blue" });
+  });
+
+  it("should not filter properties without visibility", async () => {
+    messagesA.length = 0;
+    room.title.set("lobby");
+    await tick();
+    expect(syncs().at(-1).value).toEqual({ title: "lobby" });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { signal } from "../../packages/reactive/src";
 import { Room, Server } from "../../packages/room/src";
 import {
@@ -70,6 +70,40 @@ describe("Node room adapter sessions", () => {
     expect(session?.connected).toBe(true);
   });
 
+  it("closes only the connection whose message handler fails", async () => {
+    class FailingServer extends TestServer {
+      async onMessage(): Promise<void> {
+        throw new Error("boom");
+      }
+    }
+    const transport = createNodeRoomTransport(FailingServer, { storage: createMemoryNodeRoomStorage() });
+    const failing = new FakeWebSocket();
+    const other = new FakeWebSocket();
+    await transport.acceptWebSocket(failing, new Request("http://localhost/parties/main/demo?id=a"));
+    await transport.acceptWebSocket(other, new Request("http://localhost/parties/main/demo?id=b"));
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    failing.emit("message", "{}");
+    await sleep(10);
+
+    expect(failing.readyState).toBe(3);
+    expect(other.readyState).toBe(1);
+    expect(error).toHaveBeenCalledWith("[NodeRoomTransport] Unable to handle room message:", expect.any(Error));
+    error.mockRestore();
+  });
+
+  it("uses the PartySocket _pk query parameter when no id is given", async () => {
+    const storage = createMemoryNodeRoomStorage();
+    const transport = createNodeRoomTransport(TestServer, { storage });
+
+    const connection = await transport.acceptWebSocket(
+      new FakeWebSocket(),
+      new Request("http://localhost/parties/main/demo?_pk=socket-session")
+    );
+
+    expect(connection.sessionId).toBe("socket-session");
+  });
+
   it("restores the same public user when reconnecting with the same id", async () => {
     const storage = createMemoryNodeRoomStorage();
     const transport = createNodeRoomTransport(TestServer, { storage });
@@ -0,0 +1,315 @@
+import { EventEmitter } from "node:events";
+import { mkdtemp, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Action, Request, Room, Server } from "../../packages/room/src";
+import {
+  createMemoryNodeRoomLeaseStore,
+  createMemoryNodeRoomStorage,
+  createNodeRoomTransport,
+  createSqliteNodeRoomLeaseStore,
+  type NodeRoomLeaseStore,
+  type NodeRoomOwnershipOptions,
+  type NodeRoomTransport,
+} from "../../packages/room/src/node";
+import { sync } from "@signe/sync";
+import { signal } from "@signe/reactive";
+
+@Room({ path: "demo" })
+class DemoRoom {
+  @sync() count = signal(0);
+
+  @Action("increment")
+  increment() {
+    this.count.update((current) => current + 1);
+  }
+
+  @Request({ path: "/count" })
+  getCount() {
+    return { count: this.count() };
+  }
+}
+
+@Room({ path: "throttled", throttleStorage: 60000 })
+class ThrottledRoom {
+  @sync() count = signal(0);
+
+  @Action("increment")
+  increment() {
+    this.count.update((current) => current + 1);
+  }
+}
+
+class DemoServer extends Server {
+  rooms = [DemoRoom, ThrottledRoom];
+}
+
+// Processes of the cluster, by host of their address
+const hosts = new Map<string, NodeRoomTransport>();
+
+class LoopbackSocket extends EventEmitter {
+  readyState = 1;
+  peer?: LoopbackSocket;
+
+  send(data: string | ArrayBuffer | ArrayBufferView) {
+    const peer = this.peer;
+    queueMicrotask(() => {
+      if (peer?.readyState === 1) peer.emit("message", data);
+    });
+  }
+
+  close(code?: number, reason?: string | Buffer) {
+    if (this.readyState !== 1) return;
+    this.readyState = 3;
+    this.emit("close", code, reason);
+    this.peer?.close(code, reason);
+  }
+}
+
+// WebSocket client connecting to the transport registered for the host of the URL
+class LoopbackWebSocket extends LoopbackSocket {
+  constructor(url: string, options?: { headers?: Record<string, string> }) {
+    super();
+    const server = new LoopbackSocket();
+    this.peer = server;
+    server.peer = this;
+    const transport = hosts.get(new URL(url).host)!;
+    queueMicrotask(() => this.emit("open"));
+    void transport.handleWebSocket(server, new globalThis.Request(url.replace(/^ws/, "http"), options));
+  }
+}
+
+const ownerFetch = (request: globalThis.Request) => hosts.get(new URL(request.url).host)!.fetch(request);
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createProcess(
+  host: string,
+  leases: NodeRoomLeaseStore,
+  options: Partial<NodeRoomOwnershipOptions> = {}
+) {
+  const transport = createNodeRoomTransport(DemoServer, {
+    storage,
+    ownership: {
+      leases,
+      address: `http://${host}`,
+      processId: host,
+      fetch: ownerFetch,
+      WebSocket: LoopbackWebSocket,
+      ...options,
+    },
+  });
+  hosts.set(host, transport);
+  return transport;
+}
+
+function connect(transport: NodeRoomTransport, roomId = "demo") {
+  const client = new LoopbackSocket();
+  const server = new LoopbackSocket();
+  client.peer = server;
+  server.peer = client;
+  const messages: any[] = [];
+  client.on("message", (data: string) => messages.push(JSON.parse(data)));
+  void transport.handleWebSocket(server, new globalThis.Request(`http://a/parties/main/${roomId}`));
+  return { client, messages };
+}
+
+let storage = createMemoryNodeRoomStorage();
+
+describe("Node room ownership", () => {
+  afterEach(async () => {
+    await Promise.all(Array.from(hosts.values()).map((transport) => transport.close()));
+    hosts.clear();
+    storage = createMemoryNodeRoomStorage();
+  });
+
+  it("forwards HTTP requests to the process holding the lease", async () => {
+    const leases = createMemoryNodeRoomLeaseStore();
+    const a = createProcess("a", leases);
+    const b = createProcess("b", leases);
+
+    const room = await a.getRoom("main", "demo");
+    const response = await b.fetch("http://b/parties/main/demo/count");
+
+    await expect(response.json()).resolves.toEqual({ count: 0 });
+    await expect(b.getRoom("main", "demo")).rejects.toThrow("owned by another process (http://a)");
+    expect(Array.from(room.getConnections())).toHaveLength(0);
+  });
+
+  it("proxies WebSocket connections to the owning process", async () => {
+    const leases = createMemoryNodeRoomLeaseStore();
+    const a = createProcess("a", leases);
+    const b = createProcess("b", leases);
+    const room = await a.getRoom("main", "demo");
+
+    const { client, messages } = connect(b);
+    await wait(10);
+    client.send(JSON.stringify({ action: "increment", value: {} }));
+    await wait(10);
+
+    expect(Array.from(room.getConnections())).toHaveLength(1);
+    expect(messages.filter((message) => message.type === "sync").at(-1).value).toEqual({ count: 1 });
+
+    client.close(1000);
+    await wait(10);
+    expect(Array.from(room.getConnections())).toHaveLength(0);
+  });
+
+  it("rejects the WebSocket connections accepted for a room of another process", async () => {
+    const leases = createMemoryNodeRoomLeaseStore();
+    const a = createProcess("a", leases);
+    const b = createProcess("b", leases);
+    await a.getRoom("main", "demo");
+    const server = new LoopbackSocket();
+    const closes: number[] = [];
+    server.on("close", (code: number) => closes.push(code));
+
+    await expect(b.acceptWebSocket(server, new globalThis.Request("http://b/parties/main/demo")))
+      .rejects.toThrow("owned by another process (http://a)");
+    expect(closes).toEqual([1011]);
+  });
+
+  it("rejects forwarded traffic when the owner does not hold the lease anymore", async () => {
+    const leases = createMemoryNodeRoomLeaseStore();
+    const a = createProcess("a", leases);
+    const response = await a.fetch("http://a/parties/main/demo/count", {
+      headers: { "x-signe-forwarded-by": "b" },
+    });
+    expect(response.status).toBe(200);
+
+    await a.close();
+    await leases.acquire("main:demo", "c", "http://c", 1000);
+    const stale = await a.fetch("http://a/parties/main/demo/count", {
+      headers: { "x-signe-forwarded-by": "b" },
+    });
+    expect(stale.status).toBe(503);
+  });
+
+  it("takes over a room when the lease of its owner expires", async () => {
+    const leases = createMemoryNodeRoomLeaseStore();
+    // The heartbeat of `a` never runs, as if the process was frozen
+    const a = createProcess("a", leases, { leaseTtlMs: 30, heartbeatIntervalMs: 60000 });
+    const b = createProcess("b", leases, { leaseTtlMs: 30 });
+    const room = await a.getRoom("main", "demo");
+    await room.storage.put("state:count", 5);
+
+    await expect(b.getRoom("main", "demo")).rejects.toThrow();
+    await wait(50);
+
+    const takenOver = await b.getRoom("main", "demo");
+    await expect(takenOver.storage.get("state:count")).resolves.toBe(5);
+    const response = await b.fetch("http://b/parties/main/demo/count");
+    await expect(response.json()).resolves.toEqual({ count: 5 });
+  });
+
+  it("evicts a room and closes its connections when the lease is lost", async () => {
+    const leases = createMemoryNodeRoomLeaseStore();
+    const a = createProcess("a", leases, { leaseTtlMs: 1000, heartbeatIntervalMs: 10 });
+    const b = createProcess("b", leases);
+    const { client } = connect(a);
+    const closes: number[] = [];
+    client.on("close", (code: number) => closes.push(code));
+    await wait(5);
+
+    await leases.release("main:demo", "a");
+    await b.getRoom("main", "demo");
+    await wait(30);
+
+    expect(closes).toEqual([1012]);
+    await expect(a.getRoom("main", "demo")).rejects.toThrow("owned by another process (http://b)");
+  });
+
+  it("writes the changes held by throttleStorage before the lease it cannot renew ends", async () => {
+    const leases = createMemoryNodeRoomLeaseStore();
+    const unreachable: NodeRoomLeaseStore = {
+      acquire: (...args) => leases.acquire(...args),
+      renew: async () => {
+        throw new Error("Lease store unreachable");
+      },
+      release: (...args) => leases.release(...args),
+    };
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const a = createProcess("a", unreachable, { leaseTtlMs: 90, heartbeatIntervalMs: 10 });
+    const b = createProcess("b", leases);
+    const { client } = connect(a, "throttled");
+    const closes: number[] = [];
+    client.on("close", (code: number) => closes.push(code));
+    await wait(5);
+    client.send(JSON.stringify({ action: "increment", value: {} }));
+    await wait(5);
+
+    // Evicted a third of the lease before its end, while `a` still holds it
+    await wait(70);
+    expect(closes).toEqual([1012]);
+    await expect(b.getRoom("main", "throttled")).rejects.toThrow("owned by another process (http://a)");
+
+    await wait(30);
+    const room = await b.getRoom("main", "throttled");
+    await expect(room.storage.get("state:count")).resolves.toBe(1);
+    error.mockRestore();
+  });
+
+  it("does not write to the storage once another process took the lease", async () => {
+    const leases = createMemoryNodeRoomLeaseStore();
+    const a = createProcess("a", leases, { leaseTtlMs: 1000, heartbeatIntervalMs: 10 });
+    const b = createProcess("b", leases);
+    const { client } = connect(a, "throttled");
+    const closes: number[] = [];
+    client.on("close", (code: number) => closes.push(code));
+    await wait(5);
+    client.send(JSON.stringify({ action: "increment", value: {} }));
+    await wait(5);
+
+    await leases.release("main:throttled", "a");
+    const room = await b.getRoom("main", "throttled");
+    await room.storage.put("state:count", 7);
+    const written = await room.storage.list();
+    await wait(30);
+
+    expect(closes).toEqual([1012]);
+    await expect(room.storage.list()).resolves.toEqual(written);
+    await expect(room.storage.get("state:count")).resolves.toBe(7);
+  });
+
+  it("releases the leases on close", async () => {
+    const leases = createMemoryNodeRoomLeaseStore();
+    const a = createProcess("a", leases);
+    const b = createProcess("b", leases);
+    const { client } = connect(a);
+    const closes: number[] = [];
+    client.on("close", (code: number) => closes.push(code));
+    await wait(5);
+
+    await a.close();
+
+    expect(closes).toEqual([1001]);
+    await expect(b.getRoom("main", "demo")).resolves.toBeDefined();
+  });
+
+  it("elects a single owner with the SQLite lease store", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "signe-leases-"));
+    try {
+      const databasePath = join(directory, "leases.sqlite");
+      const first = createSqliteNodeRoomLeaseStore({ databasePath });
+      const second = createSqliteNodeRoomLeaseStore({ databasePath });
+
+      await expect(first.acquire("main:demo", "a", "http://a", 1000)).resolves.toMatchObject({ owner: "a" });
+      await expect(second.acquire("main:demo", "b", "http://b", 1000)).resolves.toMatchObject({
+        owner: "a",
+        address: "http://a",
+      });
+      await expect(second.renew("main:demo", "b", 1000)).resolves.toBe(false);
+      await expect(first.renew("main:demo", "a", 1000)).resolves.toBe(true);
+
+      await second.release("main:demo", "b");
+      await expect(second.acquire("main:demo", "b", "http://b", 1000)).resolves.toMatchObject({ owner: "a" });
+      await first.release("main:demo", "a");
+      await expect(second.acquire("main:demo", "b", "http://b", 1000)).resolves.toMatchObject({ owner: "b" });
+
+      await expect(second.acquire("main:expired", "b", "http://b", -1)).resolves.toMatchObject({ owner: "b" });
+      await expect(first.acquire("main:expired", "a", "http://a", 1000)).resolves.toMatchObject({ owner: "a" });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Action, Room, Server } from "../../packages/room/src";
+import {
+  createNodeRoomTransport,
+  createRedisNodeRoomLeaseStore,
+  createRedisNodeRoomStorage,
+  createRespMemoryServer,
+  RedisReplyError,
+  RedisWatchError,
+  RespClient,
+  type NodeRoomStorage,
+  type RedisNodeRoomStorage,
+  type RespMemoryServer,
+} from "../../packages/room/src/node";
+import { sync } from "@signe/sync";
+import { signal } from "@signe/reactive";
+
+@Room({ path: "demo" })
+class DemoRoom {
+  @sync() count = signal(0);
+
+  @Action("increment")
+  increment() {
+    this.count.update((current) => current + 1);
+  }
+}
+
+class DemoServer extends Server {
+  rooms = [DemoRoom];
+}
+
+describe("Redis node room storage", () => {
+  let server: RespMemoryServer;
+  let url: string;
+  let provider: RedisNodeRoomStorage;
+  let storage: NodeRoomStorage;
+
+  beforeEach(async () => {
+    server = createRespMemoryServer();
+    ({ url } = await server.listen());
+    provider = createRedisNodeRoomStorage({ url });
+    storage = await provider.getStorage("main", "demo");
+  });
+
+  afterEach(async () => {
+    await provider.close();
+    await server.close();
+  });
+
+  it("gets, puts and deletes values", async () => {
+    await storage.put("value", { persisted: true });
+    await storage.put({ a: 1, b: "two" });
+
+    await expect(storage.get("value")).resolves.toEqual({ persisted: true });
+    await expect(storage.get("b")).resolves.toBe("two");
+    await expect(storage.get("missing")).resolves.toBeUndefined();
+
+    await expect(storage.delete("value")).resolves.toBe(true);
+    await expect(storage.delete("value")).resolves.toBe(false);
+    await expect(storage.delete(["a", "b", "missing"])).resolves.toBe(2);
+    await expect(storage.list()).resolves.toEqual(new Map());
+  });
+
+  it("lists keys with the same semantics as the SQLite provider", async () => {
+    await storage.put({
+      "state:a": 1,
+      "state:b": 2,
+      "state:c": 3,
+      "session:x": 4,
+      "z": 5,
+    });
+    const keys = async (options?: Parameters<NodeRoomStorage["list"]>[0]) =>
+      Array.from((await storage.list(options)).keys());
+
+    await expect(keys()).resolves.toEqual(["session:x", "state:a", "state:b", "state:c", "z"]);
+    await expect(keys({ prefix: "state:" })).resolves.toEqual(["state:a", "state:b", "state:c"]);
+    await expect(keys({ prefix: "state:", reverse: true, limit: 2 })).resolves.toEqual(["state:c", "state:b"]);
+    await expect(keys({ start: "state:b" })).resolves.toEqual(["state:b", "state:c", "z"]);
+    await expect(keys({ startAfter: "state:b" })).resolves.toEqual(["state:c", "z"]);
+    await expect(keys({ prefix: "state:", start: "state:b", end: "state:c" })).resolves.toEqual(["state:b"]);
+    await expect(keys({ end: "state:" })).resolves.toEqual(["session:x"]);
+    await expect(keys({ limit: 0 })).resolves.toEqual([]);
+    await expect(storage.list({ prefix: "state:", limit: 1 })).resolves.toEqual(new Map([["state:a", 1]]));
+  });
+
+  it("keeps rooms isolated", async () => {
+    const other = await provider.getStorage("main", "other");
+    await storage.put("value", 1);
+    await other.put("value", 2);
+
+    await expect(storage.get("value")).resolves.toBe(1);
+    await expect(other.get("value")).resolves.toBe(2);
+    await expect(other.list()).resolves.toEqual(new Map([["value", 2]]));
+  });
+
+  it("persists room state through the Node transport", async () => {
+    const transport = createNodeRoomTransport(DemoServer, { storage: provider });
+    const room = await transport.getRoom("main", "demo");
+
+    await room.storage.put("state:count", 3);
+    const restartedStorage = createRedisNodeRoomStorage({ url });
+    const restarted = createNodeRoomTransport(DemoServer, { storage: restartedStorage });
+    const restartedRoom = await restarted.getRoom("main", "demo");
+    await expect(restartedRoom.storage.get("state:count")).resolves.toBe(3);
+    await restartedStorage.close();
+  });
+
+  it("reports command errors", async () => {
+    const client = new RespClient({ url });
+    await client.command(["SET", "text", "value"]);
+
+    await expect(client.command(["HGET", "text", "field"])).rejects.toBeInstanceOf(RedisReplyError);
+    await expect(client.command(["UNKNOWN"])).rejects.toThrow("unknown command");
+    // The transaction is discarded when a command cannot be queued
+    await expect(client.transaction([["SET", "a", "1"], ["UNKNOWN"]])).rejects.toThrow("unknown command");
+    await expect(client.command(["GET", "a"])).resolves.toBeNull();
+    await client.close();
+  });
+
+  it("reconnects after the connection is lost", async () => {
+    await storage.put("value", 1);
+    await server.close();
+    await expect(storage.get("value")).rejects.toThrow();
+
+    server = createRespMemoryServer();
+    await server.listen(Number(new URL(url).port));
+    await storage.put("value", 2);
+    await expect(storage.get("value")).resolves.toBe(2);
+  });
+});
+
+describe("Redis node room lease store", () => {
+  let server: RespMemoryServer;
+  let url: string;
+
+  beforeEach(async () => {
+    server = createRespMemoryServer();
+    ({ url } = await server.listen());
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("elects a single owner", async () => {
+    const first = createRedisNodeRoomLeaseStore({ url });
+    const second = createRedisNodeRoomLeaseStore({ url });
+
+    await expect(first.acquire("main:demo", "a", "http://a", 1000)).resolves.toMatchObject({ owner: "a" });
+    await expect(second.acquire("main:demo", "b", "http://b", 1000)).resolves.toMatchObject({
+      owner: "a",
+      address: "http://a",
+    });
+    await expect(second.renew("main:demo", "b", 1000)).resolves.toBe(false);
+    await expect(first.renew("main:demo", "a", 1000)).resolves.toBe(true);
+
+    await second.release("main:demo", "b");
+    await expect(second.acquire("main:demo", "b", "http://b", 1000)).resolves.toMatchObject({ owner: "a" });
+    await first.release("main:demo", "a");
+    await expect(second.acquire("main:demo", "b", "http://b", 1000)).resolves.toMatchObject({ owner: "b" });
+
+    await expect(second.acquire("main:expired", "b", "http://b", -1)).resolves.toMatchObject({ owner: "b" });
+    await expect(first.acquire("main:expired", "a", "http://a", 1000)).resolves.toMatchObject({ owner: "a" });
+
+    await first.close();
+    await second.close();
+  });
+
+  it("gives a free room to one of the processes acquiring it at the same time", async () => {
+    const stores = ["a", "b", "c"].map(() => createRedisNodeRoomLeaseStore({ url }));
+
+    const leases = await Promise.all(
+      stores.map((store, index) => store.acquire("main:demo", `p${index}`, `http://p${index}`, 1000))
+    );
+
+    expect(new Set(leases.map((lease) => lease.owner)).size).toBe(1);
+    await Promise.all(stores.map((store) => store.close()));
+  });
+
+  it("aborts a transaction when a watched key changed", async () => {
+    const client = new RespClient({ url });
+    const other = new RespClient({ url });
+
+    await client.command(["WATCH", "lease"]);
+    await other.command(["SET", "lease", "other"]);
+    await expect(client.transaction([["SET", "lease", "mine"]])).rejects.toBeInstanceOf(RedisWatchError);
+    await expect(client.command(["GET", "lease"])).resolves.toBe("other");
+
+    await client.command(["WATCH", "lease"]);
+    await client.command(["UNWATCH"]);
+    await other.command(["SET", "lease", "again"]);
+    await expect(client.transaction([["SET", "lease", "mine"]])).resolves.toEqual(["OK"]);
+
+    await client.close();
+    await other.close();
+  });
+});
@@ -0,0 +1,164 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { signal, textSignal } from "@signe/reactive";
+import { bigintSyncType, dateSyncType, id, registerSyncType, sync, unregisterSyncType, users } from "@signe/sync";
+import { Room, testRoom, tick } from "../../packages/room/src";
+
+class Player {
+  @id() id: string;
+  @sync({
+    clientWritable: (user, path, value, player) => user === player && typeof value === "number",
+  })
+  x = signal(0);
+  @sync() gold = signal(10);
+}
+
+@Room({
+  path: "patch",
+})
+class PatchRoom {
+  @users(Player) users = signal({});
+  @sync({ clientWritable: (user, path, value) => typeof value === "string" && value.length <= 10 })
+  title = signal("");
+  @sync({ clientWritable: () => true })
+  notes = textSignal("", { replicaId: "server" });
+  @sync({ clientWritable: (user, path, value) => value instanceof Date })
+  deadline = signal(new Date(0));
+}
+
+describe("Client patches", () => {
+  let test: any;
+  let client: any;
+  let messages: any[];
+
+  beforeEach(async () => {
+    test = await testRoom(PatchRoom);
+    client = await test.createClient();
+    messages = [];
+    client.addEventListener("message", (data: string) => {
+      messages.push(JSON.parse(data));
+    });
+    await tick();
+  });
+
+  afterEach(() => {
+    client?.conn.close();
+  });
+
+  beforeAll(() => {
+    registerSyncType(dateSyncType);
+    registerSyncType(bigintSyncType);
+  });
+
+  afterAll(() => {
+    unregisterSyncType(dateSyncType.name);
+    unregisterSyncType(bigintSyncType.name);
+  });
+
+  it("should apply an authorized patch and sync it to every client", async () => {
+    const other = await test.createClient();
+    const otherSyncs: any[] = [];
+    other.addEventListener("message", (data: string) => {
+      const message = JSON.parse(data);
+      if (message.type === "sync") otherSyncs.push(message);
+    });
+    await tick();
+    messages.length = 0;
+
+    const player = await test.getServerUser(client);
+    await client.send({ type: "patch", path: `users.${player.id}.x`, value: 5, seq: 1 });
+
+    expect(player.x()).toBe(5);
+    expect(messages).toEqual([
+      { type: "sync", value: { users: { [player.id]: { x: 5 } } }, ack: 1, timestamp: expect.any(Number), version: expect.any(Number) },
+    ]);
+    expect(otherSyncs.map((message) => message.value)).toEqual([{ users: { [player.id]: { x: 5 } } }]);
+    other.conn.close();
+  });
+
+  it("should apply patches of the room properties", async () => {
+    await client.send({ type: "patch", path: "title", value: "Draft" });
+    expect(test.room.title()).toBe("Draft");
+  });
+
+  it("should decode the value before the predicate and load", async () => {
+    const deadline = new Date("2030-01-01T00:00:00.000Z");
+    await client.send({ type: "patch", path: "deadline", value: { $type: "date", $value: deadline.toISOString() } });
+
+    expect(test.room.deadline()).toBeInstanceOf(Date);
+    expect(test.room.deadline().getTime()).toBe(deadline.getTime());
+  });
+
+  it("should reject values that cannot be decoded", async () => {
+    await client.send({ type: "patch", path: "title", value: { $type: "bigint", $value: "nope" }, seq: 3 });
+
+    expect(test.room.title()).toBe("");
+    expect(messages[0]).toEqual({ type: "patch.rejected", value: { path: "title", seq: 3 } });
+  });
+
+  it("should reject patches the predicate refuses", async () => {
+    const other = await test.createClient();
+    await tick();
+    const otherPlayer = await test.getServerUser(other);
+    messages.length = 0;
+
+    await client.send({ type: "patch", path: `users.${otherPlayer.id}.x`, value: 5, seq: 2 });
+
+    expect(otherPlayer.x()).toBe(0);
+    expect(messages).toEqual([
+      { type: "patch.rejected", value: { path: `users.${otherPlayer.id}.x`, seq: 2 } },
+      { type: "sync", value: {}, ack: 2, timestamp: expect.any(Number), version: expect.any(Number) },
+    ]);
+    other.conn.close();
+  });
+
+  it("should reject patches of properties that are not client writable", async () => {
+    const player = await test.getServerUser(client);
+    messages.length = 0;
+
+    await client.send({ type: "patch", path: `users.${player.id}.gold`, value: 1000 });
+    await client.send({ type: "patch", path: "title", value: "A title far too long" });
+
+    expect(player.gold()).toBe(10);
+    expect(test.room.title()).toBe("");
+    expect(messages.map((message) => message.type)).toEqual(["patch.rejected", "patch.rejected"]);
+  });
+
+  it("should reject paths reaching the prototypes", async () => {
+    await client.send({ type: "patch", path: "title.__proto__.polluted", value: "yes" });
+    expect(({} as any).polluted).toBeUndefined();
+    expect(messages.at(-1)).toMatchObject({ type: "patch.rejected" });
+  });
+
+  it("should reject paths going below a primitive value", async () => {
+    await client.send({ type: "patch", path: "title.foo.bar", value: "x" });
+    await client.send({ type: "patch", path: "title.foo", value: "x" });
+
+    expect(test.room.title()).toBe("");
+    expect(messages.map((message) => message.type)).toEqual(["patch.rejected", "patch.rejected"]);
+  });
+
+  it("should merge the CRDT entries patched by the clients", async () => {
+    const alice = textSignal("", { replicaId: "alice" });
+    const bob = textSignal("", { replicaId: "bob" });
+    alice.set("Hi");
+    bob.set("Yo");
+    messages.length = 0;
+
+    await client.send({ type: "patch", path: "notes", value: alice.getState() });
+    await client.send({ type: "patch", path: "notes", value: bob.getState() });
+
+    expect(test.room.notes()).toBe("YoHi");
+    // Only the entries are synced, the text is merged by each client
+    const synced = textSignal();
+    for (const message of messages) {
+      expect(Object.keys(message.value.notes).every((id) => /@(alice|bob)$/.test(id))).toBe(true);
+      synced.merge(message.value.notes);
+    }
+    expect(synced()).toBe("YoHi");
+
+    // New clients receive every entry
+    const replica = textSignal();
+    replica.merge(test.room.$memoryAll.notes);
+    expect(replica()).toBe("YoHi");
+  });
+});
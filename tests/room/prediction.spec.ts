@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { signal } from "@signe/reactive";
+import { id, sync, users } from "@signe/sync";
+import { Action, Guard, Room, testRoom, tick } from "../../packages/room/src";
+
+class Player {
+  @id() id: string;
+  @sync() x = signal(0);
+}
+
+@Room({
+  path: "prediction",
+})
+class PredictionRoom {
+  @users(Player) users = signal({});
+
+  @Action("move")
+  move(player: Player, { dx }: { dx: number }) {
+    player.x.update((x) => x + dx);
+  }
+
+  @sync() count = signal(0);
+  gate: Promise<void> = Promise.resolve();
+
+  @Action("slowMove")
+  async slowMove(player: Player, { dx }: { dx: number }) {
+    await this.gate;
+    player.x.update((x) => x + dx);
+  }
+
+  @Action("noop")
+  noop() {}
+
+  @Action("forbidden")
+  @Guard([() => false])
+  forbidden(player: Player) {
+    player.x.set(1000);
+  }
+}
+
+describe("Prediction acknowledgements", () => {
+  let test: any;
+  let client: any;
+  let syncs: any[];
+
+  beforeEach(async () => {
+    test = await testRoom(PredictionRoom);
+    client = await test.createClient();
+    syncs = [];
+    client.addEventListener("message", (data: string) => {
+      const message = JSON.parse(data);
+      if (message.type === "sync") syncs.push(message);
+    });
+    await tick();
+  });
+
+  afterEach(() => {
+    client?.conn.close();
+  });
+
+  it("should acknowledge the sequence number in the sync packet of the action", async () => {
+    const player = await test.getServerUser(client);
+    await client.send({ action: "move", value: { dx: 2 }, seq: 1 });
+
+    expect(syncs).toEqual([
+      { type: "sync", value: { users: { [player.id]: { x: 2 } } }, ack: 1, timestamp: expect.any(Number), version: expect.any(Number) },
+    ]);
+  });
+
+  it("should send an empty sync packet when the action changes nothing", async () => {
+    await client.send({ action: "noop", value: {}, seq: 3 });
+    expect(syncs).toEqual([{ type: "sync", value: {}, ack: 3, timestamp: expect.any(Number), version: expect.any(Number) }]);
+  });
+
+  it("should acknowledge rejected actions", async () => {
+    await client.send({ action: "forbidden", value: {}, seq: 4 });
+    expect(syncs).toEqual([{ type: "sync", value: {}, ack: 4, timestamp: expect.any(Number), version: expect.any(Number) }]);
+  });
+
+  it("should not add acknowledgements to other packets", async () => {
+    const other = await test.createClient();
+    const otherSyncs: any[] = [];
+    other.addEventListener("message", (data: string) => {
+      const message = JSON.parse(data);
+      if (message.type === "sync") otherSyncs.push(message);
+    });
+    await tick();
+    syncs.length = 0;
+    otherSyncs.length = 0;
+    await client.send({ action: "move", value: { dx: 1 }, seq: 1 });
+    await client.send({ action: "move", value: { dx: 1 } });
+
+    expect(otherSyncs.every((message) => message.ack === undefined)).toBe(true);
+    expect(syncs.map((message) => message.ack)).toEqual([1, undefined]);
+    other.conn.close();
+  });
+
+  it("should acknowledge an async action with the packet of its changes, after it is processed", async () => {
+    const player = await test.getServerUser(client);
+    const other = await test.createClient();
+    const otherSyncs: any[] = [];
+    other.addEventListener("message", (data: string) => {
+      const message = JSON.parse(data);
+      if (message.type === "sync") otherSyncs.push(message);
+    });
+    await tick();
+    syncs.length = 0;
+    let open!: () => void;
+    test.room.gate = new Promise<void>((resolve) => (open = resolve));
+
+    const sending = client.send({ action: "slowMove", value: { dx: 2 }, seq: 1 });
+    await tick();
+    // Changed by the room while the action is processed: only the sender is held
+    test.room.count.set(5);
+    await tick();
+    expect(syncs).toEqual([]);
+    expect(otherSyncs.map((message) => message.value)).toEqual([{ count: 5 }]);
+
+    open();
+    await sending;
+    expect(syncs).toEqual([
+      {
+        type: "sync",
+        value: { count: 5, users: { [player.id]: { x: 2 } } },
+        ack: 1,
+        // Several versions are merged into the packet
+        from: expect.any(Number),
+        timestamp: expect.any(Number),
+        version: expect.any(Number),
+      },
+    ]);
+    other.conn.close();
+  });
+
+  it("should not acknowledge an action before the actions received earlier are processed", async () => {
+    const player = await test.getServerUser(client);
+    let open!: () => void;
+    test.room.gate = new Promise<void>((resolve) => (open = resolve));
+
+    const slow = client.send({ action: "slowMove", value: { dx: 2 }, seq: 1 });
+    await tick();
+    await client.send({ action: "move", value: { dx: 1 }, seq: 2 });
+    expect(syncs.every((message) => message.ack === undefined)).toBe(true);
+
+    open();
+    await slow;
+    expect(syncs.map((message) => message.ack).filter((ack) => ack !== undefined)).toEqual([2]);
+    expect(player.x()).toBe(3);
+  });
+});
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { signal } from "@signe/reactive";
+import { sync } from "@signe/sync";
+import { mergeSyncPackets, Room, SyncLog, testRoom, tick } from "../../packages/room/src";
+
+describe("SyncLog", () => {
+  it("should merge the packets recorded after a version", () => {
+    const log = new SyncLog(10);
+    log.record({ count: 1, users: { a: { x: 1, y: 1 } } });
+    log.record({ users: { a: { x: 2 }, b: { x: 0 } } });
+    log.record({ users: { b: "$delete" } });
+
+    expect(log.version).toBe(3);
+    expect(log.since(0)).toEqual({ count: 1, users: { a: { x: 2, y: 1 }, b: "$delete" } });
+    expect(log.since(2)).toEqual({ users: { b: "$delete" } });
+    expect(log.since(3)).toEqual({});
+  });
+
+  it("should not be changed by the merges nor by the recorded values", () => {
+    const log = new SyncLog(10);
+    const packet = { users: { a: { x: 1 } } };
+    log.record(packet);
+    packet.users.a.x = 5;
+    log.record({ users: { a: { y: 2 } } });
+
+    log.since(0);
+    expect(log.since(0)).toEqual({ users: { a: { x: 1, y: 2 } } });
+  });
+
+  it("should not merge an object set after its deletion", () => {
+    const log = new SyncLog(10);
+    log.record({ users: { a: { x: 1, y: 1 } } });
+    log.record({ users: { a: "$delete" } });
+    log.record({ users: { a: { x: 1 } } });
+
+    expect(mergeSyncPackets({ users: { a: "$delete" } }, { users: { a: { x: 1 } } })).toBeNull();
+    // The client falls back to a full resync
+    expect(log.since(1)).toBeNull();
+    expect(log.since(2)).toEqual({ users: { a: { x: 1 } } });
+  });
+
+  it("should return null for versions no longer retained", () => {
+    const log = new SyncLog(2);
+    log.record({ count: 1 });
+    log.record({ count: 2 });
+    log.record({ count: 3 });
+
+    expect(log.since(0)).toBeNull();
+    expect(log.since(1)).toEqual({ count: 3 });
+    // Versions of a previous instance of the room
+    expect(log.since(10)).toBeNull();
+  });
+});
+
+@Room({
+  path: "resync",
+  resyncBuffer: 2,
+})
+class ResyncRoom {
+  @sync() count = signal(0);
+  @sync() title = signal("");
+  @sync() scores = signal(new Map([["alice", 1], ["bob", 2]]));
+}
+
+describe("Resync", () => {
+  let test: any;
+  let client: any;
+  let syncs: any[];
+
+  beforeEach(async () => {
+    test = await testRoom(ResyncRoom);
+    client = await test.createClient();
+    syncs = [];
+    client.addEventListener("message", (data: string) => {
+      const message = JSON.parse(data);
+      if (message.type === "sync") syncs.push(message);
+    });
+    await tick();
+  });
+
+  afterEach(() => {
+    client?.conn.close();
+  });
+
+  it("should send the version of the room with each sync packet", async () => {
+    const start = test.room.$syncLog.version;
+    test.room.count.set(1);
+    test.room.count.set(2);
+    await tick();
+
+    expect(syncs.map((message) => message.version)).toEqual([start + 1, start + 2]);
+    expect(syncs.every((message) => message.from === undefined)).toBe(true);
+  });
+
+  it("should answer with the changes missed since a version", async () => {
+    const since = test.room.$syncLog.version;
+    test.room.count.set(1);
+    test.room.title.set("Arena");
+    await tick();
+    syncs.length = 0;
+
+    await client.send({ type: "resync", since });
+
+    expect(syncs).toEqual([
+      {
+        type: "sync",
+        value: { count: 1, title: "Arena" },
+        from: since,
+        version: since + 2,
+        timestamp: expect.any(Number),
+      },
+    ]);
+  });
+
+  it("should answer with the whole state when the changes are no longer buffered", async () => {
+    const since = test.room.$syncLog.version;
+    test.room.count.set(1);
+    test.room.count.set(2);
+    test.room.title.set("Arena");
+    await tick();
+    syncs.length = 0;
+
+    await client.send({ type: "resync", since });
+
+    expect(syncs).toHaveLength(1);
+    expect(syncs[0]).toMatchObject({ value: { count: 2, title: "Arena" }, from: since, full: true });
+  });
+
+  it("should leave the entries deleted outside of the buffer out of the whole state", async () => {
+    const since = test.room.$syncLog.version;
+    test.room.scores().delete("bob");
+    test.room.count.set(1);
+    test.room.count.set(2);
+    await tick();
+    syncs.length = 0;
+
+    await client.send({ type: "resync", since });
+
+    expect(syncs[0].full).toBe(true);
+    expect(syncs[0].value.scores).toEqual({ alice: 1 });
+  });
+});
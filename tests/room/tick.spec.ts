@@ -0,0 +1,259 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { signal } from "@signe/reactive";
+import { sync } from "@signe/sync";
+import { Room, Tick, TickLoop, testRoom, tick } from "../../packages/room/src";
+
+describe("TickLoop", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should call the handler at a fixed rate with (dt, tick)", () => {
+    const calls: [number, number][] = [];
+    const loop = new TickLoop(10, (dt, n) => {
+      calls.push([dt, n]);
+    });
+    loop.start();
+    vi.advanceTimersByTime(350);
+    expect(calls).toEqual([[100, 1], [100, 2], [100, 3]]);
+    loop.stop();
+    vi.advanceTimersByTime(1000);
+    expect(calls).toHaveLength(3);
+  });
+
+  it("should not accumulate drift when a step is late", () => {
+    const ticks: number[] = [];
+    const loop = new TickLoop(10, () => {
+      ticks.push(Date.now());
+      if (ticks.length === 1) {
+        // The first step takes 30ms
+        vi.setSystemTime(Date.now() + 30);
+      }
+    });
+    const startedAt = Date.now();
+    loop.start();
+    vi.advanceTimersByTime(100);
+    vi.advanceTimersByTime(100);
+    vi.advanceTimersByTime(100);
+    loop.stop();
+    expect(ticks.map((time) => time - startedAt)).toEqual([100, 200, 300]);
+  });
+
+  it("should catch up a limited number of steps after a stall", () => {
+    let count = 0;
+    const loop = new TickLoop(100, () => {
+      count++;
+    });
+    loop.start();
+    vi.setSystemTime(Date.now() + 1000);
+    vi.advanceTimersByTime(10);
+    loop.stop();
+    expect(count).toBe(5);
+  });
+
+  it("should keep running when the handler throws", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    let count = 0;
+    const loop = new TickLoop(10, () => {
+      count++;
+      throw new Error("boom");
+    });
+    loop.start();
+    vi.advanceTimersByTime(200);
+    loop.stop();
+    expect(count).toBe(2);
+    expect(error).toHaveBeenCalledTimes(2);
+    error.mockRestore();
+  });
+
+  it("should skip the steps while an async step is pending", async () => {
+    const steps: number[] = [];
+    const resolvers: (() => void)[] = [];
+    const loop = new TickLoop(10, (dt, n) => {
+      steps.push(n);
+      return new Promise<void>((resolve) => resolvers.push(resolve));
+    });
+    loop.start();
+    vi.advanceTimersByTime(350);
+    // A stall does not run the late steps on top of the pending one either
+    vi.setSystemTime(Date.now() + 1000);
+    vi.advanceTimersByTime(10);
+    expect(steps).toEqual([1]);
+
+    resolvers[0]();
+    await vi.advanceTimersByTimeAsync(100);
+    loop.stop();
+    expect(steps).toEqual([1, 2]);
+  });
+
+  it("should reject a non-positive frequency", () => {
+    expect(() => new TickLoop(0, () => {})).toThrow();
+  });
+});
+
+@Room({
+  path: "simulation",
+})
+class SimulationRoom {
+  @sync() x = signal(0);
+  @sync() y = signal(0);
+  steps: number[] = [];
+
+  @Tick(100)
+  update(dt: number, n: number) {
+    this.steps.push(n);
+    this.x.update((x) => x + 1);
+    this.y.update((y) => y + 1);
+  }
+}
+
+@Room({
+  path: "async-simulation",
+})
+class AsyncSimulationRoom {
+  @sync() x = signal(0);
+  @sync() y = signal(0);
+
+  @Tick(50)
+  async update() {
+    this.x.update((x) => x + 1);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    this.y.update((y) => y + 1);
+  }
+}
+
+describe("@Tick()", () => {
+  let test: any;
+  let room: any;
+
+  beforeEach(async () => {
+    test = await testRoom(SimulationRoom);
+    room = test.room;
+  });
+
+  afterEach(() => {
+    room.$tickLoops.forEach((loop: TickLoop) => loop.stop());
+  });
+
+  it("should only run while the room has connections", async () => {
+    await tick(30);
+    expect(room.steps).toHaveLength(0);
+
+    const client = await test.createClient();
+    await tick(50);
+    expect(room.steps.length).toBeGreaterThan(0);
+    expect(room.steps.slice(0, 3)).toEqual([1, 2, 3]);
+
+    client.conn.close();
+    await tick();
+    const count = room.steps.length;
+    await tick(50);
+    expect(room.steps).toHaveLength(count);
+
+    await test.createClient();
+    await tick(50);
+    expect(room.steps.length).toBeGreaterThan(count);
+  });
+
+  it("should send the changes of a step in a single sync packet", async () => {
+    const client = await test.createClient();
+    const syncs: any[] = [];
+    client.addEventListener("message", (data: string) => {
+      const message = JSON.parse(data);
+      if (message.type === "sync") syncs.push(message.value);
+    });
+    await tick(50);
+    expect(syncs.length).toBeGreaterThan(0);
+    for (const value of syncs) {
+      expect(value).toEqual({ x: value.x, y: value.y });
+      expect(value.x).toBe(value.y);
+    }
+  });
+
+  it("should send the changes made after an await in the same packet", async () => {
+    const client = await test.createClient();
+    room.$tickLoops.forEach((loop: TickLoop) => loop.stop());
+    await tick();
+    const syncs: any[] = [];
+    client.addEventListener("message", (data: string) => {
+      const message = JSON.parse(data);
+      if (message.type === "sync") syncs.push(message.value);
+    });
+
+    const result = room.$batchSync(async () => {
+      room.x.set(10);
+      await tick();
+      room.y.set(20);
+      return "done";
+    });
+    await expect(result).resolves.toBe("done");
+    await tick();
+
+    expect(syncs).toEqual([{ x: 10, y: 20 }]);
+  });
+
+  it("should send the changes of overlapping batches when the last one ends", async () => {
+    const client = await test.createClient();
+    room.$tickLoops.forEach((loop: TickLoop) => loop.stop());
+    await tick();
+    const syncs: any[] = [];
+    client.addEventListener("message", (data: string) => {
+      const message = JSON.parse(data);
+      if (message.type === "sync") syncs.push(message.value);
+    });
+
+    const first = room.$batchSync(async () => {
+      room.x.set(1);
+      await tick();
+    });
+    const second = room.$batchSync(async () => {
+      await tick(5);
+      room.y.set(2);
+      await tick(5);
+    });
+    await first;
+    await tick(7);
+    expect(syncs).toEqual([]);
+
+    await second;
+    await tick();
+    expect(syncs).toEqual([{ x: 1, y: 2 }]);
+  });
+
+  it("should end the batch when an async step fails", async () => {
+    await expect(
+      room.$batchSync(async () => {
+        room.x.set(5);
+        await tick();
+        throw new Error("step failed");
+      })
+    ).rejects.toThrow("step failed");
+
+    room.y.set(7);
+    expect(room.$pendingSync.size).toBe(0);
+  });
+});
+
+describe("async @Tick()", () => {
+  it("should send the changes of an async step in a single sync packet", async () => {
+    const test = await testRoom(AsyncSimulationRoom);
+    const client = await test.createClient();
+    const syncs: any[] = [];
+    client.addEventListener("message", (data: string) => {
+      const message = JSON.parse(data);
+      if (message.type === "sync") syncs.push(message.value);
+    });
+    await tick(80);
+    test.room.$tickLoops.forEach((loop: TickLoop) => loop.stop());
+    await tick(20);
+
+    expect(syncs.length).toBeGreaterThan(0);
+    for (const value of syncs) {
+      expect(value).toEqual({ x: value.x, y: value.x });
+    }
+  });
+});
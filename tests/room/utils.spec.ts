@@ -109,6 +109,24 @@ describe("throttle", () => {
     expect(func).toHaveBeenCalledTimes(1);
     vi.useRealTimers();
   });
+
+  it("should call the function with the pending arguments when flushed", () => {
+    vi.useFakeTimers();
+    const func = vi.fn();
+    const throttledFunc = throttle(func, 100);
+
+    throttledFunc("first");
+    throttledFunc("second");
+    throttledFunc.flush();
+
+    expect(func).toHaveBeenLastCalledWith("second");
+    expect(func).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(100);
+    throttledFunc.flush();
+    expect(func).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
 });
 
 describe("dremove", () => {
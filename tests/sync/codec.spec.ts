@@ -0,0 +1,173 @@
+import { signal } from "@signe/reactive";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  bigintSyncType,
+  createStatesSnapshot,
+  createStatesSnapshotDeep,
+  dateSyncType,
+  decodeSyncValue,
+  encodeSyncValue,
+  load,
+  mapSyncType,
+  registerSyncType,
+  sync,
+  syncClass,
+  unregisterSyncType,
+} from "../../packages/sync/src";
+
+class Vector2 {
+  constructor(public x = 0, public y = 0) {}
+}
+
+const vector2SyncType = {
+  name: "vector2",
+  test: (value: any) => value instanceof Vector2,
+  encode: (value: Vector2) => [value.x, value.y],
+  decode: ([x, y]: number[]) => new Vector2(x, y),
+};
+
+const date = new Date("2024-05-01T10:00:00.000Z");
+const encodedDate = { $type: "date", $value: "2024-05-01T10:00:00.000Z" };
+
+describe("sync types", () => {
+  beforeEach(() => {
+    registerSyncType(dateSyncType);
+    registerSyncType(bigintSyncType);
+    registerSyncType(mapSyncType);
+    registerSyncType(vector2SyncType);
+  });
+
+  afterEach(() => {
+    for (const name of ["date", "bigint", "map", "vector2"]) {
+      unregisterSyncType(name);
+    }
+  });
+
+  describe("encodeSyncValue / decodeSyncValue", () => {
+    it("should round-trip nested values through JSON", () => {
+      const value = {
+        at: date,
+        score: 12345678901234567890n,
+        inventory: new Map([["sword", { since: date }]]),
+        path: [new Vector2(1, 2)],
+        name: "hero",
+      };
+
+      const encoded = encodeSyncValue(value);
+      expect(encoded.at).toEqual(encodedDate);
+      expect(encoded.score).toEqual({ $type: "bigint", $value: "12345678901234567890" });
+      expect(encoded.inventory).toEqual({
+        $type: "map",
+        $value: [["sword", { since: encodedDate }]],
+      });
+
+      const decoded = decodeSyncValue(JSON.parse(JSON.stringify(encoded)));
+      expect(decoded).toEqual(value);
+      expect(decoded.path[0]).toBeInstanceOf(Vector2);
+    });
+
+    it("should not copy values without registered types", () => {
+      const value = { a: { b: [1, 2] } };
+      expect(encodeSyncValue(value)).toBe(value);
+      expect(decodeSyncValue(value)).toBe(value);
+    });
+
+    it("should keep the tagged encoding of unknown types", () => {
+      const value = { $type: "unknown", $value: 1 };
+      expect(decodeSyncValue(value)).toBe(value);
+    });
+  });
+
+  describe("syncClass", () => {
+    it("should sync and persist tagged values", () => {
+      class TestClass {
+        @sync() createdAt = signal(date);
+        @sync() score = signal(1n);
+        @sync() position = signal(new Vector2(1, 2));
+        @sync() profile = signal<any>({ name: "hero" });
+      }
+
+      const instance = new TestClass();
+      const onSync = vi.fn();
+      const onPersist = vi.fn();
+      syncClass(instance, { onSync, onPersist });
+
+      let synced = onSync.mock.lastCall[0];
+      expect(synced.get("createdAt")).toEqual(encodedDate);
+      expect(synced.get("score")).toEqual({ $type: "bigint", $value: "1" });
+      expect(synced.get("position")).toEqual({ $type: "vector2", $value: [1, 2] });
+
+      instance.position.set(new Vector2(3, 4));
+      instance.profile().lastSeen = date;
+
+      synced = onSync.mock.lastCall[0];
+      expect(synced.get("position")).toEqual({ $type: "vector2", $value: [3, 4] });
+      expect(synced.get("profile.lastSeen")).toEqual(encodedDate);
+      expect(onPersist.mock.lastCall[0].get("profile.lastSeen")).toEqual(encodedDate);
+      expect(() => JSON.stringify(Object.fromEntries(synced))).not.toThrow();
+    });
+  });
+
+  describe("snapshots", () => {
+    it("should include tagged values in the snapshots", () => {
+      class TestClass {
+        @sync() createdAt = signal(date);
+        @sync() position = signal(new Vector2(1, 2));
+        @sync() profile = signal<any>({ lastSeen: date });
+      }
+
+      const instance = new TestClass();
+      syncClass(instance);
+
+      expect(createStatesSnapshot(instance)).toEqual({
+        createdAt: encodedDate,
+        position: { $type: "vector2", $value: [1, 2] },
+      });
+      expect(createStatesSnapshotDeep(instance)).toEqual({
+        createdAt: encodedDate,
+        position: { $type: "vector2", $value: [1, 2] },
+        profile: { lastSeen: encodedDate },
+      });
+    });
+  });
+
+  describe("load", () => {
+    class TestClass {
+      @sync() createdAt = signal<Date | null>(null);
+      @sync() position = signal(new Vector2());
+      @sync() meta = signal<any>(null);
+    }
+
+    it("should decode values loaded from an object", () => {
+      const source = new TestClass();
+      syncClass(source);
+      source.createdAt.set(date);
+      source.position.set(new Vector2(5, 6));
+
+      const instance = new TestClass();
+      const snapshot = JSON.parse(JSON.stringify(createStatesSnapshotDeep(source)));
+      load(instance, snapshot, true);
+
+      expect(instance.createdAt()).toEqual(date);
+      expect(instance.position()).toBeInstanceOf(Vector2);
+      expect(instance.position()).toEqual(new Vector2(5, 6));
+    });
+
+    it("should decode values loaded by paths", () => {
+      const instance = new TestClass();
+      load(instance, {
+        createdAt: encodedDate,
+        meta: {
+          lastSeen: encodedDate,
+          inventory: { $type: "map", $value: [["sword", 1]] },
+        },
+      });
+
+      expect(instance.createdAt()).toEqual(date);
+      expect(instance.meta()).toEqual({
+        lastSeen: date,
+        inventory: new Map([["sword", 1]]),
+      });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { signal } from "@signe/reactive";
+import {
+  id,
+  interpolated,
+  load,
+  resetSyncClock,
+  runWithSyncTime,
+  sync,
+  SyncClock,
+} from "../../packages/sync/src";
+
+class Player {
+  @id() id = signal("");
+  @sync({ interpolate: "linear" }) x = signal(0);
+  @sync({ interpolate: { mode: "angle", period: 360, delay: 0 } }) direction = signal(0);
+  @sync() name = signal("");
+}
+
+class Game {
+  @sync(Player) players = signal<Record<string, Player>>({});
+}
+
+describe("Interpolation", () => {
+  let game: Game;
+
+  // Loads a sync packet received at local time `receivedAt` (server and local clocks are equal)
+  const receive = (timestamp: number, value: object, receivedAt = timestamp) => {
+    vi.setSystemTime(receivedAt);
+    runWithSyncTime(timestamp, () => load(game, value, true));
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    resetSyncClock();
+    game = new Game();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should interpolate between the values received around now - delay", () => {
+    receive(1000, { players: { a: { x: 0 } } });
+    receive(1100, { players: { a: { x: 10 } } });
+    receive(1200, { players: { a: { x: 30 } } });
+    const player = game.players().a;
+
+    expect(player.x()).toBe(30);
+    expect(interpolated(player.x, 1150)).toBe(5);
+    expect(interpolated(player.x, 1250)).toBe(20);
+    // No extrapolation
+    expect(interpolated(player.x, 1000)).toBe(0);
+    expect(interpolated(player.x, 2000)).toBe(30);
+  });
+
+  it("should interpolate angles along the shortest arc", () => {
+    receive(1000, { players: { a: { direction: 350 } } });
+    receive(1100, { players: { a: { direction: 10 } } });
+    expect(interpolated(game.players().a.direction, 1050)).toBe(360);
+  });
+
+  it("should compensate the offset between the server clock and the local clock", () => {
+    receive(1000, { players: { a: { x: 0 } } }, 5000);
+    receive(1100, { players: { a: { x: 10 } } }, 5100);
+    expect(interpolated(game.players().a.x, 5150)).toBe(5);
+  });
+
+  it("should keep the clock offset of each server apart", () => {
+    const other = new Game();
+    const clock = new SyncClock();
+    const otherClock = new SyncClock();
+    const receiveFrom = (target: Game, targetClock: SyncClock, timestamp: number, value: object, receivedAt: number) => {
+      vi.setSystemTime(receivedAt);
+      runWithSyncTime(timestamp, () => load(target, value, true), targetClock);
+    };
+
+    receiveFrom(game, clock, 1000, { players: { a: { x: 0 } } }, 1000);
+    receiveFrom(other, otherClock, 9000, { players: { a: { x: 0 } } }, 1000);
+    receiveFrom(game, clock, 1100, { players: { a: { x: 10 } } }, 1100);
+    receiveFrom(other, otherClock, 9100, { players: { a: { x: 20 } } }, 1100);
+
+    expect(clock.now(1150)).toBe(1150);
+    expect(otherClock.now(1150)).toBe(9150);
+    expect(interpolated(game.players().a.x, 1150)).toBe(5);
+    expect(interpolated(other.players().a.x, 1150)).toBe(10);
+  });
+
+  it("should return the current value of signals without interpolation", () => {
+    receive(1000, { players: { a: { name: "Alice" } } });
+    receive(1100, { players: { a: { name: "Bob" } } });
+    expect(interpolated(game.players().a.name, 1100)).toBe("Bob");
+  });
+
+  it("should snap to values loaded without a sync time", () => {
+    receive(1000, { players: { a: { x: 0 } } });
+    receive(1100, { players: { a: { x: 10 } } });
+    load(game, { players: { a: { x: 50 } } }, true);
+    expect(interpolated(game.players().a.x, 1150)).toBe(50);
+  });
+});
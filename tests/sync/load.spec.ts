@@ -1,6 +1,8 @@
-import { beforeEach, describe, expect, it } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
 import { signal, computed } from "../../packages/reactive/src";
 import { load, sync } from "../../packages/sync/src";
+import { jsonSchemaToZod } from "../../packages/schema-to-zod/src";
 
 describe("load function", () => {
   let testInstance: any;
@@ -74,6 +76,29 @@ describe("load function", () => {
     expect(testInstance.nested()["id"]).toBeUndefined();
   });
 
+  it("should load map and set signals", () => {
+    class Item {
+      name = signal("");
+    }
+    class TestClass {
+      scores = signal(new Map<string, number>());
+      tags = signal(new Set<string>(["admin"]));
+      @sync(Item) inventory = signal(new Map<string, Item>());
+    }
+    const instance = new TestClass();
+
+    load(instance, { "scores.alice": 3, "tags.moderator": "moderator", "tags.admin": "$delete" });
+    load(instance, { inventory: { i1: { name: "sword" } } }, true);
+
+    expect(instance.scores().get("alice")).toBe(3);
+    expect(Array.from(instance.tags())).toEqual(["moderator"]);
+    expect(instance.inventory().get("i1")).toBeInstanceOf(Item);
+    expect(instance.inventory().get("i1")!.name()).toBe("sword");
+
+    load(instance, { scores: { bob: 1 } });
+    expect(Array.from(instance.scores().entries())).toEqual([["bob", 1]]);
+  });
+
   it("should load nested GameObject in Scene", () => {
     class GameObject {
       position = {
@@ -603,4 +628,117 @@ describe("load function", () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe("schema validation", () => {
+    it("should write valid values and reject invalid ones", () => {
+      const onInvalid = vi.fn();
+      class TestClass {
+        @sync({ schema: z.number().int().min(0), onInvalid }) gold = signal(0);
+      }
+      const instance = new TestClass();
+
+      load(instance, { gold: 10 });
+      expect(instance.gold()).toBe(10);
+
+      load(instance, { gold: -5 });
+      load(instance, { gold: "lots" }, true);
+      expect(instance.gold()).toBe(10);
+      expect(onInvalid).toHaveBeenCalledTimes(2);
+      expect(onInvalid.mock.calls[0][0]).toMatchObject({
+        instance,
+        key: "gold",
+        path: "gold",
+        value: -5,
+      });
+      expect(onInvalid.mock.calls[0][0].error).toBeInstanceOf(z.ZodError);
+    });
+
+    it("should keep the other values of the same load", () => {
+      const onInvalid = vi.fn();
+      class TestClass {
+        @sync({ schema: z.string().max(5), onInvalid }) name = signal("");
+        @sync() level = signal(1);
+      }
+      const instance = new TestClass();
+
+      load(instance, { name: "far too long", level: 3 }, true);
+      expect(instance.name()).toBe("");
+      expect(instance.level()).toBe(3);
+    });
+
+    it("should validate the properties of instances in collections", () => {
+      const onInvalid = vi.fn();
+      class Player {
+        @sync({ schema: z.number().max(100), onInvalid }) hp = signal(0);
+      }
+      class TestClass {
+        @sync(Player) players = signal<Record<string, Player>>({});
+      }
+      const instance = new TestClass();
+
+      load(instance, { players: { p1: { hp: 50 } } }, true);
+      load(instance, { "players.p1.hp": 500 });
+      expect(instance.players().p1.hp()).toBe(50);
+      expect(onInvalid.mock.calls[0][0]).toMatchObject({ key: "hp", path: "players.p1.hp" });
+    });
+
+    it("should validate nested values against the whole property", () => {
+      const onInvalid = vi.fn();
+      class TestClass {
+        @sync({ schema: z.object({ hp: z.number() }), onInvalid }) stats = signal<any>({ hp: 1 });
+      }
+      const instance = new TestClass();
+
+      load(instance, { "stats.hp": "full" });
+      load(instance, { "stats.hp": "$delete" });
+      expect(instance.stats()).toEqual({ hp: 1 });
+      expect(onInvalid).toHaveBeenCalledTimes(2);
+    });
+
+    it("should use the value parsed by the schema", () => {
+      class TestClass {
+        @sync({ schema: z.coerce.number() }) speed = signal(0);
+      }
+      const instance = new TestClass();
+
+      load(instance, { speed: "4" });
+      expect(instance.speed()).toBe(4);
+    });
+
+    it("should warn when no onInvalid hook is given", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      class TestClass {
+        @sync({ schema: z.boolean() }) ready = signal(false);
+      }
+      const instance = new TestClass();
+
+      load(instance, { ready: "yes" });
+      expect(instance.ready()).toBe(false);
+      expect(warn).toHaveBeenCalledOnce();
+      warn.mockRestore();
+    });
+
+    it("should accept schemas derived from a JSON Schema document", () => {
+      const fields = jsonSchemaToZod({
+        type: "object",
+        properties: {
+          name: { type: "string", minLength: 3 },
+          age: { type: "integer", minimum: 0 },
+        },
+        required: ["name"],
+      });
+      const onInvalid = vi.fn();
+      class TestClass {
+        @sync({ schema: fields.name, onInvalid }) name = signal("");
+        @sync({ schema: fields.age, onInvalid }) age = signal(0);
+      }
+      const instance = new TestClass();
+
+      load(instance, { name: "Bo", age: 1.5 }, true);
+      load(instance, { name: "Alice", age: 30 }, true);
+      expect(onInvalid).toHaveBeenCalledTimes(2);
+      expect(instance.name()).toBe("Alice");
+      expect(instance.age()).toBe(30);
+    });
+  });
+});
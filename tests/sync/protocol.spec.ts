@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  BinarySyncDecoder,
+  BinarySyncEncoder,
+  decodeMessagePack,
+  encodeMessagePack,
+} from "../../packages/sync/src";
+
+describe("MessagePack codec", () => {
+  it("should round-trip the JSON data model", () => {
+    const value = {
+      nil: null,
+      yes: true,
+      no: false,
+      small: 7,
+      negative: -20,
+      int16: -3000,
+      uint32: 4000000000,
+      float: 1.5,
+      big: 2 ** 40,
+      text: "héllo",
+      long: "x".repeat(300),
+      list: [1, "two", { three: 3 }],
+      nested: { deep: { deeper: [] } },
+    };
+
+    expect(decodeMessagePack(encodeMessagePack(value))).toEqual(value);
+  });
+
+  it("should encode dates like JSON.stringify", () => {
+    const date = new Date("2024-01-01T00:00:00.000Z");
+    expect(decodeMessagePack(encodeMessagePack({ date }))).toEqual({ date: date.toISOString() });
+  });
+
+  it("should be smaller than JSON for numeric payloads", () => {
+    const value = { x: 120, y: 33, hp: 100, speed: 2.5 };
+    expect(encodeMessagePack(value).length).toBeLessThan(JSON.stringify(value).length);
+  });
+});
+
+describe("Binary sync frames", () => {
+  it("should decode a frame into the nested sync value", () => {
+    const encoder = new BinarySyncEncoder();
+    const decoder = new BinarySyncDecoder();
+
+    const packet = decoder.decode(
+      encoder.encode({
+        type: "sync",
+        value: { pId: "abc", users: { abc: { x: 10, name: "Alice", items: [1, 2], stats: {} } } },
+      })
+    );
+
+    expect(packet).toEqual({
+      type: "sync",
+      value: { pId: "abc", users: { abc: { x: 10, name: "Alice", items: [1, 2], stats: {} } } },
+    });
+  });
+
+  it("should send each path only once and integers as deltas", () => {
+    const encoder = new BinarySyncEncoder();
+    const decoder = new BinarySyncDecoder();
+
+    const first = encoder.encode({ type: "sync", value: { users: { abc: { x: 1000, y: 2000 } } } });
+    decoder.decode(first);
+
+    const second = encoder.encode({ type: "sync", value: { users: { abc: { x: 1001, y: 1999 } } } });
+    expect(second.length).toBeLessThan(first.length);
+    expect(new TextDecoder().decode(second)).not.toContain("users.abc.x");
+    expect(decoder.decode(second).value).toEqual({ users: { abc: { x: 1001, y: 1999 } } });
+  });
+
+  it("should keep extra packet fields", () => {
+    const encoder = new BinarySyncEncoder();
+    const decoder = new BinarySyncDecoder();
+
+    expect(decoder.decode(encoder.encode({ type: "sync", value: { count: 1 }, ack: 4 }))).toEqual({
+      type: "sync",
+      value: { count: 1 },
+      ack: 4,
+    });
+  });
+
+  it("should forward deletes and forget the deleted paths", () => {
+    const encoder = new BinarySyncEncoder();
+    const decoder = new BinarySyncDecoder();
+
+    decoder.decode(encoder.encode({ type: "sync", value: { users: { abc: { x: 5 } } } }));
+    expect(decoder.decode(encoder.encode({ type: "sync", value: { users: { abc: "$delete" } } })).value)
+      .toEqual({ users: { abc: "$delete" } });
+
+    // The entity comes back: its values are sent again, not as deltas of the deleted ones
+    expect(decoder.decode(encoder.encode({ type: "sync", value: { users: { abc: { x: 6 } } } })).value)
+      .toEqual({ users: { abc: { x: 6 } } });
+  });
+
+  it("should start a new dictionary when a new encoder is used for a reconnection", () => {
+    const decoder = new BinarySyncDecoder();
+    decoder.decode(new BinarySyncEncoder().encode({ type: "sync", value: { a: 1, b: 2 } }));
+
+    const encoder = new BinarySyncEncoder();
+    expect(decoder.decode(encoder.encode({ type: "sync", value: { b: 3 } })).value).toEqual({ b: 3 });
+    expect(decoder.decode(encoder.encode({ type: "sync", value: { b: 4 } })).value).toEqual({ b: 4 });
+  });
+});
@@ -0,0 +1,167 @@
+import { computed, signal } from "@signe/reactive";
+import { describe, expect, it } from "vitest";
+import {
+  connected,
+  createSyncJsonSchema,
+  createSyncTypeDeclarations,
+  id,
+  persist,
+  sync,
+  users,
+} from "../../packages/sync/src";
+import { jsonSchemaToZodSchema } from "../../packages/schema-to-zod/src";
+
+class Item {
+  @sync() name = signal("");
+  @sync() count = signal(1);
+}
+
+class Player {
+  @id() id = signal("");
+  @sync() name = signal("");
+  @sync() position = { x: signal(0), y: signal(0) };
+  @sync(Item) inventory = signal<Record<string, Item>>({});
+  @sync() tags = signal(new Set<string>());
+  @connected() isConnected = signal(false);
+  @persist() secret = signal("");
+}
+
+class GameRoom {
+  @users(Player) players = signal<Record<string, Player>>({});
+  @sync() round = signal(1);
+  @sync() log = signal<string[]>(["start"]);
+  @sync() label = computed(() => `Round ${this.round()}`);
+  @sync({ syncToClient: false }) seed = signal(42);
+}
+
+const playerSchema = {
+  title: "Player",
+  type: "object",
+  properties: {
+    id: { type: "string", readOnly: true },
+    name: { type: "string" },
+    position: {
+      type: "object",
+      properties: { x: { type: "number" }, y: { type: "number" } },
+      required: ["x", "y"],
+    },
+    inventory: {
+      type: "object",
+      additionalProperties: {
+        title: "Item",
+        type: "object",
+        properties: { name: { type: "string" }, count: { type: "number" } },
+        required: ["name", "count"],
+      },
+    },
+    tags: { type: "object", additionalProperties: {} },
+    isConnected: { type: "boolean" },
+  },
+  required: ["id", "name", "position", "inventory", "tags", "isConnected"],
+};
+
+describe("createSyncJsonSchema", () => {
+  it("should describe the client-visible state of a room", () => {
+    expect(createSyncJsonSchema(GameRoom)).toEqual({
+      title: "GameRoom",
+      type: "object",
+      properties: {
+        players: { type: "object", additionalProperties: playerSchema },
+        round: { type: "number" },
+        log: { type: "array", items: { type: "string" } },
+        label: { type: "string", readOnly: true },
+      },
+      required: ["players", "round", "log", "label"],
+    });
+  });
+
+  it("should describe the sync packets in partial mode", () => {
+    const schema = createSyncJsonSchema(GameRoom, { partial: true });
+
+    expect(schema.required).toBeUndefined();
+    expect(schema.properties!.players.additionalProperties!.anyOf![1]).toEqual({ const: "$delete" });
+    expect(schema.properties!.log.anyOf).toHaveLength(2);
+  });
+
+  it("should not expand recursive classes again", () => {
+    class Node {
+      @sync() value = signal(0);
+      @sync(Node) children = signal({});
+    }
+
+    expect(createSyncJsonSchema(Node).properties!.children).toEqual({
+      type: "object",
+      additionalProperties: {},
+    });
+  });
+
+  it("should accept an instance when the class needs arguments", () => {
+    class Room {
+      @sync() speed = signal(0);
+      constructor(config: { speed: number }) {
+        this.speed.set(config.speed);
+      }
+    }
+
+    expect(createSyncJsonSchema(Room).properties!.speed).toEqual({});
+    expect(createSyncJsonSchema(new Room({ speed: 2 })).properties!.speed).toEqual({
+      type: "number",
+    });
+  });
+
+  it("should round-trip with @signe/schema-to-zod to validate sync packets", () => {
+    const packetSchema = jsonSchemaToZodSchema(createSyncJsonSchema(GameRoom, { partial: true }) as any);
+
+    expect(
+      packetSchema.safeParse({
+        round: 2,
+        log: { 1: "round 2" },
+        players: {
+          p1: { name: "Alice", position: { x: 3 }, inventory: { sword: { count: 2 } } },
+          p2: "$delete",
+        },
+      }).success
+    ).toBe(true);
+    expect(packetSchema.safeParse({ round: "2" }).success).toBe(false);
+    expect(packetSchema.safeParse({ players: { p1: { position: { x: "left" } } } }).success).toBe(false);
+  });
+});
+
+describe("createSyncTypeDeclarations", () => {
+  it("should declare an interface per class", () => {
+    expect(createSyncTypeDeclarations(GameRoom)).toBe(
+      [
+        "export interface Item {",
+        "  name: string;",
+        "  count: number;",
+        "}",
+        "",
+        "export interface Player {",
+        "  readonly id: string;",
+        "  name: string;",
+        "  position: {",
+        "    x: number;",
+        "    y: number;",
+        "  };",
+        "  inventory: Record<string, Item>;",
+        "  tags: Record<string, any>;",
+        "  isConnected: boolean;",
+        "}",
+        "",
+        "export interface GameRoom {",
+        "  players: Record<string, Player>;",
+        "  round: number;",
+        "  log: string[];",
+        "  readonly label: string;",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should name the root interface with the title option", () => {
+    expect(createSyncTypeDeclarations(GameRoom, { title: "GameState", partial: true })).toContain(
+      "export interface GameState {\n  players?: Record<string, Player | \"$delete\">;"
+    );
+  });
+});
@@ -1,9 +1,10 @@
-import { signal, computed } from "@signe/reactive";
+import { signal, computed, batch, listSignal, textSignal } from "@signe/reactive";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
   createStatesSnapshot,
   createStatesSnapshotDeep,
   id,
+  load,
   persist,
   sync,
   syncClass,
@@ -59,6 +60,34 @@ describe("onSync", () => {
     expect(onSync).toHaveBeenCalledWith(new Map<string, any>([["count", 1]]));
   });
 
+  it("should call onSync and onPersist once for the changes made in a batch", () => {
+    class TestClass {
+      @sync() x = signal(0);
+      @sync() y = signal(0);
+      @sync() direction = signal("up");
+    }
+
+    const instance = new TestClass();
+    const onSync = vi.fn();
+    const onPersist = vi.fn();
+    syncClass(instance, { onSync, onPersist });
+    onSync.mockClear();
+
+    batch(() => {
+      instance.x.set(1);
+      instance.y.set(2);
+      instance.direction.set("left");
+    });
+
+    expect(onSync).toHaveBeenCalledTimes(1);
+    expect(onPersist).toHaveBeenCalledTimes(1);
+    expect(onSync.mock.calls[0][0]).toEqual(new Map<string, any>([
+      ["x", 1],
+      ["y", 2],
+      ["direction", "left"],
+    ]));
+  });
+
   it("should sync decorated class fields when emitted fields mask decorator accessors", () => {
     class TestClass {
       @sync() count = signal(0);
@@ -430,6 +459,221 @@ describe("onSync", () => {
     });
   });
 
+  describe("sync deep object", () => {
+    it("should sync nested changes at their path", () => {
+      class TestClass {
+        @sync() player = signal<any>({ stats: { hp: 10 }, items: [] }, { deep: true });
+      }
+
+      const instance = new TestClass();
+      const onSync = vi.fn();
+      const onPersist = vi.fn();
+      syncClass(instance, { onSync, onPersist });
+
+      instance.player().stats.hp = 3;
+      instance.player().items.push({ name: "sword" });
+      delete instance.player().stats.hp;
+
+      const synced = onSync.mock.lastCall[0];
+      expect(synced.get("player.stats.hp")).toBe("$delete");
+      expect(synced.get("player.items.0")).toEqual({ name: "sword" });
+      expect(onPersist).toHaveBeenLastCalledWith(
+        new Map<string, any>([
+          ["player.stats.hp", "$delete"],
+          ["player.items.0", { name: "sword" }],
+        ])
+      );
+    });
+
+    it("should sync nested changes of array signals", () => {
+      class TestClass {
+        @sync() players = signal([{ hp: 10 }], { deep: true });
+      }
+
+      const instance = new TestClass();
+      const onSync = vi.fn();
+      syncClass(instance, { onSync });
+
+      instance.players()[0].hp = 3;
+
+      expect(onSync.mock.lastCall[0].get("players.0.hp")).toBe(3);
+    });
+  });
+
+  describe("sync map", () => {
+    class Item {
+      @sync() name = signal("");
+    }
+
+    let instance;
+    let onSync;
+
+    beforeEach(() => {
+      class TestClass {
+        @sync() scores = signal(new Map([["alice", 1]]));
+        @sync(Item) inventory = signal(new Map<string, Item>());
+      }
+
+      instance = new TestClass();
+      onSync = vi.fn();
+
+      syncClass(instance, { onSync });
+    });
+
+    it("should sync map entries key by key", () => {
+      instance.scores().set("bob", 2);
+      instance.scores().set("alice", 3);
+      instance.scores().delete("bob");
+
+      expect(onSync).toHaveBeenLastCalledWith(
+        new Map<string, any>([
+          ["scores", { alice: 1 }],
+          ["inventory", {}],
+          ["scores.bob", "$delete"],
+          ["scores.alice", 3],
+        ])
+      );
+    });
+
+    it("should delete every entry on clear", () => {
+      instance.scores().set("bob", 2);
+      instance.scores().clear();
+
+      expect(onSync.mock.lastCall[0].get("scores.alice")).toBe("$delete");
+      expect(onSync.mock.lastCall[0].get("scores.bob")).toBe("$delete");
+    });
+
+    it("With nested class", () => {
+      const item = new Item();
+      item.name.set("sword");
+      instance.inventory().set("i1", item);
+
+      expect(onSync.mock.lastCall[0].get("inventory.i1.name")).toBe("sword");
+
+      item.name.set("axe");
+      expect(onSync.mock.lastCall[0].get("inventory.i1.name")).toBe("axe");
+    });
+  });
+
+  describe("sync set", () => {
+    it("should sync set values key by key", () => {
+      class TestClass {
+        @sync() tags = signal(new Set(["admin"]));
+      }
+
+      const instance = new TestClass();
+      const onSync = vi.fn();
+      const onPersist = vi.fn();
+      syncClass(instance, { onSync, onPersist });
+
+      instance.tags().add("moderator");
+      instance.tags().delete("admin");
+
+      expect(onSync).toHaveBeenLastCalledWith(
+        new Map<string, any>([
+          ["tags", { admin: "admin" }],
+          ["tags.moderator", "moderator"],
+          ["tags.admin", "$delete"],
+        ])
+      );
+      expect(onPersist).toHaveBeenLastCalledWith(
+        new Map<string, any>([
+          ["tags.moderator", "moderator"],
+          ["tags.admin", "$delete"],
+        ])
+      );
+    });
+  });
+
+  describe("sync map and set round trip", () => {
+    it("should keep the type of set items", () => {
+      class TestClass {
+        @sync() levels = signal(new Set([1, 2]));
+      }
+
+      const server = new TestClass();
+      const client = new TestClass();
+      const onSync = vi.fn();
+      syncClass(server, { onSync });
+      server.levels().add(3);
+      server.levels().delete(1);
+      load(client, Object.fromEntries(onSync.mock.lastCall![0]));
+
+      expect(Array.from(client.levels())).toEqual([2, 3]);
+    });
+
+    it("should remove the keys missing from a reset map or set", () => {
+      class TestClass {
+        @sync() scores = signal(new Map([["alice", 1], ["bob", 2]]));
+        @sync() levels = signal(new Set([1, 2]));
+      }
+
+      const server = new TestClass();
+      const client = new TestClass();
+      const onSync = vi.fn();
+      syncClass(server, { onSync });
+      server.scores.set(new Map([["bob", 3], ["carol", 4]]));
+      server.levels.set(new Set([2, 5]));
+
+      expect(onSync.mock.lastCall![0].get("scores.alice")).toBe("$delete");
+      expect(onSync.mock.lastCall![0].get("levels.1")).toBe("$delete");
+      load(client, Object.fromEntries(onSync.mock.lastCall![0]));
+
+      expect(Array.from(client.scores().entries())).toEqual([["bob", 3], ["carol", 4]]);
+      expect(Array.from(client.levels())).toEqual([2, 5]);
+    });
+  });
+
+  describe("sync CRDT signals", () => {
+    it("should sync and persist the entries of the elements by id", () => {
+      class TestClass {
+        @sync() notes = textSignal("hi", { replicaId: "server" });
+      }
+
+      const instance = new TestClass();
+      const onSync = vi.fn();
+      const onPersist = vi.fn();
+      syncClass(instance, { onSync, onPersist });
+
+      expect(onSync.mock.lastCall[0].get("notes")).toEqual({
+        "1@0": [null, "h"],
+        "2@0": ["1@0", "i"],
+      });
+
+      instance.notes.append("!");
+      instance.notes.delete(0);
+
+      expect(onSync).toHaveBeenLastCalledWith(
+        new Map<string, any>([
+          ["notes", { "1@0": [null, "h"], "2@0": ["1@0", "i"] }],
+          ["notes.3@server", ["2@0", "!"]],
+          ["notes.1@0", [null, null, 1]],
+        ])
+      );
+      expect(onPersist.mock.lastCall[0].get("notes.3@server")).toEqual(["2@0", "!"]);
+    });
+
+    it("should merge the synced entries on load", () => {
+      class TestClass {
+        @sync() items = listSignal<string>([]);
+      }
+
+      const server = new TestClass();
+      const onSync = vi.fn();
+      syncClass(server, { onSync });
+      server.items.push("a", "b");
+      server.items.delete(0);
+
+      const client = new TestClass();
+      load(client, Object.fromEntries(onSync.mock.lastCall[0]), true);
+      expect(client.items()).toEqual(["b"]);
+
+      const restored = new TestClass();
+      load(restored, createStatesSnapshotDeep(server), true);
+      expect(restored.items()).toEqual(["b"]);
+    });
+  });
+
   it("should sync Question class with id and text", () => {
     class Question {
       @sync() text = signal("");
@@ -783,6 +1027,21 @@ describe("createStatesSnapshotDeep", () => {
     });
   });
 
+  it("should persist map and set signals as objects", () => {
+    class TestClass {
+      @sync() scores = signal(new Map([["alice", 1]]));
+      @sync() tags = signal(new Set(["admin"]));
+    }
+
+    const instance = new TestClass();
+    syncClass(instance);
+
+    expect(createStatesSnapshotDeep(instance)).toEqual({
+      scores: { alice: 1 },
+      tags: { admin: "admin" },
+    });
+  });
+
   it("should apply filter to exclude paths", () => {
     class TestClass {
       @sync()